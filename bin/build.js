@@ -9,6 +9,9 @@ const PRODUCTION = process.env.NODE_ENV === 'production';
 // Config entrypoint files
 const ENTRY_POINTS = ['src/app.ts', 'src/app.css'];
 
+// Service worker, built separately because the live reload script can't run in a worker
+const WORKER_ENTRY_POINTS = ['src/sw.ts'];
+
 // Config dev serving
 const LIVE_RELOAD = !PRODUCTION;
 const SERVE_PORT = 3000;
@@ -28,14 +31,25 @@ const context = await esbuild.context({
   },
 });
 
+const workerContext = await esbuild.context({
+  bundle: true,
+  entryPoints: WORKER_ENTRY_POINTS,
+  outdir: BUILD_DIRECTORY,
+  minify: PRODUCTION,
+  sourcemap: !PRODUCTION,
+  target: PRODUCTION ? 'es2020' : 'esnext',
+});
+
 // Build files in prod
 if (PRODUCTION) {
-  await context.rebuild();
+  await Promise.all([context.rebuild(), workerContext.rebuild()]);
   context.dispose();
+  workerContext.dispose();
 }
 
 // Watch and serve files in dev
 else {
+  await workerContext.watch();
   await context.watch();
   await context
     .serve({
@@ -9,29 +9,51 @@ import './app.css';
 // Import modules
 import { setupBoundaryCheck } from './modules/boundaryUtils.js';
 import { CONFIG } from './modules/config.js';
-import { loadLocationData, updateMapSource } from './modules/dataLoader.js';
+import { getDataQualityReport, loadLocationData, updateMapSource } from './modules/dataLoader.js';
+import { setupDataQualityOverlay } from './modules/dataQualityOverlay.js';
 import { applyMapFilters, setupLocationFilters, toggleFilter } from './modules/filters.js';
 import { GeolocationManager } from './modules/geolocation.js';
+import { setupLanguageSwitcher } from './modules/languageSwitcher.js';
+import { setupListView } from './modules/listView.js';
 import { loadFiltersAndUpdateMap } from './modules/localStorage.js';
 import { initializeMap } from './modules/mapInit.js';
+import {
+  CLUSTER_COUNT_LAYER_ID,
+  CLUSTER_LAYER_ID,
+  isClusterFeature,
+} from './modules/markerClusters.js';
 import {
   setupMapInteractionHandlers,
   setupMapLoadHandler,
   setupSidebarHandlers,
 } from './modules/mapInteractions.js';
-import { addMarkers, updateMarkersData, updateMarkerVisibility } from './modules/markers.js';
+import {
+  addMarkers,
+  setupMarkerDataSync,
+  updateMarkersData,
+  updateMarkerVisibility,
+} from './modules/markers.js';
 import { setupPOIFiltering } from './modules/poi.js';
 import {
   closeActivePopup,
   closeItem,
   createPopup,
   handleSnapchatLink,
+  refreshActivePopup,
+  showClusterPopup,
   showImagePopup,
 } from './modules/popups.js';
+import { setupOfflineMode } from './modules/offline.js';
+import { setupAccessibility } from './modules/accessibility.js';
+import { setupFavorites } from './modules/favoritesPanel.js';
+import { setupProximity } from './modules/proximity.js';
+import { setupRouting } from './modules/routing.js';
+import { setupSearch } from './modules/search.js';
 import { state } from './modules/state.js';
-import { setupThreeJSLayer } from './modules/threejs.js';
+import { getSceneLocationAt, setupThreeJSLayer } from './modules/threejs.js';
 import { initialize3DSettings } from './modules/toggle3D.js';
 import { initializeTour } from './modules/tour.js';
+import { setupUrlStateSync } from './modules/urlState.js';
 import { eventBus, Events } from './modules/eventBus.js';
 import { resourceManager } from './modules/resourceManager.js';
 
@@ -46,6 +68,7 @@ declare global {
       getConfig: () => typeof CONFIG;
       closePopup: () => void;
       toggleFilter: (category: string) => void;
+      getDataQualityReport: typeof getDataQualityReport;
     };
     handleSnapchatLink: (url: string) => void;
     showImagePopup: (imageSrc: string, title?: string) => void;
@@ -71,12 +94,31 @@ window.Webflow.push(async (): Promise<void> => {
 
     // Setup all map handlers and systems
     setupMapLoadHandler(map);
+    setupMarkerDataSync(map);
     setupMapInteractionHandlers(map);
     setupSidebarHandlers();
     // setupBoundaryCheck(map); // Disabled - not used
     setupPOIFiltering(map);
     setupThreeJSLayer(map);
     initialize3DSettings(map);
+    setupDataQualityOverlay();
+    setupUrlStateSync(map);
+    setupSearch(map);
+    setupListView(map);
+    setupLanguageSwitcher(map);
+    setupProximity(map);
+    setupRouting(map);
+    setupOfflineMode(map);
+    setupAccessibility(map);
+    setupFavorites(map);
+
+    // Show the open popup in the new language
+    eventBus.on(Events.LANGUAGE_CHANGED, refreshActivePopup);
+
+    // Clusters that don't split when zooming in list their locations
+    eventBus.on(Events.MARKER_CLUSTER_LISTED, ({ coordinates, locations }) => {
+      showClusterPopup(map, coordinates, locations);
+    });
 
     // Initialize tour
     initializeTour(map);
@@ -87,13 +129,32 @@ window.Webflow.push(async (): Promise<void> => {
       updateMarkerVisibility(map, currentZoom);
     });
 
+    // Layers of the markers and cluster bubbles, which take clicks before the 3D objects
+    const markerLayers = [
+      'location-markers',
+      'location-icons',
+      'location-labels',
+      CLUSTER_LAYER_ID,
+      CLUSTER_COUNT_LAYER_ID,
+    ];
+
     // Handle map clicks
     map.on('click', (e) => {
       // Check if click is on a marker
-      const features = map.queryRenderedFeatures(e.point);
+      const layers = markerLayers.filter((id) => map.getLayer(id));
+      const features = map.queryRenderedFeatures(e.point, { layers });
       if (features.length > 0) {
         const location = features[0];
+        // Cluster bubbles zoom in or list their locations on click (see markerClusters)
+        if (isClusterFeature(location)) return;
         createPopup(location, map);
+        return;
+      }
+
+      // 3D models and image planes open the location they belong to
+      const sceneLocation = getSceneLocationAt(e.point);
+      if (sceneLocation) {
+        createPopup(sceneLocation, map);
       } else {
         closeActivePopup();
       }
@@ -106,7 +167,7 @@ window.Webflow.push(async (): Promise<void> => {
 
   } catch (error) {
     // Error during map initialization
-    eventBus.emit('app:error', error);
+    eventBus.emit(Events.APP_ERROR, error);
   }
 });
 
@@ -133,6 +194,7 @@ window.HeerlenMap = {
   getConfig: () => CONFIG,
   closePopup: closeActivePopup,
   toggleFilter: toggleFilter,
+  getDataQualityReport: getDataQualityReport,
 };
 
 // Make popup functions globally available for HTML onclick handlers
@@ -0,0 +1,346 @@
+// Accessibility module - focusable marker stand-ins, popups as dialogs and announcements
+
+import type { Map, Popup } from 'mapbox-gl';
+
+import { CONFIG } from './config.js';
+import { getLocationKey } from './dataSources.js';
+import { eventBus, Events } from './eventBus.js';
+import { getFilteredLocations } from './filters.js';
+import { t } from './i18n.js';
+import { createPopup, isPopupOpening } from './popups.js';
+import { state } from './state.js';
+
+interface MarkerProxy {
+  button: HTMLButtonElement;
+  feature: GeoJSON.Feature<GeoJSON.Point>;
+  // Screen position of the marker in pixels
+  x: number;
+  y: number;
+}
+
+// Screen direction of each arrow key
+const DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+const INSTRUCTIONS_ID = 'marker-proxy-instructions';
+
+let layerElement: HTMLElement | null = null;
+let instructionsElement: HTMLElement | null = null;
+let liveRegion: HTMLElement | null = null;
+const proxies = new globalThis.Map<string, MarkerProxy>();
+
+// Marker that keeps the tab stop, and the one to focus again when its popup closes
+let currentKey: string | null = null;
+let returnFocusKey: string | null = null;
+let dialogCleanup: (() => void) | null = null;
+
+/**
+ * Read a message to screen-reader users without moving focus
+ */
+export function announce(message: string): void {
+  if (!liveRegion) return;
+  // Clear first, so the same message is read again
+  liveRegion.textContent = '';
+  window.setTimeout(() => {
+    if (liveRegion) liveRegion.textContent = message;
+  }, 50);
+}
+
+function getProxyLabel(feature: GeoJSON.Feature): string {
+  const name = String(feature.properties?.name || t('accessibility.popup'));
+  const category = feature.properties?.category;
+  return category ? t('accessibility.marker', { name, category: String(category) }) : name;
+}
+
+/**
+ * Only the current marker is in the tab order; the arrow keys move between markers
+ */
+function updateTabStop(): void {
+  if (!currentKey || !proxies.has(currentKey)) {
+    currentKey = proxies.keys().next().value ?? null;
+  }
+  proxies.forEach(({ button }, key) => {
+    button.tabIndex = key === currentKey ? 0 : -1;
+  });
+}
+
+function focusProxy(key: string): void {
+  const proxy = proxies.get(key);
+  if (!proxy) return;
+  currentKey = key;
+  updateTabStop();
+  proxy.button.focus({ preventScroll: true });
+}
+
+/**
+ * The nearest marker in the direction of an arrow key, preferring markers in a straight line
+ */
+function findNeighbour(from: MarkerProxy, [dirX, dirY]: [number, number]): string | null {
+  let best: string | null = null;
+  let bestScore = Infinity;
+
+  proxies.forEach((proxy, key) => {
+    const dx = proxy.x - from.x;
+    const dy = proxy.y - from.y;
+    const along = dx * dirX + dy * dirY;
+    if (proxy === from || along <= 0) return;
+
+    const score = along + 2 * Math.abs(dx * dirY - dy * dirX);
+    if (score < bestScore) {
+      bestScore = score;
+      best = key;
+    }
+  });
+
+  return best;
+}
+
+function positionProxy(map: Map, proxy: MarkerProxy): void {
+  const point = map.project(proxy.feature.geometry.coordinates as [number, number]);
+  proxy.x = point.x;
+  proxy.y = point.y;
+  proxy.button.style.transform = `translate(${point.x}px, ${point.y}px)`;
+}
+
+function createProxy(map: Map, key: string, feature: GeoJSON.Feature<GeoJSON.Point>): MarkerProxy {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'marker-proxy';
+  button.setAttribute('aria-describedby', INSTRUCTIONS_ID);
+
+  const proxy: MarkerProxy = { button, feature, x: 0, y: 0 };
+
+  button.addEventListener('click', () => {
+    returnFocusKey = key;
+    void createPopup(proxy.feature, map);
+  });
+  button.addEventListener('focus', () => {
+    currentKey = key;
+    updateTabStop();
+  });
+  button.addEventListener('keydown', (event) => {
+    const direction = DIRECTIONS[event.key];
+    if (!direction) return;
+    event.preventDefault();
+
+    const next = findNeighbour(proxy, direction);
+    if (next) focusProxy(next);
+  });
+
+  return proxy;
+}
+
+/**
+ * Stand-ins for the filtered markers in view, reusing the buttons of markers that stay
+ */
+function renderProxies(map: Map): void {
+  if (!layerElement) return;
+
+  const bounds = map.getBounds();
+  const features = getFilteredLocations()
+    .features.filter(
+      (feature): feature is GeoJSON.Feature<GeoJSON.Point> =>
+        feature.geometry?.type === 'Point' &&
+        bounds.contains(feature.geometry.coordinates as [number, number])
+    )
+    .slice(0, CONFIG.ACCESSIBILITY.maxMarkers);
+
+  const keys = new Set<string>();
+  features.forEach((feature) => {
+    const key = getLocationKey(feature.properties);
+    if (!key || keys.has(key)) return;
+    keys.add(key);
+
+    let proxy = proxies.get(key);
+    if (proxy) {
+      proxy.feature = feature;
+    } else {
+      proxy = createProxy(map, key, feature);
+      proxies.set(key, proxy);
+      layerElement!.appendChild(proxy.button);
+    }
+    proxy.button.setAttribute('aria-label', getProxyLabel(feature));
+    positionProxy(map, proxy);
+  });
+
+  proxies.forEach((proxy, key) => {
+    if (keys.has(key)) return;
+    proxy.button.remove();
+    proxies.delete(key);
+  });
+
+  updateTabStop();
+}
+
+/**
+ * Keep the hidden side of a flip popup out of the tab order
+ */
+function updateHiddenSides(element: HTMLElement): void {
+  const wrapper = element.querySelector('.popup-wrapper');
+  if (!wrapper) return;
+
+  const flipped = wrapper.classList.contains('is-flipped');
+  wrapper.querySelectorAll<HTMLElement>('.popup-front').forEach((side) => {
+    side.inert = flipped;
+  });
+  wrapper.querySelectorAll<HTMLElement>('.popup-back').forEach((side) => {
+    side.inert = !flipped;
+  });
+}
+
+/**
+ * Make a popup a dialog: labelled, focus moves in and stays inside, Escape closes it
+ * @return Cleanup for when the popup closes
+ */
+function setupPopupDialog(popup: Popup): () => void {
+  const element = popup.getElement();
+  const content = element.querySelector<HTMLElement>('.mapboxgl-popup-content') ?? element;
+
+  const updateDialog = () => {
+    const title = element.querySelector('.popup-title, .location-name')?.textContent?.trim();
+    element.setAttribute('aria-label', title || t('accessibility.popup'));
+    updateHiddenSides(element);
+  };
+
+  element.setAttribute('role', 'dialog');
+  element.setAttribute('aria-modal', 'true');
+  content.tabIndex = -1;
+  updateDialog();
+
+  // The content is replaced on a language switch and the card flips by class
+  const observer = new MutationObserver(updateDialog);
+  observer.observe(element, {
+    subtree: true,
+    childList: true,
+    attributes: true,
+    attributeFilter: ['class'],
+  });
+
+  const onKeydown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      element.querySelector<HTMLElement>('.close-button')?.click();
+      return;
+    }
+    if (event.key !== 'Tab') return;
+
+    const focusable = Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+      (item) => !item.closest('[inert]')
+    );
+    if (focusable.length === 0) {
+      event.preventDefault();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+    if (event.shiftKey && (active === first || active === content)) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && active === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+  element.addEventListener('keydown', onKeydown);
+
+  content.focus({ preventScroll: true });
+
+  return () => {
+    observer.disconnect();
+    element.removeEventListener('keydown', onKeydown);
+  };
+}
+
+function createLayer(map: Map): HTMLElement {
+  const layer = document.createElement('div');
+  layer.className = 'marker-proxies';
+  layer.setAttribute('role', 'group');
+  map.getContainer().appendChild(layer);
+
+  const instructions = document.createElement('p');
+  instructions.id = INSTRUCTIONS_ID;
+  instructions.className = 'sr-only';
+  layer.appendChild(instructions);
+  instructionsElement = instructions;
+
+  const region = document.createElement('div');
+  region.className = 'sr-only';
+  region.setAttribute('role', 'status');
+  region.setAttribute('aria-live', 'polite');
+  map.getContainer().appendChild(region);
+  liveRegion = region;
+
+  return layer;
+}
+
+function updateTexts(map: Map): void {
+  layerElement?.setAttribute('aria-label', t('accessibility.markers'));
+  if (instructionsElement) instructionsElement.textContent = t('accessibility.instructions');
+  renderProxies(map);
+}
+
+/**
+ * Setup keyboard and screen-reader access: marker stand-ins, popup dialogs and the live region
+ */
+export function setupAccessibility(map: Map): void {
+  layerElement = createLayer(map);
+  updateTexts(map);
+
+  // Follow the markers while the map moves, rebuild the list once it stops
+  let frame: number | null = null;
+  map.on('move', () => {
+    if (frame !== null) return;
+    frame = requestAnimationFrame(() => {
+      frame = null;
+      proxies.forEach((proxy) => positionProxy(map, proxy));
+    });
+  });
+  map.on('moveend', () => renderProxies(map));
+
+  // A click on the map itself means the next popup wasn't opened from the keyboard
+  map.on('click', () => {
+    returnFocusKey = null;
+  });
+
+  eventBus.on(Events.DATA_LOADED, () => renderProxies(map));
+  eventBus.on(Events.FILTER_CHANGED, () => renderProxies(map));
+  eventBus.on(Events.TIME_FILTER_CHANGED, () => renderProxies(map));
+  eventBus.on(Events.LANGUAGE_CHANGED, () => updateTexts(map));
+
+  eventBus.on(Events.POPUP_OPENED, (popup: Popup) => {
+    dialogCleanup?.();
+    dialogCleanup = setupPopupDialog(popup);
+  });
+
+  // Popups are swapped by closing the old one first, so only return focus when none follows
+  eventBus.on(Events.POPUP_CLOSED, () => {
+    dialogCleanup?.();
+    dialogCleanup = null;
+
+    window.setTimeout(() => {
+      if (state.activePopup || isPopupOpening() || !returnFocusKey) return;
+      const key = returnFocusKey;
+      returnFocusKey = null;
+      focusProxy(key);
+    }, 0);
+  });
+
+  eventBus.on(Events.SELECTION_CHANGED, (locationId: string | null) => {
+    if (!locationId) return;
+    const feature = state.mapLocations.features.find(
+      (item: GeoJSON.Feature) => getLocationKey(item.properties) === locationId
+    );
+    if (feature) {
+      announce(t('accessibility.selected', { name: String(feature.properties?.name || '') }));
+    }
+  });
+}
@@ -33,6 +33,62 @@ export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2
   return 6371 * c; // Earth radius in km
 }
 
+/**
+ * Check if a point lies inside a closed ring (ray casting, planar lng/lat)
+ * @param point - [lng, lat]
+ * @param ring - Closed ring of [lng, lat] positions
+ */
+function isInsideRing(point: [number, number], ring: GeoJSON.Position[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check if a point lies inside a Polygon or MultiPolygon, outside of its holes
+ * @param point - [lng, lat]
+ * @param area - Polygon or MultiPolygon geometry
+ */
+export function isPointInArea(
+  point: [number, number],
+  area: GeoJSON.Polygon | GeoJSON.MultiPolygon
+): boolean {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+
+  return polygons.some(
+    ([outer, ...holes]) =>
+      !!outer && isInsideRing(point, outer) && !holes.some((hole) => isInsideRing(point, hole))
+  );
+}
+
+/**
+ * Check if coordinates fall inside the service area from CONFIG.MAP.boundary
+ * @param coordinates - [lng, lat]
+ */
+export function isInsideBoundary(coordinates: [number, number]): boolean {
+  return isPointInArea(coordinates, CONFIG.MAP.boundary.area);
+}
+
+/**
+ * Service area as a GeoJSON feature, for the boundary layers
+ */
+export function getBoundaryFeature(): GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon> {
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: CONFIG.MAP.boundary.area,
+  };
+}
+
 /**
  * Setup boundary checking for map movement
  * @param map - The mapbox map instance
@@ -11,7 +11,24 @@ export const CONFIG = {
     bearing: -17.6,
     boundary: {
       center: [5.977105864037915, 50.88774161029858] as [number, number],
-      radius: 0.6,
+      // Service area (city centre); any GeoJSON Polygon or MultiPolygon, as [lng, lat] rings
+      area: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [5.9694, 50.8906],
+            [5.9748, 50.8934],
+            [5.9812, 50.8931],
+            [5.9861, 50.8903],
+            [5.9873, 50.8861],
+            [5.9836, 50.8826],
+            [5.9771, 50.8812],
+            [5.9712, 50.8823],
+            [5.9676, 50.8852],
+            [5.9694, 50.8906],
+          ],
+        ],
+      } as GeoJSON.Polygon | GeoJSON.MultiPolygon,
     },
   },
   MARKER_ZOOM: {
@@ -24,6 +41,79 @@ export const CONFIG = {
     speed: 0.8,
     duration: 2000,
   },
+  CLUSTER: {
+    // Group nearby markers into bubbles; can also be enabled with window.HEERLEN_CLUSTER_MARKERS
+    enabled: false,
+    radius: 50,
+    // Above this zoom level every location is shown separately
+    maxZoom: 16,
+    // Bubble color when no category dominates
+    color: '#A0A0A0',
+    // Most locations listed in the popup of a cluster that doesn't split when zooming in
+    popupLimit: 50,
+  },
+  PROXIMITY: {
+    // Watch the distance to locations while the user shares their position
+    enabled: true,
+    // Trigger distance in meters when a location has no proximityRadius of its own
+    radius: 40,
+    // Extra distance before a location counts as left again, so GPS jitter doesn't re-trigger it
+    hysteresis: 15,
+    // Seconds before an unanswered nudge hides itself
+    nudgeTimeout: 12,
+  },
+  ROUTING: {
+    // GeoJSON FeatureCollection of walkable paths (LineString/MultiLineString); null links to a navigation app instead
+    networkUrl: null as string | null,
+    // Average walking speed in meters per second, for the ETA
+    walkingSpeed: 1.35,
+    // Furthest a start or destination may be from the network, in meters
+    snapDistance: 150,
+    // Distance from the route in meters after which a new route is computed
+    rerouteDistance: 30,
+    // Remaining distance in meters at which the user has arrived
+    arrivalDistance: 15,
+  },
+  LOCATION_SIMULATION: {
+    // Default playback speed of ?location=replay tracks (1 = as recorded)
+    replaySpeed: 1,
+    // Milliseconds between replayed positions
+    interval: 1000,
+  },
+  SCENE_PICKING: {
+    // Glow of a hovered 3D model or tint of a hovered image plane
+    highlightColor: '#ffd54f',
+    highlightIntensity: 0.35,
+  },
+  ACCESSIBILITY: {
+    // Most markers in view that get a focusable stand-in for keyboard and screen-reader users
+    maxMarkers: 100,
+  },
+  CACHE: {
+    // Memory budget in bytes for cached images, textures and 3D models
+    maxBytes: 128 * 1024 * 1024,
+  },
+  RESOURCE_RETRY: {
+    // Tries per image or model load, including the first
+    attempts: 3,
+    // Wait before the first retry in ms, doubled for every next one up to maxDelay
+    baseDelay: 500,
+    maxDelay: 8000,
+    // Milliseconds a failed URL is skipped before it may be tried again
+    failureExpiry: 60000,
+  },
+  OFFLINE: {
+    // Precache the map for use without a connection; needs the service worker on the site's domain
+    enabled: false,
+    // dist/sw.js, served from the site's own domain (service workers don't work cross-origin)
+    serviceWorkerUrl: '/sw.js' as string | null,
+    // Zoom levels of the map tiles that are precached for the boundary area
+    tileZooms: [12, 16] as [number, number],
+  },
+  DATA: {
+    // JSON/GeoJSON endpoint for location data; null loads from the Webflow CMS lists
+    url: null as string | null,
+  },
 };
 
 // Mapbox access token
@@ -33,8 +123,14 @@ export const MAPBOX_ACCESS_TOKEN: string =
 // Map style
 export const MAP_STYLE: string = 'mapbox://styles/projectheerlen/cm1t3u60e011d01peewgldm85';
 
-// Local storage key
+// Local storage keys
 export const LOCAL_STORAGE_KEY: string = 'heerlenActiveFilters';
+export const TIME_FILTER_STORAGE_KEY: string = 'heerlenTimeFilter';
+export const LANGUAGE_STORAGE_KEY: string = 'heerlenLanguage';
+export const VISITED_STORAGE_KEY: string = 'heerlenVisitedLocations';
+export const DO_NOT_DISTURB_STORAGE_KEY: string = 'heerlenDoNotDisturb';
+export const NAVIGATION_PROVIDER_STORAGE_KEY: string = 'heerlenNavigationProvider';
+export const FAVORITES_STORAGE_KEY: string = 'heerlenFavorites';
 
 // Map options
 export const MAP_OPTIONS: MapboxOptions = {
@@ -1,94 +1,67 @@
-// Data loading module - loads location data from Webflow
-
-import type { Feature, Point } from 'geojson';
-import type { Map } from 'mapbox-gl';
-
+// Data loading module - loads location data from Webflow or a configured data source
+
+import type { GeoJSONSource, Map } from 'mapbox-gl';
+
+import { CONFIG } from './config.js';
+import {
+  type ARData,
+  createARFeature,
+  createLocationFeature,
+  DEFAULT_SCENE_OBJECTS,
+  JSONDataSource,
+  LOCATION_DEFAULTS,
+  type LocationData,
+  type LocationDataSet,
+  type LocationDataSource,
+  type LocationImage,
+  parseLocationImages,
+  parseProximityRadius,
+  parseSceneObjects,
+  type SceneObjectConfig,
+} from './dataSources.js';
+import {
+  createDataIssue,
+  type DataIssue,
+  type DataQualityReport,
+  validateLocationData,
+} from './dataValidation.js';
+import { eventBus, Events } from './eventBus.js';
+import { getFilteredLocations } from './filters.js';
+import { isClusteringEnabled } from './markerClusters.js';
 import { state } from './state.js';
 
-interface LocationData {
-  locationLat: number;
-  locationLong: number;
-  locationID: string;
-  name: string;
-  locationInfo: string;
-  ondernemerkleur: string;
-  descriptionv2: string;
-  icon: string | null;
-  image: string | null;
-  category: string;
-  telefoonummer: string;
-  locatie: string;
-  maps: string | null;
-  website: string | null;
-  instagram: string | null;
-  facebook: string | null;
-  maandag: string;
-  dinsdag: string;
-  woensdag: string;
-  donderdag: string;
-  vrijdag: string;
-  zaterdag: string;
-  zondag: string;
-}
-
-interface ARData {
-  latitude_ar: number;
-  longitude_ar: number;
-  name_ar: string;
-  slug_ar: string;
-  image_ar: string | null;
-  description_ar: string;
-  arkleur: string;
-  icon_ar: string | null;
-  instructie: string;
-  link_ar_mobile: string | null;
-  link_ar_desktop: string | null;
-  category: string | null;
-}
-
-interface LocationFeature extends Feature<Point> {
-  properties: {
-    id: string;
-    description: string;
-    arrayID: number;
-    color: string;
-    name: string;
-    icon?: string | null;
-    image?: string | null;
-    category: string;
-    telefoonummer?: string;
-    locatie?: string;
-    maps?: string | null;
-    website?: string | null;
-    descriptionv2?: string;
-    instagram?: string | null;
-    facebook?: string | null;
-    maandag?: string;
-    dinsdag?: string;
-    woensdag?: string;
-    donderdag?: string;
-    vrijdag?: string;
-    zaterdag?: string;
-    zondag?: string;
-  };
+// Data endpoint can be set from the page, like the Mapbox token
+declare global {
+  interface Window {
+    HEERLEN_DATA_URL?: string;
+  }
 }
 
-interface ARFeature extends Feature<Point> {
-  properties: {
-    type: 'ar';
-    name: string;
-    slug: string;
-    description: string;
-    arrayID: number;
-    image?: string | null;
-    arkleur: string;
-    icon?: string | null;
-    instructie: string;
-    link_ar_mobile?: string | null;
-    link_ar_desktop?: string | null;
-    category?: string | null;
-  };
-}
+// Explicitly configured data source (overrides the default resolution)
+let configuredDataSource: LocationDataSource | null = null;
+
+// Problems found while scraping the CMS lists, reported in the data-quality report
+let loadIssues: DataIssue[] = [];
+let lastDataQualityReport: DataQualityReport | null = null;
+
+// Models and image planes of the 3D layer, from the last load
+let sceneObjects: SceneObjectConfig[] = DEFAULT_SCENE_OBJECTS;
+
+// CMS fields of a 3D object item, by record key
+const SCENE_OBJECT_FIELDS = [
+  'type',
+  'id',
+  'lat',
+  'lng',
+  'altitude',
+  'rotate',
+  'url',
+  'scale',
+  'imageUrl',
+  'width',
+  'height',
+  'locationId',
+];
 
 /**
  * Helper function to safely get a value from an element within a parent.
@@ -117,14 +90,41 @@ function getRobustValue(
     // Property doesn't exist on the found element
     return defaultValue;
   }
-  // Required element is missing
-  if (isRequired) {
-    // Cannot process fully
+  // Required element is missing - record it when a fallback value is substituted
+  if (isRequired && defaultValue !== null) {
+    loadIssues.push(
+      createDataIssue('missing-field', {
+        itemType: itemType === 'AR' ? 'AR' : 'location',
+        itemId: `#${itemIndex}`,
+        field: selector.replace('#', ''),
+        message: `Veld ontbreekt, standaardwaarde "${defaultValue}" gebruikt`,
+      })
+    );
   }
   // Return default even if not required, just don't log unless required
   return defaultValue;
 }
 
+/**
+ * Read the extra photos of a CMS item: the images of a nested multi-image list
+ * (`.location-images img`, the alt text is the caption) or a `#images` field with URLs
+ */
+function getLocationImageData(element: Element, index: number): LocationImage[] {
+  const images = Array.from(element.querySelectorAll<HTMLImageElement>('.location-images img'));
+  if (images.length > 0) {
+    return images.flatMap((image): LocationImage[] => {
+      const url = image.getAttribute('src');
+      const caption = image.dataset.caption || image.alt;
+      if (!url) return [];
+      return [caption ? { url, caption } : { url }];
+    });
+  }
+
+  return parseLocationImages(
+    getRobustValue(element, '#images', 'value', null, false, index, 'location')
+  );
+}
+
 /**
  * Load location data from CMS DOM elements robustly.
  * Skips items with invalid coordinates.
@@ -177,6 +177,15 @@ export function getGeoData(): void {
 
       if (isNaN(locationLat) || isNaN(locationLong)) {
         skippedCount++;
+        loadIssues.push(
+          createDataIssue('invalid-coordinates', {
+            itemType: 'location',
+            itemId: locationID,
+            field: 'coordinates',
+            value: `${rawLat}, ${rawLong}`,
+            message: 'Ongeldige coördinaten, locatie overgeslagen',
+          })
+        );
         return; // Go to the next iteration/element
       }
 
@@ -187,12 +196,20 @@ export function getGeoData(): void {
         locationLong: locationLong,
         locationID: locationID, // Use the validated/defaulted ID
         // Other data with defaults
-        name: getRobustValue(element, '#name', 'value', 'Naamloos', false, index, 'location'),
+        name: getRobustValue(
+          element,
+          '#name',
+          'value',
+          LOCATION_DEFAULTS.name,
+          true,
+          index,
+          'location'
+        ),
         locationInfo: getRobustValue(
           element,
           '.locations-map_card',
           'innerHTML',
-          '<p>Geen informatie beschikbaar</p>',
+          LOCATION_DEFAULTS.locationInfo,
           false,
           index,
           'location'
@@ -201,8 +218,8 @@ export function getGeoData(): void {
           element,
           '#ondernemerkleur',
           'value',
-          '#A0A0A0',
-          false,
+          LOCATION_DEFAULTS.color,
+          true,
           index,
           'location'
         ), // Grey default color
@@ -217,7 +234,16 @@ export function getGeoData(): void {
         ),
         icon: getRobustValue(element, '#icon', 'value', null, false, index, 'location'), // Let Mapbox handle missing icon later if needed
         image: getRobustValue(element, '#image', 'value', null, false, index, 'location'),
-        category: getRobustValue(element, '#category', 'value', 'Overig', false, index, 'location'), // Default category
+        images: getLocationImageData(element, index),
+        category: getRobustValue(
+          element,
+          '#category',
+          'value',
+          LOCATION_DEFAULTS.category,
+          true,
+          index,
+          'location'
+        ), // Default category
         telefoonummer: getRobustValue(
           element,
           '#telefoonnummer',
@@ -239,40 +265,13 @@ export function getGeoData(): void {
         vrijdag: getRobustValue(element, '#vrijdag', 'value', '', false, index, 'location'),
         zaterdag: getRobustValue(element, '#zaterdag', 'value', '', false, index, 'location'),
         zondag: getRobustValue(element, '#zondag', 'value', '', false, index, 'location'),
+        proximityRadius: parseProximityRadius(
+          getRobustValue(element, '#proximityRadius', 'value', null, false, index, 'location')
+        ),
       };
 
       // --- Create Feature ---
-      const feature: LocationFeature = {
-        type: 'Feature',
-        geometry: {
-          type: 'Point',
-          coordinates: [locationData.locationLong, locationData.locationLat], // Use validated coords
-        },
-        properties: {
-          id: locationData.locationID,
-          description: locationData.locationInfo,
-          arrayID: index, // Keep original index for potential reference
-          color: locationData.ondernemerkleur,
-          name: locationData.name,
-          icon: locationData.icon,
-          image: locationData.image,
-          category: locationData.category,
-          telefoonummer: locationData.telefoonummer,
-          locatie: locationData.locatie,
-          maps: locationData.maps,
-          website: locationData.website,
-          descriptionv2: locationData.descriptionv2,
-          instagram: locationData.instagram,
-          facebook: locationData.facebook,
-          maandag: locationData.maandag,
-          dinsdag: locationData.dinsdag,
-          woensdag: locationData.woensdag,
-          donderdag: locationData.donderdag,
-          vrijdag: locationData.vrijdag,
-          zaterdag: locationData.zaterdag,
-          zondag: locationData.zondag,
-        },
-      };
+      const feature = createLocationFeature(locationData, index); // Keep original index for potential reference
 
       // --- Add Feature (if not duplicate ID) ---
       if (
@@ -283,6 +282,16 @@ export function getGeoData(): void {
       } else {
         // Duplicate location ID found and skipped
         skippedCount++;
+        loadIssues.push(
+          createDataIssue('duplicate-id', {
+            itemType: 'location',
+            itemId: locationData.locationID,
+            name: locationData.name,
+            field: 'locationID',
+            value: locationData.locationID,
+            message: 'Dubbele locationID, locatie overgeslagen',
+          })
+        );
       }
     });
 }
@@ -342,6 +351,16 @@ export function getARData(): void {
 
       if (isNaN(latitude_ar) || isNaN(longitude_ar)) {
         skippedCount++;
+        loadIssues.push(
+          createDataIssue('invalid-coordinates', {
+            itemType: 'AR',
+            itemId: `#${itemIndexForLog}`,
+            name: name_ar,
+            field: 'coordinates',
+            value: `${rawLat}, ${rawLong}`,
+            message: 'Ongeldige coördinaten, AR-item overgeslagen',
+          })
+        );
         return; // Go to the next iteration/element
       }
 
@@ -358,19 +377,27 @@ export function getARData(): void {
           element,
           '#description_ar',
           'value',
-          'Geen beschrijving.',
+          LOCATION_DEFAULTS.arDescription,
           false,
           itemIndexForLog,
           'AR'
         ),
-        arkleur: getRobustValue(element, '#arkleur', 'value', '#A0A0A0', false, index, 'location'), // Grey default color
+        arkleur: getRobustValue(
+          element,
+          '#arkleur',
+          'value',
+          LOCATION_DEFAULTS.color,
+          true,
+          index,
+          'AR'
+        ), // Grey default color
         icon_ar: getRobustValue(element, '#icon_ar', 'value', null, false, itemIndexForLog, 'AR'), // Default icon?
         // Nieuwe velden
         instructie: getRobustValue(
           element,
           '#instructie',
           'value',
-          'Geen instructie beschikbaar.',
+          LOCATION_DEFAULTS.arInstruction,
           false,
           itemIndexForLog,
           'AR'
@@ -394,38 +421,29 @@ export function getARData(): void {
           'AR'
         ),
         category: getRobustValue(element, '#category', 'value', null, false, itemIndexForLog, 'AR'),
+        proximityRadius: parseProximityRadius(
+          getRobustValue(element, '#proximityRadius', 'value', null, false, itemIndexForLog, 'AR')
+        ),
       };
 
       // Check if required AR links are present
       if (!arData.link_ar_mobile && !arData.link_ar_desktop) {
         // Skipping AR item: missing required AR links
         skippedCount++;
+        loadIssues.push(
+          createDataIssue('missing-ar-link', {
+            itemType: 'AR',
+            itemId: arData.slug_ar || `#${itemIndexForLog}`,
+            name: arData.name_ar,
+            field: 'link_ar_mobile',
+            message: 'Geen AR-link (mobiel of desktop), AR-item overgeslagen',
+          })
+        );
         return;
       }
 
       // --- Create Feature ---
-      const feature: ARFeature = {
-        type: 'Feature',
-        geometry: {
-          type: 'Point',
-          coordinates: [arData.longitude_ar, arData.latitude_ar], // Use validated coords
-        },
-        properties: {
-          type: 'ar', // Mark as AR type
-          name: arData.name_ar,
-          slug: arData.slug_ar,
-          description: arData.description_ar,
-          arrayID: startIndex + index, // Ensure unique arrayID across both lists
-          image: arData.image_ar,
-          arkleur: arData.arkleur,
-          icon: arData.icon_ar,
-          // Nieuwe velden
-          instructie: arData.instructie,
-          link_ar_mobile: arData.link_ar_mobile,
-          link_ar_desktop: arData.link_ar_desktop,
-          category: arData.category,
-        },
-      };
+      const feature = createARFeature(arData, startIndex + index); // Ensure unique arrayID across both lists
 
       // --- Add Feature ---
       state.mapLocations.features.push(feature);
@@ -433,21 +451,131 @@ export function getARData(): void {
     });
 }
 
+/**
+ * Load 3D models and image planes from the CMS list. Every item holds inputs
+ * with the IDs `#type_3d`, `#id_3d`, `#lat_3d`, `#lng_3d`, `#url_3d`, ... (see SCENE_OBJECT_FIELDS).
+ * @return The objects, or undefined when the page has no such list
+ */
+export function getSceneObjectData(): SceneObjectConfig[] | undefined {
+  const sceneObjectList = document.getElementById('location-3d-list');
+  if (!sceneObjectList) {
+    return undefined;
+  }
+
+  const records = Array.from(sceneObjectList.children).map((element, index) => ({
+    record: Object.fromEntries(
+      SCENE_OBJECT_FIELDS.map((field) => [
+        field,
+        getRobustValue(element, `#${field}_3d`, 'value', null, false, index, '3D'),
+      ])
+    ),
+  }));
+
+  return parseSceneObjects(records, loadIssues);
+}
+
+/**
+ * Data source that scrapes the hidden Webflow CMS lists
+ */
+export const domDataSource: LocationDataSource = {
+  name: 'dom',
+  async load(): Promise<LocationDataSet> {
+    // The DOM loaders append to state directly, so start from an empty list
+    state.mapLocations.features = [];
+    loadIssues = [];
+    getGeoData();
+    getARData();
+    return {
+      features: state.mapLocations.features as LocationDataSet['features'],
+      sceneObjects: getSceneObjectData(),
+      issues: loadIssues,
+    };
+  },
+};
+
+/**
+ * Use a specific data source for the next loadLocationData() call
+ * @param source - The data source, or null to fall back to the default resolution
+ */
+export function setDataSource(source: LocationDataSource | null): void {
+  configuredDataSource = source;
+}
+
+/**
+ * Pick the data source: an explicitly set source first, then a configured
+ * JSON/GeoJSON endpoint, and the Webflow DOM otherwise
+ */
+export function resolveDataSource(): LocationDataSource {
+  if (configuredDataSource) {
+    return configuredDataSource;
+  }
+
+  const dataUrl = window.HEERLEN_DATA_URL || CONFIG.DATA.url;
+  if (dataUrl) {
+    return new JSONDataSource(dataUrl);
+  }
+
+  return domDataSource;
+}
+
 /**
  * Main function to load all location data
+ * @param source - Data source to load from (defaults to resolveDataSource())
  */
-export async function loadLocationData(): Promise<typeof state.mapLocations> {
-  // Reset mapLocations in case this script runs multiple times
-  state.mapLocations.features = [];
+export async function loadLocationData(
+  source: LocationDataSource = resolveDataSource()
+): Promise<typeof state.mapLocations> {
+  let dataSet: LocationDataSet;
+  let fallbackDataSet: LocationDataSet | null = null;
+
+  try {
+    dataSet = await source.load();
+  } catch (error) {
+    eventBus.emit(Events.DATA_ERROR, error);
+
+    // Fall back to whatever Webflow rendered on the page
+    fallbackDataSet = source === domDataSource ? { features: [] } : await domDataSource.load();
+    dataSet = fallbackDataSet;
+  }
+
+  // Replace (not append) in case this script runs multiple times
+  state.mapLocations.features = dataSet.features;
+  sceneObjects = dataSet.sceneObjects ?? DEFAULT_SCENE_OBJECTS;
+
+  // Report data problems so editors can fix them in the CMS
+  lastDataQualityReport = validateLocationData(
+    dataSet.features,
+    dataSet.issues,
+    fallbackDataSet ? domDataSource.name : source.name
+  );
+  eventBus.emit(Events.DATA_VALIDATED, lastDataQualityReport);
+
+  // Push the new data into the map if markers were already added
+  if (state.map) {
+    updateMapSource(state.map);
+  }
 
-  // Load both types of data
-  getGeoData();
-  getARData();
+  eventBus.emit(Events.DATA_LOADED, state.mapLocations);
+  eventBus.emit(Events.SCENE_OBJECTS_CHANGED, sceneObjects);
 
   // Return the loaded data
   return state.mapLocations;
 }
 
+/**
+ * Get the data-quality report of the last load
+ */
+export function getDataQualityReport(): DataQualityReport | null {
+  return lastDataQualityReport;
+}
+
+/**
+ * Models and image planes for the 3D layer: from the data source, or the defaults
+ */
+export function getSceneObjects(): SceneObjectConfig[] {
+  return sceneObjects;
+}
+
 /**
  * Update map source with loaded data
  */
@@ -456,7 +584,10 @@ export function updateMapSource(map: Map): void {
   if (map.getSource('locations')) {
     const source = map.getSource('locations');
     if (source && 'setData' in source) {
-      (source as any).setData(state.mapLocations);
+      // Clustered sources hold the filtered data (see applyMapFilters)
+      (source as GeoJSONSource).setData(
+        isClusteringEnabled() ? getFilteredLocations() : state.mapLocations
+      );
     }
   }
 }
@@ -0,0 +1,93 @@
+// Data-quality debug overlay - lists CMS problems for editors
+
+import { getDataQualityReport } from './dataLoader.js';
+import type { DataIssue, DataQualityReport } from './dataValidation.js';
+import { eventBus, Events } from './eventBus.js';
+import { escapeHTML } from './sanitize.js';
+
+// Set this localStorage key to 'true' to always show the overlay
+const DEBUG_STORAGE_KEY = 'heerlen_map_debug_data';
+
+let overlayElement: HTMLElement | null = null;
+
+/**
+ * Check if the overlay was requested with ?debug=data or the localStorage flag
+ */
+export function isDataDebugEnabled(): boolean {
+  try {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('debug') === 'data') return true;
+    return localStorage.getItem(DEBUG_STORAGE_KEY) === 'true';
+  } catch {
+    // localStorage can be blocked (private mode, iframes)
+    return false;
+  }
+}
+
+/**
+ * Render one issue as a list item
+ */
+function renderIssue(issue: DataIssue): string {
+  const label = issue.name ? `${issue.name} (${issue.itemId})` : issue.itemId;
+  const value = issue.value ? `<code>${escapeHTML(issue.value)}</code>` : '';
+
+  return `
+    <li class="data-quality-issue is-${issue.severity}">
+      <span class="data-quality-item">${issue.itemType} · ${escapeHTML(label)}</span>
+      <span class="data-quality-message">${escapeHTML(issue.message)} ${value}</span>
+    </li>`;
+}
+
+/**
+ * Render the report into the overlay, creating the overlay on first use
+ */
+export function renderDataQualityReport(report: DataQualityReport): void {
+  if (!overlayElement) {
+    overlayElement = document.createElement('div');
+    overlayElement.className = 'data-quality-overlay';
+    overlayElement.setAttribute('role', 'region');
+    overlayElement.setAttribute('aria-label', 'Datakwaliteit');
+    document.body.appendChild(overlayElement);
+
+    overlayElement.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('.data-quality-close')) {
+        overlayElement?.remove();
+        overlayElement = null;
+      } else if (target.closest('.data-quality-toggle')) {
+        overlayElement?.classList.toggle('is-collapsed');
+      }
+    });
+  }
+
+  const errorCount = report.issues.filter((issue) => issue.severity === 'error').length;
+  const warningCount = report.issues.length - errorCount;
+
+  overlayElement.innerHTML = `
+    <div class="data-quality-header">
+      <button class="data-quality-toggle" type="button">
+        Datakwaliteit: ${errorCount} fouten, ${warningCount} waarschuwingen
+      </button>
+      <button class="data-quality-close" type="button" aria-label="Sluiten">×</button>
+    </div>
+    <div class="data-quality-summary">
+      Bron: ${escapeHTML(report.source)} · ${report.totalFeatures} geladen ·
+      ${report.validFeatures} zonder problemen · ${report.skippedItems} overgeslagen
+    </div>
+    <ul class="data-quality-list">
+      ${report.issues.map(renderIssue).join('')}
+    </ul>`;
+}
+
+/**
+ * Show the overlay whenever the data is validated, if debugging is enabled
+ */
+export function setupDataQualityOverlay(): void {
+  if (!isDataDebugEnabled()) return;
+
+  eventBus.on(Events.DATA_VALIDATED, renderDataQualityReport);
+
+  // Data may already have loaded before the overlay was set up
+  const report = getDataQualityReport();
+  if (report) renderDataQualityReport(report);
+}
@@ -0,0 +1,721 @@
+// Data source layer - pluggable loaders that turn raw data into map features
+
+import { createDataIssue, type DataIssue } from './dataValidation.js';
+
+/** Photo of a location, shown in the image carousel */
+export interface LocationImage {
+  url: string;
+  caption?: string;
+}
+
+/** Raw location record as it is published by the CMS */
+export interface LocationData {
+  locationLat: number;
+  locationLong: number;
+  locationID: string;
+  name: string;
+  locationInfo: string;
+  ondernemerkleur: string;
+  descriptionv2: string;
+  icon: string | null;
+  image: string | null;
+  // Extra photos for the carousel, next to the main image
+  images?: LocationImage[];
+  category: string;
+  telefoonummer: string;
+  locatie: string;
+  maps: string | null;
+  website: string | null;
+  instagram: string | null;
+  facebook: string | null;
+  maandag: string;
+  dinsdag: string;
+  woensdag: string;
+  donderdag: string;
+  vrijdag: string;
+  zaterdag: string;
+  zondag: string;
+  // Distance in meters at which the proximity nudge triggers, null for the default
+  proximityRadius?: number | null;
+}
+
+/** Raw AR record as it is published by the CMS */
+export interface ARData {
+  latitude_ar: number;
+  longitude_ar: number;
+  name_ar: string;
+  slug_ar: string;
+  image_ar: string | null;
+  description_ar: string;
+  arkleur: string;
+  icon_ar: string | null;
+  instructie: string;
+  link_ar_mobile: string | null;
+  link_ar_desktop: string | null;
+  category: string | null;
+  proximityRadius?: number | null;
+}
+
+export interface LocationFeature extends GeoJSON.Feature<GeoJSON.Point> {
+  properties: {
+    id: string;
+    description: string;
+    arrayID: number;
+    color: string;
+    name: string;
+    icon?: string | null;
+    image?: string | null;
+    images?: LocationImage[];
+    category: string;
+    telefoonummer?: string;
+    locatie?: string;
+    maps?: string | null;
+    website?: string | null;
+    descriptionv2?: string;
+    instagram?: string | null;
+    facebook?: string | null;
+    maandag?: string;
+    dinsdag?: string;
+    woensdag?: string;
+    donderdag?: string;
+    vrijdag?: string;
+    zaterdag?: string;
+    zondag?: string;
+    proximityRadius?: number | null;
+  };
+}
+
+export interface ARFeature extends GeoJSON.Feature<GeoJSON.Point> {
+  properties: {
+    type: 'ar';
+    name: string;
+    slug: string;
+    description: string;
+    arrayID: number;
+    image?: string | null;
+    arkleur: string;
+    icon?: string | null;
+    instructie: string;
+    link_ar_mobile?: string | null;
+    link_ar_desktop?: string | null;
+    category?: string | null;
+    proximityRadius?: number | null;
+  };
+}
+
+export type MapFeature = LocationFeature | ARFeature;
+
+interface SceneObjectBase {
+  id: string;
+  origin: [number, number]; // [lat, lng]
+  // Meters above the ground
+  altitude: number;
+  // Rotation around the x, y and z axis in radians
+  rotate: [number, number, number];
+  // Location ID or AR slug whose popup opens when the object is clicked
+  locationId?: string;
+}
+
+/** Building model (glTF/GLB) placed in the 3D layer */
+export interface ModelConfig extends SceneObjectBase {
+  type: 'model';
+  url: string;
+  scale: number;
+}
+
+/** Flat image (e.g. a mural) placed in the 3D layer, sized in meters */
+export interface ImagePlaneConfig extends SceneObjectBase {
+  type: 'imagePlane';
+  imageUrl: string;
+  width: number;
+  height: number;
+}
+
+export type SceneObjectConfig = ModelConfig | ImagePlaneConfig;
+
+/** Everything a data source delivers in one load */
+export interface LocationDataSet {
+  features: MapFeature[];
+  // Models and image planes for the 3D layer; left out when the source has none, so the defaults are used
+  sceneObjects?: SceneObjectConfig[];
+  // Items the source skipped or had to patch up while loading
+  issues?: DataIssue[];
+}
+
+/**
+ * A source of location data. `loadLocationData()` only talks to this interface,
+ * so the map can run from Webflow's DOM as well as from a JSON/GeoJSON endpoint.
+ */
+export interface LocationDataSource {
+  readonly name: string;
+  load(): Promise<LocationDataSet>;
+}
+
+// Fallback values used when a CMS field is empty
+export const LOCATION_DEFAULTS = {
+  name: 'Naamloos',
+  locationInfo: '<p>Geen informatie beschikbaar</p>',
+  color: '#A0A0A0',
+  category: 'Overig',
+  arDescription: 'Geen beschrijving.',
+  arInstruction: 'Geen instructie beschikbaar.',
+};
+
+// 3D objects shown when the data source doesn't define any
+export const DEFAULT_SCENE_OBJECTS: SceneObjectConfig[] = [
+  {
+    type: 'model',
+    id: 'schunck',
+    origin: [50.88778235149691, 5.979389928151281],
+    altitude: 0,
+    rotate: [Math.PI / 2, 0.45, 0],
+    url: 'https://cdn.jsdelivr.net/gh/Artwalters/3dmodels_heerlen@main/schunckv5.glb',
+    scale: 1.3,
+    locationId: 'glaspaleis-schunck',
+  },
+  {
+    type: 'model',
+    id: 'theater',
+    origin: [50.886541206107225, 5.972454838314243],
+    altitude: 0,
+    rotate: [Math.PI / 2, 2.05, 0],
+    url: 'https://cdn.jsdelivr.net/gh/Artwalters/3dmodels_heerlen@main/theaterheerlenv4.glb',
+    scale: 0.6,
+    locationId: 'theater-heerlen',
+  },
+  {
+    type: 'imagePlane',
+    id: 'image1',
+    origin: [50.88801513786042, 5.980644311376565],
+    altitude: 6.5,
+    rotate: [Math.PI / 2, 0.35, 0],
+    imageUrl:
+      'https://daks2k3a4ib2z.cloudfront.net/671769e099775386585f574d/67adf2bff5be8a200ec2fa55_osgameos_mural-p-130x130q80.png',
+    width: 13,
+    height: 13,
+  },
+];
+
+/**
+ * Stable key of a feature, used in links: the location ID, or the slug for AR items
+ * @return The key, or null when the feature has none
+ */
+export function getLocationKey(properties: GeoJSON.GeoJsonProperties): string | null {
+  if (!properties) return null;
+  const key = properties.type === 'ar' ? properties.slug : properties.id;
+  return key ? String(key) : null;
+}
+
+/**
+ * Build a location feature from a CMS record
+ * @param data - The location record
+ * @param arrayID - Index of the record, used to match the Webflow sidebar item
+ */
+export function createLocationFeature(data: LocationData, arrayID: number): LocationFeature {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [data.locationLong, data.locationLat],
+    },
+    properties: {
+      id: data.locationID,
+      description: data.locationInfo,
+      arrayID,
+      color: data.ondernemerkleur,
+      name: data.name,
+      icon: data.icon,
+      image: data.image,
+      images: data.images ?? [],
+      category: data.category,
+      telefoonummer: data.telefoonummer,
+      locatie: data.locatie,
+      maps: data.maps,
+      website: data.website,
+      descriptionv2: data.descriptionv2,
+      instagram: data.instagram,
+      facebook: data.facebook,
+      maandag: data.maandag,
+      dinsdag: data.dinsdag,
+      woensdag: data.woensdag,
+      donderdag: data.donderdag,
+      vrijdag: data.vrijdag,
+      zaterdag: data.zaterdag,
+      zondag: data.zondag,
+      proximityRadius: data.proximityRadius ?? null,
+    },
+  };
+}
+
+/**
+ * Build an AR feature from a CMS record
+ * @param data - The AR record
+ * @param arrayID - Unique index across regular and AR locations
+ */
+export function createARFeature(data: ARData, arrayID: number): ARFeature {
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [data.longitude_ar, data.latitude_ar],
+    },
+    properties: {
+      type: 'ar',
+      name: data.name_ar,
+      slug: data.slug_ar,
+      description: data.description_ar,
+      arrayID,
+      image: data.image_ar,
+      arkleur: data.arkleur,
+      icon: data.icon_ar,
+      instructie: data.instructie,
+      link_ar_mobile: data.link_ar_mobile,
+      link_ar_desktop: data.link_ar_desktop,
+      category: data.category,
+      proximityRadius: data.proximityRadius ?? null,
+    },
+  };
+}
+
+/**
+ * Read a proximity radius in meters from a CMS value
+ * @return The radius, or null when the value is empty or not a positive number
+ */
+export function parseProximityRadius(value: unknown): number | null {
+  const radius = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(radius) && radius > 0 ? radius : null;
+}
+
+/**
+ * Read a list of images: an array of URLs or `{ url, caption }` objects, the same as a JSON string
+ * (features queried from the map hold arrays as strings) or URLs separated by newlines or commas
+ */
+export function parseLocationImages(value: unknown): LocationImage[] {
+  let items: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      items = JSON.parse(value);
+    } catch {
+      // Not JSON, so a plain list of URLs
+      items = value.split(/[\n,]/);
+    }
+  }
+  if (!Array.isArray(items)) return [];
+
+  return items.flatMap((item): LocationImage[] => {
+    const record = isRecord(item) ? item : { url: item };
+    const url = pick(record, ['url', 'src', 'image']);
+    if (typeof url !== 'string' || !url.trim()) return [];
+
+    const caption = pick(record, ['caption', 'alt', 'title']);
+    return [
+      caption === undefined ? { url: url.trim() } : { url: url.trim(), caption: String(caption) },
+    ];
+  });
+}
+
+/**
+ * All photos of a location: the main image first, then the extra images without duplicates
+ */
+export function getLocationImages(properties: GeoJSON.GeoJsonProperties): LocationImage[] {
+  if (!properties) return [];
+
+  const images = parseLocationImages(properties.images);
+  const main = typeof properties.image === 'string' ? properties.image.trim() : '';
+  if (main && !images.some((image) => image.url === main)) {
+    images.unshift({ url: main });
+  }
+  return images;
+}
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Read the first non-empty field from a record, accepting several field names
+ */
+function pick(record: RawRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    const value = record[key];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function pickString(record: RawRecord, keys: string[], defaultValue: string): string;
+function pickString(record: RawRecord, keys: string[], defaultValue: null): string | null;
+function pickString(record: RawRecord, keys: string[], defaultValue: string | null): string | null {
+  const value = pick(record, keys);
+  return value === undefined ? defaultValue : String(value);
+}
+
+function pickNumber(record: RawRecord, keys: string[]): number {
+  const value = pick(record, keys);
+  return typeof value === 'number' ? value : parseFloat(String(value));
+}
+
+/**
+ * Normalize a regular location record. Accepts both the CMS field names
+ * (`locationID`, `ondernemerkleur`, ...) and the feature property names (`id`, `color`, ...).
+ * @return The record as LocationData, or null when the coordinates are invalid
+ */
+function toLocationData(
+  record: RawRecord,
+  index: number,
+  issues: DataIssue[],
+  coordinates?: number[]
+): LocationData | null {
+  const locationLong = coordinates ? coordinates[0] : pickNumber(record, ['locationLong', 'lng']);
+  const locationLat = coordinates ? coordinates[1] : pickNumber(record, ['locationLat', 'lat']);
+
+  if (isNaN(locationLat) || isNaN(locationLong)) {
+    issues.push(
+      createDataIssue('invalid-coordinates', {
+        itemType: 'location',
+        itemId: pickString(record, ['locationID', 'id'], `#${index}`),
+        name: pickString(record, ['name'], null) ?? undefined,
+        field: 'coordinates',
+        value: `${locationLat}, ${locationLong}`,
+        message: 'Ongeldige coördinaten, locatie overgeslagen',
+      })
+    );
+    return null;
+  }
+
+  return {
+    locationLat,
+    locationLong,
+    locationID: pickString(record, ['locationID', 'id'], ''),
+    name: pickString(record, ['name'], LOCATION_DEFAULTS.name),
+    locationInfo: pickString(
+      record,
+      ['locationInfo', 'description'],
+      LOCATION_DEFAULTS.locationInfo
+    ),
+    ondernemerkleur: pickString(record, ['ondernemerkleur', 'color'], LOCATION_DEFAULTS.color),
+    descriptionv2: pickString(record, ['descriptionv2'], ''),
+    icon: pickString(record, ['icon'], null),
+    image: pickString(record, ['image'], null),
+    images: parseLocationImages(pick(record, ['images', 'gallery'])),
+    category: pickString(record, ['category'], LOCATION_DEFAULTS.category),
+    telefoonummer: pickString(record, ['telefoonummer', 'telefoonnummer'], ''),
+    locatie: pickString(record, ['locatie'], ''),
+    maps: pickString(record, ['maps'], null),
+    website: pickString(record, ['website'], null),
+    instagram: pickString(record, ['instagram'], null),
+    facebook: pickString(record, ['facebook'], null),
+    maandag: pickString(record, ['maandag'], ''),
+    dinsdag: pickString(record, ['dinsdag'], ''),
+    woensdag: pickString(record, ['woensdag'], ''),
+    donderdag: pickString(record, ['donderdag'], ''),
+    vrijdag: pickString(record, ['vrijdag'], ''),
+    zaterdag: pickString(record, ['zaterdag'], ''),
+    zondag: pickString(record, ['zondag'], ''),
+    proximityRadius: parseProximityRadius(pick(record, ['proximityRadius'])),
+  };
+}
+
+/**
+ * Normalize an AR record, accepting CMS and feature property names
+ * @return The record as ARData, or null when coordinates or AR links are missing
+ */
+function toARData(
+  record: RawRecord,
+  index: number,
+  issues: DataIssue[],
+  coordinates?: number[]
+): ARData | null {
+  const longitude_ar = coordinates ? coordinates[0] : pickNumber(record, ['longitude_ar', 'lng']);
+  const latitude_ar = coordinates ? coordinates[1] : pickNumber(record, ['latitude_ar', 'lat']);
+
+  if (isNaN(latitude_ar) || isNaN(longitude_ar)) {
+    issues.push(
+      createDataIssue('invalid-coordinates', {
+        itemType: 'AR',
+        itemId: pickString(record, ['slug_ar', 'slug'], `#${index}`),
+        name: pickString(record, ['name_ar', 'name'], null) ?? undefined,
+        field: 'coordinates',
+        value: `${latitude_ar}, ${longitude_ar}`,
+        message: 'Ongeldige coördinaten, AR-item overgeslagen',
+      })
+    );
+    return null;
+  }
+
+  const arData: ARData = {
+    latitude_ar,
+    longitude_ar,
+    name_ar: pickString(record, ['name_ar', 'name'], `AR Item ${index}`),
+    slug_ar: pickString(record, ['slug_ar', 'slug'], ''),
+    image_ar: pickString(record, ['image_ar', 'image'], null),
+    description_ar: pickString(
+      record,
+      ['description_ar', 'description'],
+      LOCATION_DEFAULTS.arDescription
+    ),
+    arkleur: pickString(record, ['arkleur'], LOCATION_DEFAULTS.color),
+    icon_ar: pickString(record, ['icon_ar', 'icon'], null),
+    instructie: pickString(record, ['instructie'], LOCATION_DEFAULTS.arInstruction),
+    link_ar_mobile: pickString(record, ['link_ar_mobile'], null),
+    link_ar_desktop: pickString(record, ['link_ar_desktop'], null),
+    category: pickString(record, ['category'], null),
+    proximityRadius: parseProximityRadius(pick(record, ['proximityRadius'])),
+  };
+
+  // AR items without any link cannot be opened
+  if (!arData.link_ar_mobile && !arData.link_ar_desktop) {
+    issues.push(
+      createDataIssue('missing-ar-link', {
+        itemType: 'AR',
+        itemId: arData.slug_ar || `#${index}`,
+        name: arData.name_ar,
+        field: 'link_ar_mobile',
+        message: 'Geen AR-link (mobiel of desktop), AR-item overgeslagen',
+      })
+    );
+    return null;
+  }
+
+  return arData;
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a rotation as [x, y, z] radians from an array or a comma-separated string
+ */
+function toRotation(value: unknown): [number, number, number] {
+  const parts = Array.isArray(value) ? value : String(value ?? '').split(',');
+  const [x = 0, y = 0, z = 0] = parts.map((part) => parseFloat(String(part)) || 0);
+  return [x, y, z];
+}
+
+/**
+ * Normalize a model or image-plane record. The type comes from `type`, or from which URL field is set.
+ * @return The object, or null when the coordinates, URL or size are invalid
+ */
+function toSceneObject(
+  record: RawRecord,
+  index: number,
+  issues: DataIssue[],
+  coordinates?: number[]
+): SceneObjectConfig | null {
+  const id = pickString(record, ['id', 'slug'], `object-${index}`);
+  const lng = coordinates ? coordinates[0] : pickNumber(record, ['lng', 'longitude']);
+  const lat = coordinates ? coordinates[1] : pickNumber(record, ['lat', 'latitude']);
+  const base = { itemType: '3D', itemId: id } as const;
+
+  if (isNaN(lat) || isNaN(lng)) {
+    issues.push(
+      createDataIssue('invalid-coordinates', {
+        ...base,
+        field: 'coordinates',
+        value: `${lat}, ${lng}`,
+        message: 'Ongeldige coördinaten, 3D-object overgeslagen',
+      })
+    );
+    return null;
+  }
+
+  const imageUrl = pickString(record, ['imageUrl', 'image'], null);
+  const type = pick(record, ['type']) ?? (imageUrl ? 'imagePlane' : 'model');
+  const common = {
+    id,
+    origin: [lat, lng] as [number, number],
+    altitude: pickNumber(record, ['altitude']) || 0,
+    rotate: toRotation(pick(record, ['rotate', 'rotation'])),
+    locationId: pickString(record, ['locationId', 'locationID'], null) ?? undefined,
+  };
+
+  if (type === 'imagePlane') {
+    const width = pickNumber(record, ['width']);
+    const height = pickNumber(record, ['height']);
+    if (!imageUrl || !(width > 0) || !(height > 0)) {
+      issues.push(
+        createDataIssue('missing-field', {
+          ...base,
+          field: imageUrl ? 'width' : 'imageUrl',
+          message: 'Geen afbeelding of afmetingen, 3D-object overgeslagen',
+        })
+      );
+      return null;
+    }
+    return { type, ...common, imageUrl, width, height };
+  }
+
+  const url = pickString(record, ['url', 'modelUrl'], null);
+  if (!url) {
+    issues.push(
+      createDataIssue('missing-field', {
+        ...base,
+        field: 'url',
+        message: 'Geen model-URL, 3D-object overgeslagen',
+      })
+    );
+    return null;
+  }
+  return { type: 'model', ...common, url, scale: pickNumber(record, ['scale']) || 1 };
+}
+
+/**
+ * Convert flat model and image-plane records into scene objects, skipping invalid ones and duplicate IDs
+ */
+export function parseSceneObjects(
+  records: Array<{ record: RawRecord; coordinates?: number[] }>,
+  issues: DataIssue[]
+): SceneObjectConfig[] {
+  const objects: SceneObjectConfig[] = [];
+  const seenIDs = new Set<string>();
+
+  records.forEach(({ record, coordinates }, index) => {
+    const object = toSceneObject(record, index, issues, coordinates);
+    if (!object) return;
+
+    if (seenIDs.has(object.id)) {
+      issues.push(
+        createDataIssue('duplicate-id', {
+          itemType: '3D',
+          itemId: object.id,
+          field: 'id',
+          value: object.id,
+          message: 'Dubbele ID, 3D-object overgeslagen',
+        })
+      );
+      return;
+    }
+    seenIDs.add(object.id);
+    objects.push(object);
+  });
+
+  return objects;
+}
+
+/**
+ * Convert a JSON response into features. Supported shapes:
+ * - a GeoJSON FeatureCollection (AR features have `properties.type === 'ar'`,
+ *   3D objects `properties.type === 'model'` or `'imagePlane'`)
+ * - `{ locations: [...], ar: [...], models: [...], imagePlanes: [...] }` with flat CMS records
+ * - a plain array of flat location records
+ */
+export function parseLocationResponse(json: unknown): LocationDataSet {
+  const locationRecords: Array<{ record: RawRecord; coordinates?: number[] }> = [];
+  const arRecords: Array<{ record: RawRecord; coordinates?: number[] }> = [];
+  const sceneRecords: Array<{ record: RawRecord; coordinates?: number[] }> = [];
+  let hasSceneObjects = false;
+
+  if (isRecord(json) && json.type === 'FeatureCollection' && Array.isArray(json.features)) {
+    json.features.filter(isRecord).forEach((feature) => {
+      const properties = isRecord(feature.properties) ? feature.properties : {};
+      const geometry = isRecord(feature.geometry) ? feature.geometry : {};
+      const coordinates =
+        geometry.type === 'Point' && Array.isArray(geometry.coordinates)
+          ? geometry.coordinates.map(Number)
+          : [NaN, NaN];
+      if (properties.type === 'model' || properties.type === 'imagePlane') {
+        sceneRecords.push({ record: properties, coordinates });
+        hasSceneObjects = true;
+        return;
+      }
+      const target = properties.type === 'ar' ? arRecords : locationRecords;
+      target.push({ record: properties, coordinates });
+    });
+  } else if (isRecord(json)) {
+    const locations = Array.isArray(json.locations) ? json.locations : [];
+    const ar = Array.isArray(json.ar) ? json.ar : [];
+    locations.filter(isRecord).forEach((record) => locationRecords.push({ record }));
+    ar.filter(isRecord).forEach((record) => arRecords.push({ record }));
+
+    // An empty list is valid and means "no 3D objects"; a missing one keeps the defaults
+    hasSceneObjects = Array.isArray(json.models) || Array.isArray(json.imagePlanes);
+    (Array.isArray(json.models) ? json.models : []).filter(isRecord).forEach((record) => {
+      sceneRecords.push({ record: { ...record, type: 'model' } });
+    });
+    (Array.isArray(json.imagePlanes) ? json.imagePlanes : []).filter(isRecord).forEach((record) => {
+      sceneRecords.push({ record: { ...record, type: 'imagePlane' } });
+    });
+  } else if (Array.isArray(json)) {
+    json.filter(isRecord).forEach((record) => locationRecords.push({ record }));
+  } else {
+    throw new Error('Unsupported location data format');
+  }
+
+  const features: MapFeature[] = [];
+  const issues: DataIssue[] = [];
+  const seenIDs = new Set<string>();
+
+  locationRecords.forEach(({ record, coordinates }, index) => {
+    const data = toLocationData(record, index, issues, coordinates);
+    if (!data) return; // Invalid coordinates
+
+    if (!data.locationID) {
+      data.locationID = `missing-id-${index}`;
+      issues.push(
+        createDataIssue('missing-field', {
+          itemType: 'location',
+          itemId: data.locationID,
+          name: data.name,
+          field: 'locationID',
+          message: 'Geen locationID, tijdelijke ID gebruikt',
+        })
+      );
+    }
+    if (seenIDs.has(data.locationID)) {
+      issues.push(
+        createDataIssue('duplicate-id', {
+          itemType: 'location',
+          itemId: data.locationID,
+          name: data.name,
+          field: 'locationID',
+          value: data.locationID,
+          message: 'Dubbele locationID, locatie overgeslagen',
+        })
+      );
+      return;
+    }
+    seenIDs.add(data.locationID);
+
+    features.push(createLocationFeature(data, index));
+  });
+
+  const startIndex = features.length;
+  arRecords.forEach(({ record, coordinates }, index) => {
+    const data = toARData(record, index, issues, coordinates);
+    if (!data) return; // Invalid coordinates or missing AR links
+
+    features.push(createARFeature(data, startIndex + index));
+  });
+
+  const sceneObjects = hasSceneObjects ? parseSceneObjects(sceneRecords, issues) : undefined;
+
+  return { features, sceneObjects, issues };
+}
+
+/**
+ * Loads locations from a JSON API response or a GeoJSON file
+ */
+export class JSONDataSource implements LocationDataSource {
+  readonly name = 'json';
+  private url: string;
+  private init: RequestInit;
+
+  constructor(url: string, init: RequestInit = {}) {
+    this.url = url;
+    this.init = init;
+  }
+
+  async load(): Promise<LocationDataSet> {
+    const response = await fetch(this.url, {
+      headers: { Accept: 'application/geo+json, application/json' },
+      ...this.init,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load location data (${response.status}): ${this.url}`);
+    }
+
+    return parseLocationResponse(await response.json());
+  }
+}
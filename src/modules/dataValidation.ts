@@ -0,0 +1,257 @@
+// Data validation module - checks loaded locations and builds a data-quality report
+
+import { isInsideBoundary } from './boundaryUtils.js';
+import type { ARFeature, MapFeature } from './dataSources.js';
+
+export type DataIssueCode =
+  | 'invalid-coordinates'
+  | 'outside-boundary'
+  | 'invalid-color'
+  | 'invalid-url'
+  | 'duplicate-id'
+  | 'missing-field'
+  | 'missing-ar-link';
+
+export type DataIssueSeverity = 'error' | 'warning';
+
+export interface DataIssue {
+  code: DataIssueCode;
+  severity: DataIssueSeverity;
+  itemType: 'location' | 'AR' | '3D';
+  // Location ID or AR slug when known, otherwise the position in the CMS list
+  itemId: string;
+  name?: string;
+  field?: string;
+  value?: string;
+  message: string;
+}
+
+export interface DataQualityReport {
+  generatedAt: string;
+  source: string;
+  totalFeatures: number;
+  // Items that were dropped while loading (bad coordinates, duplicates, ...)
+  skippedItems: number;
+  // Features without any issue
+  validFeatures: number;
+  issues: DataIssue[];
+  issueCounts: Partial<Record<DataIssueCode, number>>;
+}
+
+// Fields that should contain a URL, with the protocols that are accepted
+const URL_FIELDS: Array<{ field: string; protocols: string[] }> = [
+  { field: 'website', protocols: ['http:', 'https:'] },
+  { field: 'instagram', protocols: ['http:', 'https:'] },
+  { field: 'facebook', protocols: ['http:', 'https:'] },
+  { field: 'maps', protocols: ['http:', 'https:'] },
+  { field: 'image', protocols: ['http:', 'https:'] },
+  { field: 'icon', protocols: ['http:', 'https:'] },
+  { field: 'link_ar_mobile', protocols: ['http:', 'https:', 'snapchat:'] },
+  { field: 'link_ar_desktop', protocols: ['http:', 'https:'] },
+];
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Issue codes that cause an item to be dropped or rendered incorrectly
+const ERROR_CODES = new Set<DataIssueCode>([
+  'invalid-coordinates',
+  'duplicate-id',
+  'missing-ar-link',
+  'invalid-color',
+]);
+
+// Issue codes that data sources report for items they did not load
+const SKIP_CODES = new Set<DataIssueCode>([
+  'invalid-coordinates',
+  'duplicate-id',
+  'missing-ar-link',
+]);
+
+/**
+ * Create an issue with the severity that belongs to its code
+ */
+export function createDataIssue(
+  code: DataIssueCode,
+  details: Omit<DataIssue, 'code' | 'severity'>
+): DataIssue {
+  return {
+    code,
+    severity: ERROR_CODES.has(code) ? 'error' : 'warning',
+    ...details,
+  };
+}
+
+/**
+ * Check if a value is a valid hex color (#RGB or #RRGGBB)
+ */
+export function isValidHexColor(value: unknown): boolean {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value.trim());
+}
+
+/**
+ * Check if a value is an absolute URL with one of the allowed protocols
+ */
+export function isValidUrl(value: unknown, protocols: string[] = ['http:', 'https:']): boolean {
+  if (typeof value !== 'string' || value.trim() === '') return false;
+
+  try {
+    const url = new URL(value.trim());
+    return protocols.includes(url.protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isARFeature(feature: MapFeature): feature is ARFeature {
+  return 'type' in feature.properties && feature.properties.type === 'ar';
+}
+
+/**
+ * ID used in the report: location ID, AR slug or the position in the list
+ */
+function getFeatureKey(feature: MapFeature): string {
+  return isARFeature(feature) ? feature.properties.slug : feature.properties.id;
+}
+
+/**
+ * Validate a single feature
+ */
+function validateFeature(feature: MapFeature): DataIssue[] {
+  const issues: DataIssue[] = [];
+  const { properties } = feature;
+  const isAR = isARFeature(feature);
+  const itemType = isAR ? 'AR' : 'location';
+  const itemId = getFeatureKey(feature) || `#${properties.arrayID}`;
+  const base = { itemType, itemId, name: properties.name } as const;
+  const record = properties as Record<string, unknown>;
+
+  // Coordinates
+  const [lng, lat] = feature.geometry.coordinates;
+  if (!Number.isFinite(lng) || !Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    issues.push(
+      createDataIssue('invalid-coordinates', {
+        ...base,
+        field: 'coordinates',
+        value: `${lat}, ${lng}`,
+        message: 'Coördinaten zijn ongeldig',
+      })
+    );
+  } else if (!isInsideBoundary([lng, lat])) {
+    issues.push(
+      createDataIssue('outside-boundary', {
+        ...base,
+        field: 'coordinates',
+        value: `${lat}, ${lng}`,
+        message: 'Locatie ligt buiten het kaartgebied',
+      })
+    );
+  }
+
+  // Marker color
+  const colorField = isAR ? 'arkleur' : 'color';
+  if (!isValidHexColor(record[colorField])) {
+    issues.push(
+      createDataIssue('invalid-color', {
+        ...base,
+        field: colorField,
+        value: String(record[colorField] ?? ''),
+        message: 'Kleur is geen geldige hex-code (#RRGGBB)',
+      })
+    );
+  }
+
+  // Icon is needed to render the marker
+  if (!record.icon) {
+    issues.push(
+      createDataIssue('missing-field', {
+        ...base,
+        field: 'icon',
+        message: 'Geen icoon ingesteld, marker is niet zichtbaar',
+      })
+    );
+  }
+
+  // URLs
+  URL_FIELDS.forEach(({ field, protocols }) => {
+    const value = record[field];
+    if (value === null || value === undefined || value === '') return;
+
+    if (!isValidUrl(value, protocols)) {
+      issues.push(
+        createDataIssue('invalid-url', {
+          ...base,
+          field,
+          value: String(value),
+          message: `Ongeldige URL in ${field}`,
+        })
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate all loaded features and combine the result with issues found while loading
+ * @param features - The loaded features
+ * @param loadIssues - Issues reported by the data source (skipped items, missing fields)
+ * @param source - Name of the data source, for the report
+ */
+export function validateLocationData(
+  features: MapFeature[],
+  loadIssues: DataIssue[] = [],
+  source: string = 'unknown'
+): DataQualityReport {
+  const issues: DataIssue[] = [...loadIssues];
+  const featuresWithIssues = new Set<MapFeature>();
+
+  // Duplicate IDs (regular locations use id, AR locations use slug)
+  const seenIDs = new Map<string, MapFeature>();
+  features.forEach((feature) => {
+    const key = getFeatureKey(feature);
+    if (!key) return;
+
+    if (seenIDs.has(key)) {
+      const isAR = isARFeature(feature);
+      issues.push(
+        createDataIssue('duplicate-id', {
+          itemType: isAR ? 'AR' : 'location',
+          itemId: key,
+          name: feature.properties.name,
+          field: isAR ? 'slug' : 'id',
+          value: key,
+          message: `ID wordt ook gebruikt door "${seenIDs.get(key)!.properties.name}"`,
+        })
+      );
+      featuresWithIssues.add(feature);
+    } else {
+      seenIDs.set(key, feature);
+    }
+  });
+
+  features.forEach((feature) => {
+    const featureIssues = validateFeature(feature);
+    if (featureIssues.length > 0) {
+      featuresWithIssues.add(feature);
+      issues.push(...featureIssues);
+    }
+  });
+
+  const issueCounts: DataQualityReport['issueCounts'] = {};
+  issues.forEach((issue) => {
+    issueCounts[issue.code] = (issueCounts[issue.code] || 0) + 1;
+  });
+
+  // Load issues for items that never became a feature
+  const skippedItems = loadIssues.filter((issue) => SKIP_CODES.has(issue.code)).length;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    source,
+    totalFeatures: features.length,
+    skippedItems,
+    validFeatures: features.length - featuresWithIssues.size,
+    issues,
+    issueCounts,
+  };
+}
@@ -1,13 +1,113 @@
 // Event bus for decoupled communication between modules
 
-type EventHandler = (data?: any) => void;
+import type { Map as MapboxMap, Popup } from 'mapbox-gl';
+
+import type { SceneObjectConfig } from './dataSources.js';
+import type { DataQualityReport } from './dataValidation.js';
+import type { Language } from './i18n.js';
+import type { TimeFilter } from './stateManager.js';
+
+/** User position as reported by the geolocate control */
+export interface UserLocation {
+  coordinates: [number, number];
+  heading?: number | null;
+}
+
+/** Location the user walked into or out of the trigger radius of */
+export interface ProximityEvent {
+  // Location ID or AR slug
+  locationId: string;
+  feature: GeoJSON.Feature<GeoJSON.Point>;
+  // Distance to the user in meters
+  distance: number;
+}
+
+/** Cluster that only splits at the last zoom levels, with the locations in it */
+export interface ClusterListEvent {
+  coordinates: [number, number];
+  locations: GeoJSON.Feature<GeoJSON.Point>[];
+}
+
+/**
+ * Payload type of every event. Modules that add their own events register them
+ * through declaration merging:
+ *
+ *   declare module './eventBus.js' {
+ *     interface EventMap { 'myModule:changed': MyPayload }
+ *   }
+ */
+export interface EventMap {
+  // Map events
+  'map:loaded': MapboxMap;
+  'map:styleChanged': MapboxMap;
+
+  // Data events
+  'data:loaded': GeoJSON.FeatureCollection;
+  'data:error': unknown;
+  'data:validated': DataQualityReport;
+  'data:sceneObjectsChanged': SceneObjectConfig[];
+
+  // Popup events
+  'popup:opened': Popup;
+  'popup:closed': Popup;
+  'popup:flipped': Popup;
+
+  // Selection events (location ID or AR slug, null when nothing is selected)
+  'selection:changed': string | null;
+
+  // Filter events
+  'filter:changed': string[];
+  'filter:cleared': void;
+  'filter:timeChanged': TimeFilter;
+
+  // Marker events
+  'marker:clicked': GeoJSON.Feature;
+  'marker:hovered': GeoJSON.Feature | null;
+  'marker:clusterListed': ClusterListEvent;
+
+  // Favourite events (location IDs or AR slugs, in the order they were saved)
+  'favorites:changed': string[];
+
+  // Tour events
+  'tour:started': void;
+  'tour:ended': void;
+  'tour:stepChanged': string;
+
+  // Geolocation events
+  'location:found': UserLocation;
+  'location:error': { code: number; message: string };
+  'location:boundaryEntered': [number, number];
+  'location:boundaryExited': [number, number];
+
+  // Proximity events (user walks into or out of a location's trigger radius)
+  'proximity:enter': ProximityEvent;
+  'proximity:exit': ProximityEvent;
+
+  // Performance events
+  'performance:warning': string;
+  'resource:loaded': string;
+  'resource:error': { url: string; error: unknown };
+
+  // Language events
+  'i18n:languageChanged': Language;
+
+  // Application events
+  'app:error': unknown;
+}
+
+export type EventName = keyof EventMap;
+
+type EventHandler<K extends EventName> = (data: EventMap[K]) => void;
+
+// Events without payload are emitted without a data argument
+type EventArgs<K extends EventName> = [EventMap[K]] extends [void] ? [] : [data: EventMap[K]];
 
 /**
  * Simple event bus for decoupled module communication
  */
 class EventBus {
   private static instance: EventBus;
-  private listeners = new Map<string, Set<EventHandler>>();
+  private listeners = new Map<string, Set<(data: unknown) => void>>();
 
   private constructor() {}
 
@@ -21,24 +121,24 @@ class EventBus {
   /**
    * Subscribe to an event
    */
-  on(event: string, handler: EventHandler): () => void {
+  on<K extends EventName>(event: K, handler: EventHandler<K>): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
     
-    this.listeners.get(event)!.add(handler);
+    this.listeners.get(event)!.add(handler as (data: unknown) => void);
     
     // Return unsubscribe function
     return () => {
-      this.listeners.get(event)?.delete(handler);
+      this.off(event, handler);
     };
   }
 
   /**
    * Subscribe to an event that will only fire once
    */
-  once(event: string, handler: EventHandler): () => void {
-    const wrappedHandler = (data?: any) => {
+  once<K extends EventName>(event: K, handler: EventHandler<K>): () => void {
+    const wrappedHandler: EventHandler<K> = (data) => {
       handler(data);
       this.off(event, wrappedHandler);
     };
@@ -49,19 +149,19 @@ class EventBus {
   /**
    * Unsubscribe from an event
    */
-  off(event: string, handler: EventHandler): void {
-    this.listeners.get(event)?.delete(handler);
+  off<K extends EventName>(event: K, handler: EventHandler<K>): void {
+    this.listeners.get(event)?.delete(handler as (data: unknown) => void);
   }
 
   /**
    * Emit an event to all subscribers
    */
-  emit(event: string, data?: any): void {
+  emit<K extends EventName>(event: K, ...args: EventArgs<K>): void {
     const handlers = this.listeners.get(event);
     if (handlers) {
       handlers.forEach(handler => {
         try {
-          handler(data);
+          handler(args[0]);
         } catch (error) {
           // Continue with other handlers even if one fails
         }
@@ -72,14 +172,14 @@ class EventBus {
   /**
    * Get the number of listeners for an event
    */
-  listenerCount(event: string): number {
+  listenerCount(event: EventName): number {
     return this.listeners.get(event)?.size || 0;
   }
 
   /**
    * Remove all listeners for a specific event
    */
-  removeAllListeners(event?: string): void {
+  removeAllListeners(event?: EventName): void {
     if (event) {
       this.listeners.delete(event);
     } else {
@@ -90,8 +190,8 @@ class EventBus {
   /**
    * Get all event names that have listeners
    */
-  eventNames(): string[] {
-    return Array.from(this.listeners.keys());
+  eventNames(): EventName[] {
+    return Array.from(this.listeners.keys()) as EventName[];
   }
 
   /**
@@ -110,19 +210,33 @@ export const Events = {
   // Map events
   MAP_LOADED: 'map:loaded',
   MAP_STYLE_CHANGED: 'map:styleChanged',
+
+  // Data events
+  DATA_LOADED: 'data:loaded',
+  DATA_ERROR: 'data:error',
+  DATA_VALIDATED: 'data:validated',
+  SCENE_OBJECTS_CHANGED: 'data:sceneObjectsChanged',
   
   // Popup events
   POPUP_OPENED: 'popup:opened',
   POPUP_CLOSED: 'popup:closed',
   POPUP_FLIPPED: 'popup:flipped',
+
+  // Selection events
+  SELECTION_CHANGED: 'selection:changed',
   
   // Filter events
   FILTER_CHANGED: 'filter:changed',
   FILTER_CLEARED: 'filter:cleared',
+  TIME_FILTER_CHANGED: 'filter:timeChanged',
   
   // Marker events
   MARKER_CLICKED: 'marker:clicked',
   MARKER_HOVERED: 'marker:hovered',
+  MARKER_CLUSTER_LISTED: 'marker:clusterListed',
+
+  // Favourite events
+  FAVORITES_CHANGED: 'favorites:changed',
   
   // Tour events
   TOUR_STARTED: 'tour:started',
@@ -134,9 +248,19 @@ export const Events = {
   LOCATION_ERROR: 'location:error',
   BOUNDARY_ENTERED: 'location:boundaryEntered',
   BOUNDARY_EXITED: 'location:boundaryExited',
+
+  // Proximity events
+  PROXIMITY_ENTER: 'proximity:enter',
+  PROXIMITY_EXIT: 'proximity:exit',
   
   // Performance events
   PERFORMANCE_WARNING: 'performance:warning',
   RESOURCE_LOADED: 'resource:loaded',
   RESOURCE_ERROR: 'resource:error',
-} as const;
\ No newline at end of file
+
+  // Language events
+  LANGUAGE_CHANGED: 'i18n:languageChanged',
+
+  // Application events
+  APP_ERROR: 'app:error',
+} as const satisfies Record<string, EventName>;
\ No newline at end of file
@@ -0,0 +1,205 @@
+// Favourites module - locations the visitor saved, with export to GPX, KML and GeoJSON and a share link
+// Share link format: ?favs=<id>,<id>
+
+import { getLocationKey } from './dataSources.js';
+import { eventBus, Events } from './eventBus.js';
+import { t } from './i18n.js';
+import { loadFavoritesFromLocalStorage, saveFavoritesToLocalStorage } from './localStorage.js';
+import { escapeHTML } from './sanitize.js';
+import { state } from './state.js';
+
+export type FavoritesExportFormat = 'gpx' | 'kml' | 'geojson';
+
+interface ExportFormat {
+  extension: string;
+  mimeType: string;
+  serialize: (features: GeoJSON.Feature<GeoJSON.Point>[], title: string) => string;
+}
+
+export const PARAM_FAVORITES = 'favs';
+
+// Location keys in the order they were saved; read from storage on first use
+let favorites: string[] | null = null;
+
+function getKeys(): string[] {
+  favorites ??= loadFavoritesFromLocalStorage();
+  return favorites;
+}
+
+/**
+ * Location keys of the favourites, in the order they were saved
+ */
+export function getFavorites(): string[] {
+  return [...getKeys()];
+}
+
+export function isFavorite(key: string | null): boolean {
+  return key !== null && getKeys().includes(key);
+}
+
+/**
+ * Replace the favourites, store them and let the other modules know
+ */
+export function setFavorites(keys: string[]): void {
+  favorites = Array.from(new Set(keys.filter((key) => key !== '')));
+  saveFavoritesToLocalStorage(favorites);
+  eventBus.emit(Events.FAVORITES_CHANGED, getFavorites());
+}
+
+/**
+ * Add or remove a favourite
+ * @return Whether the location is a favourite now
+ */
+export function toggleFavorite(key: string): boolean {
+  const keys = getKeys();
+  const added = !keys.includes(key);
+  setFavorites(added ? [...keys, key] : keys.filter((item) => item !== key));
+  return added;
+}
+
+/**
+ * Add locations to the favourites, keeping the ones already saved
+ * @return The number of locations that were new
+ */
+export function addFavorites(keys: string[]): number {
+  const current = getKeys();
+  const added = keys.filter((key, index) => !current.includes(key) && keys.indexOf(key) === index);
+  if (added.length > 0) {
+    setFavorites([...current, ...added]);
+  }
+  return added.length;
+}
+
+/**
+ * Loaded features of the favourites, in saved order. Favourites that are not in the data
+ * (removed from the CMS, or not loaded yet) are left out but stay saved.
+ */
+export function getFavoriteFeatures(): GeoJSON.Feature<GeoJSON.Point>[] {
+  const byKey = new Map<string, GeoJSON.Feature<GeoJSON.Point>>();
+  state.mapLocations.features.forEach((feature: GeoJSON.Feature) => {
+    const key = getLocationKey(feature.properties);
+    if (key && feature.geometry?.type === 'Point' && !byKey.has(key)) {
+      byKey.set(key, feature as GeoJSON.Feature<GeoJSON.Point>);
+    }
+  });
+
+  return getKeys()
+    .map((key) => byKey.get(key))
+    .filter((feature): feature is GeoJSON.Feature<GeoJSON.Point> => feature !== undefined);
+}
+
+/**
+ * Read the favourites from a share link
+ * @return The location keys, or null when the link has none
+ */
+export function parseFavoritesParam(search: string = window.location.search): string[] | null {
+  const param = new URLSearchParams(search).get(PARAM_FAVORITES);
+  if (param === null) return null;
+  return param.split(',').filter((key) => key !== '');
+}
+
+/**
+ * Link to the map that adds the current favourites for whoever opens it
+ */
+export function getFavoritesShareUrl(): string {
+  const params = new URLSearchParams({ [PARAM_FAVORITES]: getKeys().join(',') });
+  const query = params.toString().replace(/%2C/g, ',');
+  return `${window.location.origin}${window.location.pathname}?${query}`;
+}
+
+function getCoordinates(feature: GeoJSON.Feature<GeoJSON.Point>): [number, number] {
+  const [lng, lat] = feature.geometry.coordinates;
+  return [lng, lat];
+}
+
+function toGeoJSON(features: GeoJSON.Feature<GeoJSON.Point>[]): string {
+  const collection: GeoJSON.FeatureCollection<GeoJSON.Point> = {
+    type: 'FeatureCollection',
+    features: features.map((feature) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: getCoordinates(feature) },
+      properties: {
+        id: getLocationKey(feature.properties),
+        name: feature.properties?.name ?? '',
+        category: feature.properties?.category ?? '',
+      },
+    })),
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+function toGPX(features: GeoJSON.Feature<GeoJSON.Point>[], title: string): string {
+  const waypoints = features.map((feature) => {
+    const [lng, lat] = getCoordinates(feature);
+    const category = feature.properties?.category;
+    return [
+      `  <wpt lat="${lat}" lon="${lng}">`,
+      `    <name>${escapeHTML(feature.properties?.name)}</name>`,
+      ...(category ? [`    <type>${escapeHTML(category)}</type>`] : []),
+      '  </wpt>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Heerlen Interactive Map" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeHTML(title)}</name></metadata>`,
+    ...waypoints,
+    '</gpx>',
+  ].join('\n');
+}
+
+function toKML(features: GeoJSON.Feature<GeoJSON.Point>[], title: string): string {
+  const placemarks = features.map((feature) => {
+    const [lng, lat] = getCoordinates(feature);
+    const category = feature.properties?.category;
+    return [
+      '    <Placemark>',
+      `      <name>${escapeHTML(feature.properties?.name)}</name>`,
+      ...(category ? [`      <description>${escapeHTML(category)}</description>`] : []),
+      `      <Point><coordinates>${lng},${lat}</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeHTML(title)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+const EXPORT_FORMATS: Record<FavoritesExportFormat, ExportFormat> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', serialize: toGPX },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', serialize: toKML },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', serialize: toGeoJSON },
+};
+
+/**
+ * Serialize the loaded favourites, for navigation and map apps
+ */
+export function exportFavorites(format: FavoritesExportFormat): string {
+  return EXPORT_FORMATS[format].serialize(getFavoriteFeatures(), t('favorites.shareTitle'));
+}
+
+/**
+ * Save the favourites as a file
+ */
+export function downloadFavorites(format: FavoritesExportFormat): void {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const url = URL.createObjectURL(new Blob([exportFavorites(format)], { type: mimeType }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `heerlen-favorieten.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoking right away can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
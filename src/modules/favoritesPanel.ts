@@ -0,0 +1,354 @@
+// Favourites panel module - heart button in the popup, favourites panel and map highlight
+
+import type { GeoJSONSource, Map } from 'mapbox-gl';
+
+import { CONFIG } from './config.js';
+import { getLocationKey } from './dataSources.js';
+import { eventBus, Events } from './eventBus.js';
+import {
+  addFavorites,
+  downloadFavorites,
+  type FavoritesExportFormat,
+  getFavoriteFeatures,
+  getFavoritesShareUrl,
+  isFavorite,
+  PARAM_FAVORITES,
+  parseFavoritesParam,
+  toggleFavorite,
+} from './favorites.js';
+import { getFilteredLocations } from './filters.js';
+import { t } from './i18n.js';
+import { isClusteringEnabled } from './markerClusters.js';
+import { createPopup } from './popups.js';
+import { escapeHTML, sanitizeColor } from './sanitize.js';
+
+const FAVORITES_SOURCE_ID = 'favorite-locations';
+const FAVORITES_LAYER_ID = 'favorite-markers';
+
+let panelElement: HTMLElement | null = null;
+let toggleButton: HTMLButtonElement | null = null;
+let panelFeatures: GeoJSON.Feature<GeoJSON.Point>[] = [];
+
+/**
+ * Ring around the favourites that pass the filters, drawn below the markers
+ */
+function updateFavoritesLayer(map: Map): void {
+  if (!map.isStyleLoaded()) return;
+
+  const data: GeoJSON.FeatureCollection = {
+    type: 'FeatureCollection',
+    features: getFilteredLocations().features.filter((feature) =>
+      isFavorite(getLocationKey(feature.properties))
+    ),
+  };
+
+  const source = map.getSource(FAVORITES_SOURCE_ID) as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+
+  map.addSource(FAVORITES_SOURCE_ID, { type: 'geojson', data });
+  map.addLayer(
+    {
+      id: FAVORITES_LAYER_ID,
+      type: 'circle',
+      source: FAVORITES_SOURCE_ID,
+      // Clustered favourites have no marker to ring; above the cluster max zoom every location is separate
+      minzoom: isClusteringEnabled() ? CONFIG.CLUSTER.maxZoom + 1 : 0,
+      paint: {
+        'circle-color': 'transparent',
+        'circle-radius': [
+          'interpolate',
+          ['linear'],
+          ['zoom'],
+          CONFIG.MARKER_ZOOM.min,
+          5,
+          CONFIG.MARKER_ZOOM.small,
+          9,
+          CONFIG.MARKER_ZOOM.medium,
+          12,
+          CONFIG.MARKER_ZOOM.large,
+          15,
+        ],
+        'circle-stroke-width': 3,
+        'circle-stroke-color': '#e63950',
+      },
+    },
+    map.getLayer('location-markers') ? 'location-markers' : undefined
+  );
+}
+
+/**
+ * Show the favourite state on the heart buttons of open popups
+ */
+function updateFavoriteButtons(): void {
+  document.querySelectorAll<HTMLElement>('.favorite-button').forEach((button) => {
+    button.setAttribute('aria-pressed', String(isFavorite(button.dataset.locationKey ?? null)));
+  });
+}
+
+function setStatus(message: string): void {
+  const status = panelElement?.querySelector('.favorites-status');
+  if (status) status.textContent = message;
+}
+
+/**
+ * Render the saved locations that are loaded
+ */
+function renderPanel(): void {
+  if (!panelElement) return;
+
+  panelFeatures = getFavoriteFeatures();
+  const list = panelElement.querySelector('.favorites-items') as HTMLElement;
+  const count = panelElement.querySelector('.favorites-count') as HTMLElement;
+
+  count.textContent = t('favorites.count', { count: panelFeatures.length });
+  panelElement
+    .querySelectorAll<HTMLButtonElement>('.favorites-actions button')
+    .forEach((button) => {
+      button.disabled = panelFeatures.length === 0;
+    });
+
+  list.innerHTML =
+    panelFeatures.length === 0
+      ? `<li class="favorites-empty">${t('favorites.empty')}</li>`
+      : panelFeatures
+          .map((feature, index) => {
+            const properties = feature.properties || {};
+            const color = properties.type === 'ar' ? properties.arkleur : properties.color;
+            const name = escapeHTML(properties.name);
+            return `
+            <li class="favorites-row">
+              <button type="button" class="location-list-item favorites-item" data-index="${index}">
+                <span class="location-list-dot" style="background-color: ${sanitizeColor(color, '')}" aria-hidden="true"></span>
+                <span class="location-list-name">${name}</span>
+                ${properties.category ? `<span class="location-list-category">${escapeHTML(properties.category)}</span>` : ''}
+              </button>
+              <button type="button" class="favorites-remove" data-index="${index}" aria-label="${escapeHTML(t('favorites.remove', { name: properties.name }))}">×</button>
+            </li>`;
+          })
+          .join('');
+}
+
+/**
+ * Open or close the favourites panel
+ */
+export function toggleFavoritesPanel(open?: boolean): void {
+  if (!panelElement || !toggleButton) return;
+
+  const shouldOpen = open ?? panelElement.hidden;
+  panelElement.hidden = !shouldOpen;
+  toggleButton.setAttribute('aria-expanded', String(shouldOpen));
+  toggleButton.classList.toggle('is-active', shouldOpen);
+
+  if (shouldOpen) {
+    setStatus('');
+    renderPanel();
+    panelElement.querySelector<HTMLElement>('.favorites-title')?.focus();
+  } else {
+    toggleButton.focus();
+  }
+}
+
+/**
+ * Share the link through the share sheet of the device, or copy it
+ */
+async function shareFavorites(): Promise<void> {
+  const url = getFavoritesShareUrl();
+
+  if (navigator.share) {
+    try {
+      await navigator.share({ title: t('favorites.shareTitle'), url });
+      return;
+    } catch (e) {
+      if ((e as DOMException).name === 'AbortError') return;
+      // Sharing is not allowed here; fall back to copying
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(url);
+    setStatus(t('favorites.copied'));
+  } catch {
+    setStatus(t('favorites.copyFailed', { url }));
+  }
+}
+
+/**
+ * Create the panel markup
+ */
+function createPanel(): HTMLElement {
+  const panel = document.createElement('section');
+  panel.id = 'favorites-panel';
+  panel.className = 'location-list-panel favorites-panel';
+  panel.setAttribute('aria-labelledby', 'favorites-title');
+  panel.hidden = true;
+  panel.innerHTML = `
+    <div class="location-list-header">
+      <h2 id="favorites-title" class="location-list-title favorites-title" tabindex="-1"></h2>
+      <button type="button" class="location-list-close favorites-close">×</button>
+    </div>
+    <p class="location-list-count favorites-count"></p>
+    <ul class="location-list-items favorites-items"></ul>
+    <div class="favorites-actions">
+      <span class="favorites-export-label"></span>
+      <button type="button" class="button-base" data-format="gpx">GPX</button>
+      <button type="button" class="button-base" data-format="kml">KML</button>
+      <button type="button" class="button-base" data-format="geojson">GeoJSON</button>
+      <button type="button" class="favorites-share button-base"></button>
+    </div>
+    <p class="favorites-status" role="status" aria-live="polite"></p>
+  `;
+
+  document.body.appendChild(panel);
+  return panel;
+}
+
+/**
+ * Set the panel and toggle texts in the active language
+ */
+function applyTexts(): void {
+  if (!panelElement || !toggleButton) return;
+
+  const setText = (selector: string, text: string) => {
+    const element = panelElement?.querySelector(selector);
+    if (element) element.textContent = text;
+  };
+
+  setText('.favorites-title', t('favorites.title'));
+  setText('.favorites-export-label', t('favorites.export'));
+  setText('.favorites-share', t('favorites.share'));
+  panelElement.querySelector('.favorites-close')?.setAttribute('aria-label', t('favorites.close'));
+
+  // Keep the text of a toggle button that comes from the page
+  if (toggleButton.dataset.generated) {
+    toggleButton.textContent = t('favorites.toggle');
+  }
+  toggleButton.setAttribute('aria-label', t('favorites.toggleLabel'));
+}
+
+/**
+ * Create the toggle button as a map control, unless the page provides `.favorites-toggle`
+ */
+function createToggleButton(): HTMLButtonElement | null {
+  const existing = document.querySelector<HTMLButtonElement>('.favorites-toggle');
+  if (existing) return existing;
+
+  const controlContainer = document.querySelector('.mapboxgl-ctrl-top-left');
+  if (!controlContainer) return null;
+
+  const container = document.createElement('div');
+  container.className = 'mapboxgl-ctrl mapboxgl-ctrl-group';
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'location-list-toggle favorites-toggle';
+  button.dataset.generated = 'true';
+  container.appendChild(button);
+
+  controlContainer.appendChild(container);
+  return button;
+}
+
+/**
+ * Remove the share parameter, so reloading or sharing the page doesn't add the list again
+ */
+function removeFavoritesParam(): void {
+  const params = new URLSearchParams(window.location.search);
+  params.delete(PARAM_FAVORITES);
+  const query = params.toString().replace(/%2C/g, ',');
+  window.history.replaceState(
+    window.history.state,
+    '',
+    `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+  );
+}
+
+/**
+ * Setup the favourites: heart buttons in popups, the panel, the map highlight and share links
+ */
+export function setupFavorites(map: Map): void {
+  // A shared list is added to the own favourites
+  const shared = parseFavoritesParam();
+  const restored = shared ? addFavorites(shared) : 0;
+  if (shared) removeFavoritesParam();
+
+  map.once('load', () => {
+    updateFavoritesLayer(map);
+
+    toggleButton = createToggleButton();
+    if (!toggleButton) return;
+
+    panelElement = createPanel();
+    applyTexts();
+
+    toggleButton.setAttribute('aria-controls', panelElement.id);
+    toggleButton.setAttribute('aria-expanded', 'false');
+    toggleButton.addEventListener('click', () => toggleFavoritesPanel());
+
+    panelElement
+      .querySelector('.favorites-close')
+      ?.addEventListener('click', () => toggleFavoritesPanel(false));
+
+    panelElement.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') toggleFavoritesPanel(false);
+    });
+
+    panelElement.querySelector('.favorites-items')?.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const button = target.closest<HTMLElement>('.favorites-item, .favorites-remove');
+      const feature = button ? panelFeatures[Number(button.dataset.index)] : undefined;
+      if (!button || !feature) return;
+
+      if (button.classList.contains('favorites-remove')) {
+        const key = getLocationKey(feature.properties);
+        if (key) toggleFavorite(key);
+        panelElement?.querySelector<HTMLElement>('.favorites-title')?.focus();
+      } else {
+        createPopup(feature, map);
+      }
+    });
+
+    panelElement.querySelector('.favorites-actions')?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button');
+      if (!button) return;
+
+      if (button.dataset.format) {
+        downloadFavorites(button.dataset.format as FavoritesExportFormat);
+      } else if (button.classList.contains('favorites-share')) {
+        shareFavorites();
+      }
+    });
+
+    if (restored > 0) {
+      toggleFavoritesPanel(true);
+      setStatus(t('favorites.restored', { count: restored }));
+    }
+  });
+
+  // Popups are rendered as HTML, so listen on the map container for their heart buttons
+  map.getContainer().addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('.favorite-button');
+    const key = button?.dataset.locationKey;
+    if (key) toggleFavorite(key);
+  });
+
+  const refresh = () => {
+    updateFavoritesLayer(map);
+    if (panelElement && !panelElement.hidden) renderPanel();
+  };
+
+  eventBus.on(Events.FAVORITES_CHANGED, () => {
+    updateFavoriteButtons();
+    refresh();
+  });
+  eventBus.on(Events.DATA_LOADED, refresh);
+  eventBus.on(Events.FILTER_CHANGED, refresh);
+  eventBus.on(Events.TIME_FILTER_CHANGED, refresh);
+
+  eventBus.on(Events.LANGUAGE_CHANGED, () => {
+    applyTexts();
+    refresh();
+  });
+}
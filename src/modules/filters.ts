@@ -1,14 +1,107 @@
 // Filter management module
 
-import type { Map } from 'mapbox-gl';
+import type { GeoJSONSource, Map } from 'mapbox-gl';
+import { eventBus, Events } from './eventBus.js';
 import { saveMapFiltersToLocalStorage } from './localStorage.js';
-import { state, stateManager } from './state.js';
+import { isClusteringEnabled, UNCLUSTERED_FILTER } from './markerClusters.js';
+import {
+  getOpeningStatus,
+  parseOpeningHours,
+  WEEKDAY_KEYS,
+  type WeekdayKey,
+} from './openingHours.js';
+import { state, stateManager, type TimeFilter } from './state.js';
 
 // Performance optimization caches
 const buttonCache = new Map<string, HTMLElement>();
 const layerCache = new Map<string, boolean>();
 let buttonElements: HTMLElement[] = [];
 
+// "Open now" is re-evaluated every minute so venues drop off when they close
+const OPEN_NOW_REFRESH_INTERVAL = 60 * 1000;
+let openNowTimer: number | null = null;
+let timeFilterInitialized = false;
+
+/**
+ * Get the moment the time filter checks against, or null when it is off
+ */
+export function getTimeFilterDate(filter: TimeFilter = state.timeFilter): Date | null {
+  if (filter.mode === 'now') {
+    return new Date();
+  }
+
+  if (filter.mode === 'at' && filter.day && filter.time !== undefined) {
+    // Next occurrence of the chosen weekday (today counts)
+    const date = new Date();
+    const todayIndex = (date.getDay() + 6) % 7;
+    const dayOffset = (WEEKDAY_KEYS.indexOf(filter.day) - todayIndex + 7) % 7;
+    date.setDate(date.getDate() + dayOffset);
+    date.setHours(Math.floor(filter.time / 60), filter.time % 60, 0, 0);
+    return date;
+  }
+
+  return null;
+}
+
+/**
+ * Get the IDs of locations that pass the time filter, or null when it is off.
+ * AR items and locations without any opening hours are not filtered on time.
+ */
+function getTimeFilterVisibleIDs(): Set<string> | null {
+  const date = getTimeFilterDate();
+  if (!date) {
+    return null;
+  }
+
+  const visibleIDs = new Set<string>();
+  state.mapLocations.features.forEach(({ properties }: GeoJSON.Feature) => {
+    if (!properties || properties.type === 'ar') return;
+
+    const hours = parseOpeningHours(properties);
+    if (!hours.hasData || getOpeningStatus(hours, date).state === 'open') {
+      visibleIDs.add(properties.id);
+    }
+  });
+
+  return visibleIDs;
+}
+
+/**
+ * Check if a feature passes the active category and time filters.
+ * Same rules as the layer filter expression, for code that filters the data itself.
+ */
+function matchesActiveFilters(
+  feature: GeoJSON.Feature,
+  timeVisibleIDs: Set<string> | null
+): boolean {
+  const properties = feature.properties || {};
+  const currentFilters = state.activeFilters;
+
+  if (currentFilters.size > 0 && properties.category && !currentFilters.has(properties.category)) {
+    return false;
+  }
+
+  if (timeVisibleIDs && properties.type !== 'ar' && !timeVisibleIDs.has(properties.id)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the loaded locations that pass the active filters
+ */
+export function getFilteredLocations(): GeoJSON.FeatureCollection {
+  const timeVisibleIDs = getTimeFilterVisibleIDs();
+
+  return {
+    type: 'FeatureCollection',
+    features: state.mapLocations.features.filter((feature: GeoJSON.Feature) =>
+      matchesActiveFilters(feature, timeVisibleIDs)
+    ),
+  };
+}
+
 /**
  * Apply active filters to map markers
  */
@@ -37,6 +130,29 @@ export function applyMapFilters(): void {
     ];
   }
 
+  // Combine with the opening hours criterion
+  const timeVisibleIDs = getTimeFilterVisibleIDs();
+  if (timeVisibleIDs) {
+    const timeExpression = [
+      'any',
+      ['==', ['get', 'type'], 'ar'],
+      ['in', ['get', 'id'], ['literal', Array.from(timeVisibleIDs)]],
+    ];
+    filterExpression = filterExpression
+      ? ['all', filterExpression, timeExpression]
+      : timeExpression;
+  }
+
+  // Clusters are built from the source data, so filter the data itself
+  // to keep the cluster counts in line with the active filters
+  if (isClusteringEnabled()) {
+    const source = map.getSource('locations');
+    if (source && 'setData' in source) {
+      (source as GeoJSONSource).setData(getFilteredLocations());
+    }
+    filterExpression = UNCLUSTERED_FILTER;
+  }
+
   // Apply filter to all marker-related layers (if loaded)
   const layersToFilter = ['location-markers', 'location-icons', 'location-labels'];
   layersToFilter.forEach((layerId) => {
@@ -88,6 +204,8 @@ export function setupLocationFilters(): void {
   // Cache button elements and add event listeners
   buttonElements = Array.from(document.querySelectorAll('.filter-btn')) as HTMLElement[];
   
+  setupTimeFilterControls();
+
   buttonElements.forEach((buttonElement) => {
     const category = (buttonElement.dataset as any).category as string;
     if (category) {
@@ -163,5 +281,98 @@ export function setFilters(categories: string[]): void {
   applyMapFilters();
 }
 
+/**
+ * Set the time filter and apply it to the map
+ */
+export function setTimeFilter(filter: TimeFilter): void {
+  stateManager.setTimeFilter(filter);
+  updateTimeFilterControls();
+  scheduleOpenNowRefresh();
+  applyMapFilters();
+}
+
+/**
+ * Keep the "open now" filter current while it is active
+ */
+function scheduleOpenNowRefresh(): void {
+  if (openNowTimer !== null) {
+    window.clearInterval(openNowTimer);
+    openNowTimer = null;
+  }
+
+  if (state.timeFilter.mode === 'now') {
+    openNowTimer = window.setInterval(applyMapFilters, OPEN_NOW_REFRESH_INTERVAL);
+  }
+}
+
+/**
+ * Update the time filter controls to match the state
+ */
+export function updateTimeFilterControls(): void {
+  const { timeFilter } = state;
+
+  document.querySelectorAll<HTMLElement>('.filter-btn-open-now').forEach((button) => {
+    button.classList.toggle('is--active', timeFilter.mode === 'now');
+    button.setAttribute('aria-pressed', String(timeFilter.mode === 'now'));
+  });
+
+  const daySelect = document.querySelector<HTMLSelectElement>('.time-filter-day');
+  const timeInput = document.querySelector<HTMLInputElement>('.time-filter-time');
+  if (daySelect) {
+    daySelect.value = timeFilter.mode === 'at' && timeFilter.day ? timeFilter.day : '';
+  }
+  if (timeInput && timeFilter.mode === 'at' && timeFilter.time !== undefined) {
+    const hours = String(Math.floor(timeFilter.time / 60)).padStart(2, '0');
+    const minutes = String(timeFilter.time % 60).padStart(2, '0');
+    timeInput.value = `${hours}:${minutes}`;
+  }
+}
+
+/**
+ * Setup the optional time filter controls:
+ * - `.filter-btn-open-now` toggles "open now"
+ * - `.time-filter-day` (select with weekday values) and `.time-filter-time` (time input) plan ahead
+ */
+function setupTimeFilterControls(): void {
+  if (timeFilterInitialized) {
+    return;
+  }
+  timeFilterInitialized = true;
+
+  document.querySelectorAll<HTMLElement>('.filter-btn-open-now').forEach((button) => {
+    button.addEventListener('click', () => {
+      setTimeFilter({ mode: state.timeFilter.mode === 'now' ? 'all' : 'now' });
+    });
+  });
+
+  const daySelect = document.querySelector<HTMLSelectElement>('.time-filter-day');
+  const timeInput = document.querySelector<HTMLInputElement>('.time-filter-time');
+
+  const onPlanChange = () => {
+    const day = daySelect?.value as WeekdayKey | undefined;
+    if (!day || !WEEKDAY_KEYS.includes(day)) {
+      setTimeFilter({ mode: 'all' });
+      return;
+    }
+
+    // Without a time, use noon so "open on Sunday" still means something
+    const [hours, minutes] = (timeInput?.value || '12:00').split(':').map(Number);
+    setTimeFilter({ mode: 'at', day, time: hours * 60 + (minutes || 0) });
+  };
+
+  daySelect?.addEventListener('change', onPlanChange);
+  timeInput?.addEventListener('change', onPlanChange);
+
+  // Opening hours belong to the loaded data, so re-evaluate when it changes
+  eventBus.on(Events.DATA_LOADED, () => {
+    if (state.timeFilter.mode !== 'all') {
+      applyMapFilters();
+    }
+  });
+
+  updateTimeFilterControls();
+  scheduleOpenNowRefresh();
+}
+
 // Make applyMapFilters available globally for localStorage module
 (window as any).applyMapFilters = applyMapFilters;
\ No newline at end of file
@@ -2,7 +2,16 @@
 
 import type { GeolocateControl, Map, Marker, Popup } from 'mapbox-gl';
 
+import { getBoundaryFeature, isInsideBoundary } from './boundaryUtils.js';
 import { CONFIG } from './config.js';
+import { eventBus, Events } from './eventBus.js';
+import { t } from './i18n.js';
+import {
+  getSimulatedProviderFromUrl,
+  GpsLocationProvider,
+  type LocationFix,
+  type LocationProvider,
+} from './locationProviders.js';
 import { state } from './state.js';
 
 // Global declarations for external libraries
@@ -13,45 +22,6 @@ declare global {
   }
 }
 
-// Language detection function
-function detectLanguage(): 'nl' | 'en' | 'de' {
-  const path = window.location.pathname;
-  if (path.includes('/en/')) return 'en';
-  if (path.includes('/de/')) return 'de';
-  return 'nl'; // Default to Dutch
-}
-
-// Translations for boundary popup
-const boundaryTranslations = {
-  nl: {
-    title: 'Kom naar Heerlen',
-    message:
-      'Deze functie is alleen beschikbaar binnen de blauwe cirkel op de kaart. Kom naar het centrum van Heerlen om de interactieve kaart te gebruiken!',
-    locationDenied: 'Locatie toegang geweigerd. Schakel het in bij je instellingen.',
-    locationUnavailable: 'Locatie niet beschikbaar. Controleer je apparaat instellingen.',
-    locationTimeout: 'Verzoek verlopen. Probeer opnieuw.',
-    locationError: 'Er is een fout opgetreden bij het ophalen van je locatie.',
-  },
-  en: {
-    title: 'Come to Heerlen',
-    message:
-      'This feature is only available within the blue circle on the map. Come to the center of Heerlen to use the interactive map!',
-    locationDenied: 'Location access denied. Please enable it in your settings.',
-    locationUnavailable: 'Location not available. Check your device settings.',
-    locationTimeout: 'Request timed out. Please try again.',
-    locationError: 'An error occurred while getting your location.',
-  },
-  de: {
-    title: 'Kommen Sie nach Heerlen',
-    message:
-      'Diese Funktion ist nur innerhalb des blauen Kreises auf der Karte verfügbar. Kommen Sie ins Zentrum von Heerlen, um die interaktive Karte zu nutzen!',
-    locationDenied: 'Standortzugriff verweigert. Bitte aktivieren Sie ihn in Ihren Einstellungen.',
-    locationUnavailable: 'Standort nicht verfügbar. Überprüfen Sie Ihre Geräteeinstellungen.',
-    locationTimeout: 'Anfrage abgelaufen. Bitte versuchen Sie es erneut.',
-    locationError: 'Beim Abrufen Ihres Standorts ist ein Fehler aufgetreten.',
-  },
-};
-
 interface GeolocationPosition {
   coords: {
     longitude: number;
@@ -74,7 +44,6 @@ export class GeolocationManager {
   private distanceMarkers: Marker[];
   public isPopupOpen: boolean;
   private centerPoint: [number, number];
-  private boundaryRadius: number;
   public geolocateControl?: GeolocateControl;
   private isFirstLocation: boolean;
   private isTracking: boolean;
@@ -83,6 +52,9 @@ export class GeolocationManager {
   private eventListeners: Array<{ element: any; event: string; handler: Function }> = [];
   private timeouts: Set<number> = new Set();
   private boundaryPopup?: HTMLElement;
+  private userPosition: [number, number] | null = null;
+  private locationProvider?: LocationProvider;
+  private wasInsideBoundary = true;
 
   constructor(map: Map) {
     this.map = map;
@@ -93,7 +65,6 @@ export class GeolocationManager {
     this.distanceMarkers = [];
     this.isPopupOpen = false;
     this.centerPoint = CONFIG.MAP.boundary.center;
-    this.boundaryRadius = CONFIG.MAP.boundary.radius;
     this.isFirstLocation = true;
     this.isTracking = false;
     this.userInitiatedGeolocation = false;
@@ -107,6 +78,55 @@ export class GeolocationManager {
     this.setupGeolocateControl();
     this.setupSearchRadius();
     this.setupBoundaryCheck();
+
+    this.setLocationProvider(new GpsLocationProvider(this.geolocateControl!));
+    void getSimulatedProviderFromUrl(this.map).then((provider) => {
+      if (provider) this.setLocationProvider(provider);
+    });
+  }
+
+  /**
+   * Switch where user positions come from, e.g. a ManualLocationProvider or ReplayLocationProvider for testing
+   */
+  public setLocationProvider(provider: LocationProvider): void {
+    this.locationProvider?.stop();
+    this.locationProvider = provider;
+    provider.start((fix) => this.handleLocationFix(fix));
+  }
+
+  /**
+   * Current source of user positions
+   */
+  public getLocationProvider(): LocationProvider | undefined {
+    return this.locationProvider;
+  }
+
+  /**
+   * Accept a position from the location provider and share it with other modules (list view, proximity)
+   */
+  private handleLocationFix(fix: LocationFix): void {
+    const position: [number, number] = [fix.coords.longitude, fix.coords.latitude];
+    this.userPosition = position;
+
+    const isInside = this.isWithinBoundary(position);
+    if (isInside !== this.wasInsideBoundary) {
+      this.wasInsideBoundary = isInside;
+      eventBus.emit(isInside ? Events.BOUNDARY_ENTERED : Events.BOUNDARY_EXITED, position);
+      if (!isInside) this.showBoundaryLayers();
+    }
+
+    this.handleUserLocation(fix);
+    eventBus.emit(Events.LOCATION_FOUND, {
+      coordinates: position,
+      heading: fix.coords.heading,
+    });
+  }
+
+  /**
+   * Last known user position as [lng, lat], or null when geolocation hasn't found the user
+   */
+  public getUserPosition(): [number, number] | null {
+    return this.userPosition;
   }
 
   /**
@@ -172,7 +192,7 @@ export class GeolocationManager {
   }
 
   // Handle user location updates
-  private handleUserLocation(position: GeolocationPosition): void {
+  private handleUserLocation(position: LocationFix): void {
     const userPosition: [number, number] = [position.coords.longitude, position.coords.latitude];
 
     if (this.isWithinBoundary(userPosition)) {
@@ -435,23 +455,23 @@ export class GeolocationManager {
   }
 
   /**
-   * Setup boundary circle visualization
+   * Setup boundary area visualization
    */
   private setupBoundaryCheck(): void {
     this.map.on('load', () => {
-      if (this.map.getSource('boundary-circle')) {
+      if (this.map.getSource('boundary-area')) {
         // Debug info
         return;
       }
-      this.map.addSource('boundary-circle', {
+      this.map.addSource('boundary-area', {
         type: 'geojson',
-        data: this.createBoundaryCircle(),
+        data: getBoundaryFeature(),
       });
 
       this.map.addLayer({
         id: 'boundary-fill',
         type: 'fill',
-        source: 'boundary-circle',
+        source: 'boundary-area',
         paint: {
           'fill-color': '#4B83F2',
           'fill-opacity': 0.03,
@@ -464,7 +484,7 @@ export class GeolocationManager {
       this.map.addLayer({
         id: 'boundary-line',
         type: 'line',
-        source: 'boundary-circle',
+        source: 'boundary-area',
         paint: {
           'line-color': '#4B83F2',
           'line-width': 2,
@@ -626,16 +646,12 @@ export class GeolocationManager {
   private handleGeolocationError(error: GeolocationError): void {
     // Debug info
 
-    // Get current language
-    const lang = detectLanguage();
-    const t = boundaryTranslations[lang];
-
     const errorMessages: Record<number, string> = {
-      1: t.locationDenied,
-      2: t.locationUnavailable,
-      3: t.locationTimeout,
+      1: t('boundary.locationDenied'),
+      2: t('boundary.locationUnavailable'),
+      3: t('boundary.locationTimeout'),
     };
-    const defaultMessage = t.locationError;
+    const defaultMessage = t('boundary.locationError');
 
     this.showNotification(errorMessages[error.code] || defaultMessage);
   }
@@ -653,52 +669,11 @@ export class GeolocationManager {
     setTimeout(() => notification.remove(), 5000);
   }
 
-  /**
-   * Create boundary circle GeoJSON
-   */
-  private createBoundaryCircle(): GeoJSON.Feature<GeoJSON.Polygon> {
-    const center = {
-      latitude: this.centerPoint[1],
-      longitude: this.centerPoint[0],
-    };
-
-    const radiusKm = this.boundaryRadius;
-    const points: [number, number][] = [];
-
-    // Convert km to degrees based on latitude
-    const degreesLongPerKm = radiusKm / (111.32 * Math.cos((center.latitude * Math.PI) / 180));
-    const degreesLatPerKm = radiusKm / 110.574;
-
-    // Generate points around the circle
-    for (let i = 0; i <= 64; i++) {
-      const angle = (i / 64) * (2 * Math.PI);
-      const dx = degreesLongPerKm * Math.cos(angle);
-      const dy = degreesLatPerKm * Math.sin(angle);
-      points.push([center.longitude + dx, center.latitude + dy]);
-    }
-
-    return {
-      type: 'Feature',
-      properties: {},
-      geometry: {
-        type: 'Polygon',
-        coordinates: [points],
-      },
-    };
-  }
-
   /**
    * Check if position is within boundary
    */
   private isWithinBoundary(position: [number, number]): boolean {
-    const distance = this.calculateDistance(
-      position[1],
-      position[0],
-      this.centerPoint[1],
-      this.centerPoint[0]
-    );
-    const isWithin = distance <= this.boundaryRadius;
-    return isWithin;
+    return isInsideBoundary(position);
   }
 
   /**
@@ -725,10 +700,6 @@ export class GeolocationManager {
   private showBoundaryPopup(): void {
     // Debug info
 
-    // Get current language
-    const lang = detectLanguage();
-    const t = boundaryTranslations[lang];
-
     // Remove existing popup if any
     const existingPopup = document.querySelector('.location-boundary-popup');
     if (existingPopup) {
@@ -742,10 +713,10 @@ export class GeolocationManager {
     this.boundaryPopup = popup; // Track for cleanup
 
     const heading = document.createElement('h3');
-    heading.textContent = t.title;
+    heading.textContent = t('boundary.title');
 
     const text = document.createElement('p');
-    text.textContent = t.message;
+    text.textContent = t('boundary.message');
 
     // Auto-close after 3 seconds
     const self = this;
@@ -846,6 +817,10 @@ export class GeolocationManager {
     // Clear all distance markers
     this.clearDistanceMarkers();
 
+    // Stop following the user
+    this.locationProvider?.stop();
+    this.locationProvider = undefined;
+
     // Remove geolocate control
     if (this.geolocateControl) {
       this.map.removeControl(this.geolocateControl);
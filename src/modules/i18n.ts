@@ -0,0 +1,682 @@
+// Internationalisation module - message catalogs, interpolation and runtime language switching
+
+import { LANGUAGE_STORAGE_KEY } from './config.js';
+import { eventBus, Events } from './eventBus.js';
+
+export const LANGUAGES = ['nl', 'en', 'de'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+// Messages missing in the active language are taken from this one
+export const DEFAULT_LANGUAGE: Language = 'nl';
+
+// Dutch is the reference catalog: every key exists here
+const nl = {
+  popup: {
+    buttons: {
+      startAR: 'Start AR',
+      instruction: 'Instructie',
+      back: 'Terug',
+      impression: 'Impressie',
+      moreInfo: 'Meer info',
+      navigate: 'Navigeer',
+    },
+    titles: {
+      instruction: 'Instructie',
+    },
+    messages: {
+      arMobileOnly: 'Deze AR-ervaring is alleen beschikbaar op mobiele apparaten',
+      snapchatRequired:
+        'Om deze AR ervaring te gebruiken heb je Snapchat nodig. Wil je Snapchat downloaden?',
+      defaultARInstruction: 'Bekijk deze AR ervaring op je telefoon of desktop.',
+    },
+    aria: {
+      closePopup: 'Sluit popup',
+      website: 'Website',
+      instagram: 'Instagram',
+      facebook: 'Facebook',
+      navigate: 'Navigeer naar locatie',
+    },
+    navigation: {
+      confirmTitle: 'Navigeer naar deze locatie',
+      confirmMessage: 'De route opent in een navigatie-app buiten de kaart. Wil je doorgaan?',
+      chooseApp: 'Open met',
+      confirmYes: 'Ja, navigeer',
+      confirmNo: 'Blijf hier',
+    },
+    cluster: {
+      title: '{count} locaties op deze plek',
+    },
+    gallery: {
+      label: "Foto's van {name}",
+      slide: 'Foto {index} van {total}',
+      previous: 'Vorige foto',
+      next: 'Volgende foto',
+      fullscreen: 'Volledig scherm',
+      closeFullscreen: 'Sluit volledig scherm',
+    },
+  },
+  openingHours: {
+    title: 'Openingstijden',
+    openNow: 'Nu open',
+    closesAt: 'Sluit om {time}',
+    closed: 'Gesloten',
+    opensToday: 'Opent vandaag om {time}',
+    opensTomorrow: 'Opent morgen om {time}',
+    opensOn: 'Opent {day} om {time}',
+    days: {
+      maandag: 'Maandag',
+      dinsdag: 'Dinsdag',
+      woensdag: 'Woensdag',
+      donderdag: 'Donderdag',
+      vrijdag: 'Vrijdag',
+      zaterdag: 'Zaterdag',
+      zondag: 'Zondag',
+    },
+  },
+  boundary: {
+    title: 'Kom naar Heerlen',
+    message:
+      'Deze functie is alleen beschikbaar binnen het blauw omlijnde gebied op de kaart. Kom naar het centrum van Heerlen om de interactieve kaart te gebruiken!',
+    locationDenied: 'Locatie toegang geweigerd. Schakel het in bij je instellingen.',
+    locationUnavailable: 'Locatie niet beschikbaar. Controleer je apparaat instellingen.',
+    locationTimeout: 'Verzoek verlopen. Probeer opnieuw.',
+    locationError: 'Er is een fout opgetreden bij het ophalen van je locatie.',
+  },
+  tour: {
+    welcomeMessage:
+      'Welkom in <strong>Heerlen</strong> deze kaart heeft veel unieke functies die ik je graag uitleg',
+    startTour: 'Start tour',
+    skipTour: 'Skip tour',
+    helpButtonTitle: 'Start rondleiding',
+    helpButtonAriaLabel: 'Start kaart rondleiding',
+    steps: {
+      welcome:
+        'Ontdek <strong>Heerlen</strong> met deze interactieve kaart. We leiden je even rond!.',
+      mapControls:
+        'Gebruik deze <strong>knoppen</strong> om in/uit te zoomen en de kaart te draaien.',
+      filters: 'gebruik <strong>filters</strong> om per categorie te zoeken en te ontdekken!',
+      geolocation:
+        'Klik hier om je <strong>locatie</strong> aan te zetten en direct te zien waar jij je bevindt op de kaart.',
+      tryMarker: 'klik op een van de <strong>gekleurde</strong> rondjes.',
+      markerInstruction: 'Klik op een marker om door te gaan',
+      markerHint: 'Klik op "Skip" als je geen marker kunt vinden',
+      popupInfo:
+        'Bekijk <strong>informatie</strong> over deze plek en druk op de <strong>like-knop</strong> om deze locatie op te slaan.',
+      likeHeart:
+        'Klik op het <strong>hartje</strong> om al je opgeslagen favoriete locaties te bekijken.',
+      finish:
+        'Je bent nu klaar om <strong>Heerlen te verkennen</strong>! Klik op markers om locaties te ontdekken. Je kunt deze rondleiding opnieuw starten via het <strong>?</strong> icoon.',
+    },
+    buttons: {
+      start: 'Start',
+      skip: 'Skip',
+      back: '←',
+      next: '→',
+      ready: 'Klaar',
+    },
+    progressBarClose: 'Sluit rondleiding',
+  },
+  search: {
+    placeholder: 'Zoek een locatie',
+    label: 'Zoek op naam, categorie of adres',
+    noResults: 'Geen locaties gevonden',
+  },
+  list: {
+    toggle: 'Lijst',
+    toggleLabel: 'Toon locaties als lijst',
+    title: 'Locaties in beeld',
+    close: 'Sluit lijst',
+    sortLabel: 'Sorteer op',
+    sortName: 'Naam',
+    sortCategory: 'Categorie',
+    sortDistance: 'Afstand',
+    count: '{count} locaties in beeld',
+    empty: 'Geen locaties in beeld. Zoom uit of pas de filters aan.',
+  },
+  toggle3D: {
+    label: '3D aan/uit',
+    enable: '3D aan',
+    disable: '3D uit',
+  },
+  proximity: {
+    message: 'Je staat bij {name} — meer over deze plek bekijken?',
+    messageAR: 'Je staat bij {name} — de AR-ervaring openen?',
+    open: 'Bekijk',
+    openAR: 'Open AR',
+    dismiss: 'Later',
+    mute: 'Niet storen',
+    muteOn: 'Meldingen in de buurt uitzetten',
+    muteOff: 'Meldingen in de buurt aanzetten',
+  },
+  routing: {
+    title: 'Looproute naar {name}',
+    locating: 'Je locatie wordt gezocht…',
+    summary: '{distance} · {minutes} min lopen · aankomst {arrival}',
+    noRoute: 'Geen looproute gevonden vanaf je locatie.',
+    arrived: 'Je bent bij {name}',
+    stop: 'Stop route',
+    externalMaps: 'Open in {name}',
+  },
+  offline: {
+    indicator: 'Offline — je ziet opgeslagen kaartgegevens',
+  },
+  accessibility: {
+    markers: 'Locaties op de kaart',
+    instructions:
+      'Gebruik de pijltjestoetsen om naar een locatie in de buurt te gaan en Enter om hem te openen.',
+    marker: '{name}, {category}',
+    selected: '{name} geselecteerd',
+    popup: 'Locatie',
+  },
+  favorites: {
+    button: 'Bewaar als favoriet',
+    toggle: 'Favorieten',
+    toggleLabel: 'Toon je favorieten',
+    title: 'Mijn favorieten',
+    close: 'Sluit favorieten',
+    count: '{count} favorieten',
+    empty: 'Nog geen favorieten. Tik op het hartje in een popup om een plek te bewaren.',
+    remove: 'Verwijder {name} uit favorieten',
+    export: 'Exporteer',
+    share: 'Deel lijst',
+    shareTitle: 'Mijn favorieten in Heerlen',
+    copied: 'Link gekopieerd',
+    copyFailed: 'Kopieer deze link: {url}',
+    restored: '{count} gedeelde favorieten toegevoegd',
+  },
+  language: {
+    label: 'Taal',
+    names: {
+      nl: 'Nederlands',
+      en: 'English',
+      de: 'Deutsch',
+    },
+  },
+};
+
+type Catalog<T> = { [K in keyof T]?: T[K] extends string ? string : Catalog<T[K]> };
+
+/** Messages for one language; keys that are left out fall back to Dutch */
+export type MessageCatalog = Catalog<typeof nl>;
+
+type MessageKeys<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${MessageKeys<T[K]>}`;
+}[keyof T & string];
+
+/** Dotted message key, e.g. `popup.buttons.back` */
+export type MessageKey = MessageKeys<typeof nl>;
+
+export type MessageParams = Record<string, string | number>;
+
+const en: MessageCatalog = {
+  popup: {
+    buttons: {
+      startAR: 'Start AR',
+      instruction: 'Instruction',
+      back: 'Back',
+      impression: 'Impression',
+      moreInfo: 'More info',
+      navigate: 'Navigate',
+    },
+    titles: {
+      instruction: 'Instruction',
+    },
+    messages: {
+      arMobileOnly: 'This AR experience is only available on mobile devices',
+      snapchatRequired:
+        'You need Snapchat to use this AR experience. Would you like to download Snapchat?',
+      defaultARInstruction: 'View this AR experience on your phone or desktop.',
+    },
+    aria: {
+      closePopup: 'Close popup',
+      website: 'Website',
+      instagram: 'Instagram',
+      facebook: 'Facebook',
+      navigate: 'Navigate to location',
+    },
+    navigation: {
+      confirmTitle: 'Navigate to this location',
+      confirmMessage:
+        'The route opens in a navigation app outside the map. Do you want to continue?',
+      chooseApp: 'Open with',
+      confirmYes: 'Yes, navigate',
+      confirmNo: 'Stay here',
+    },
+    cluster: {
+      title: '{count} locations at this spot',
+    },
+    gallery: {
+      label: 'Photos of {name}',
+      slide: 'Photo {index} of {total}',
+      previous: 'Previous photo',
+      next: 'Next photo',
+      fullscreen: 'Fullscreen',
+      closeFullscreen: 'Close fullscreen',
+    },
+  },
+  openingHours: {
+    title: 'Opening hours',
+    openNow: 'Open now',
+    closesAt: 'Closes at {time}',
+    closed: 'Closed',
+    opensToday: 'Opens today at {time}',
+    opensTomorrow: 'Opens tomorrow at {time}',
+    opensOn: 'Opens {day} at {time}',
+    days: {
+      maandag: 'Monday',
+      dinsdag: 'Tuesday',
+      woensdag: 'Wednesday',
+      donderdag: 'Thursday',
+      vrijdag: 'Friday',
+      zaterdag: 'Saturday',
+      zondag: 'Sunday',
+    },
+  },
+  boundary: {
+    title: 'Come to Heerlen',
+    message:
+      'This feature is only available within the area outlined in blue on the map. Come to the center of Heerlen to use the interactive map!',
+    locationDenied: 'Location access denied. Please enable it in your settings.',
+    locationUnavailable: 'Location not available. Check your device settings.',
+    locationTimeout: 'Request timed out. Please try again.',
+    locationError: 'An error occurred while getting your location.',
+  },
+  tour: {
+    welcomeMessage:
+      "Welcome to <strong>Heerlen</strong>! This map has many unique features that I'd like to show you",
+    startTour: 'Start tour',
+    skipTour: 'Skip tour',
+    helpButtonTitle: 'Start tour',
+    helpButtonAriaLabel: 'Start map tour',
+    steps: {
+      welcome:
+        'Discover <strong>Heerlen</strong> with this interactive map. Let me show you around!',
+      mapControls: 'Use these <strong>buttons</strong> to zoom in/out and rotate the map.',
+      filters: 'Use <strong>filters</strong> to search and discover by category!',
+      geolocation:
+        'Click here to enable your <strong>location</strong> and see where you are on the map.',
+      tryMarker: 'Click on one of the <strong>colored</strong> circles.',
+      markerInstruction: 'Click on a marker to continue',
+      markerHint: 'Click "Skip" if you can\'t find a marker',
+      popupInfo:
+        'View <strong>information</strong> about this place and click the <strong>like button</strong> to save this location.',
+      likeHeart: 'Click on the <strong>heart</strong> to view all your saved favorite locations.',
+      finish:
+        "You're now ready to <strong>explore Heerlen</strong>! Click on markers to discover locations. You can restart this tour anytime via the <strong>?</strong> icon.",
+    },
+    buttons: {
+      start: 'Start',
+      skip: 'Skip',
+      back: '←',
+      next: '→',
+      ready: 'Done',
+    },
+    progressBarClose: 'Close tour',
+  },
+  search: {
+    placeholder: 'Search a location',
+    label: 'Search by name, category or address',
+    noResults: 'No locations found',
+  },
+  list: {
+    toggle: 'List',
+    toggleLabel: 'Show locations as a list',
+    title: 'Locations in view',
+    close: 'Close list',
+    sortLabel: 'Sort by',
+    sortName: 'Name',
+    sortCategory: 'Category',
+    sortDistance: 'Distance',
+    count: '{count} locations in view',
+    empty: 'No locations in view. Zoom out or change the filters.',
+  },
+  toggle3D: {
+    label: 'Toggle 3D',
+    enable: '3D on',
+    disable: '3D off',
+  },
+  proximity: {
+    message: "You're next to {name} — see more about this place?",
+    messageAR: "You're next to {name} — open the AR experience?",
+    open: 'View',
+    openAR: 'Open AR',
+    dismiss: 'Later',
+    mute: 'Do not disturb',
+    muteOn: 'Turn off nearby notifications',
+    muteOff: 'Turn on nearby notifications',
+  },
+  routing: {
+    title: 'Walking route to {name}',
+    locating: 'Finding your location…',
+    summary: '{distance} · {minutes} min walk · arrive {arrival}',
+    noRoute: 'No walking route found from your location.',
+    arrived: "You've arrived at {name}",
+    stop: 'End route',
+    externalMaps: 'Open in {name}',
+  },
+  offline: {
+    indicator: 'Offline — showing saved map data',
+  },
+  accessibility: {
+    markers: 'Locations on the map',
+    instructions: 'Use the arrow keys to move to a nearby location and Enter to open it.',
+    marker: '{name}, {category}',
+    selected: '{name} selected',
+    popup: 'Location',
+  },
+  favorites: {
+    button: 'Save as favourite',
+    toggle: 'Favourites',
+    toggleLabel: 'Show your favourites',
+    title: 'My favourites',
+    close: 'Close favourites',
+    count: '{count} favourites',
+    empty: 'No favourites yet. Tap the heart in a popup to save a place.',
+    remove: 'Remove {name} from favourites',
+    export: 'Export',
+    share: 'Share list',
+    shareTitle: 'My favourites in Heerlen',
+    copied: 'Link copied',
+    copyFailed: 'Copy this link: {url}',
+    restored: '{count} shared favourites added',
+  },
+  language: {
+    label: 'Language',
+  },
+};
+
+const de: MessageCatalog = {
+  popup: {
+    buttons: {
+      startAR: 'AR starten',
+      instruction: 'Anleitung',
+      back: 'Zurück',
+      impression: 'Eindruck',
+      moreInfo: 'Mehr Info',
+      navigate: 'Navigieren',
+    },
+    titles: {
+      instruction: 'Anleitung',
+    },
+    messages: {
+      arMobileOnly: 'Diese AR-Erfahrung ist nur auf mobilen Geräten verfügbar',
+      snapchatRequired:
+        'Sie benötigen Snapchat für diese AR-Erfahrung. Möchten Sie Snapchat herunterladen?',
+      defaultARInstruction: 'Sehen Sie sich diese AR-Erfahrung auf Ihrem Telefon oder Desktop an.',
+    },
+    aria: {
+      closePopup: 'Popup schließen',
+      website: 'Webseite',
+      instagram: 'Instagram',
+      facebook: 'Facebook',
+      navigate: 'Zum Standort navigieren',
+    },
+    navigation: {
+      confirmTitle: 'Zu diesem Ort navigieren',
+      confirmMessage:
+        'Die Route wird in einer Navigations-App außerhalb der Karte geöffnet. Möchten Sie fortfahren?',
+      chooseApp: 'Öffnen mit',
+      confirmYes: 'Ja, navigieren',
+      confirmNo: 'Hier bleiben',
+    },
+    cluster: {
+      title: '{count} Orte an dieser Stelle',
+    },
+    gallery: {
+      label: 'Fotos von {name}',
+      slide: 'Foto {index} von {total}',
+      previous: 'Vorheriges Foto',
+      next: 'Nächstes Foto',
+      fullscreen: 'Vollbild',
+      closeFullscreen: 'Vollbild schließen',
+    },
+  },
+  openingHours: {
+    title: 'Öffnungszeiten',
+    openNow: 'Jetzt geöffnet',
+    closesAt: 'Schließt um {time}',
+    closed: 'Geschlossen',
+    opensToday: 'Öffnet heute um {time}',
+    opensTomorrow: 'Öffnet morgen um {time}',
+    opensOn: 'Öffnet {day} um {time}',
+    days: {
+      maandag: 'Montag',
+      dinsdag: 'Dienstag',
+      woensdag: 'Mittwoch',
+      donderdag: 'Donnerstag',
+      vrijdag: 'Freitag',
+      zaterdag: 'Samstag',
+      zondag: 'Sonntag',
+    },
+  },
+  boundary: {
+    title: 'Kommen Sie nach Heerlen',
+    message:
+      'Diese Funktion ist nur innerhalb des blau umrandeten Gebiets auf der Karte verfügbar. Kommen Sie ins Zentrum von Heerlen, um die interaktive Karte zu nutzen!',
+    locationDenied: 'Standortzugriff verweigert. Bitte aktivieren Sie ihn in Ihren Einstellungen.',
+    locationUnavailable: 'Standort nicht verfügbar. Überprüfen Sie Ihre Geräteeinstellungen.',
+    locationTimeout: 'Anfrage abgelaufen. Bitte versuchen Sie es erneut.',
+    locationError: 'Beim Abrufen Ihres Standorts ist ein Fehler aufgetreten.',
+  },
+  tour: {
+    welcomeMessage:
+      'Willkommen in <strong>Heerlen</strong>! Diese Karte hat viele einzigartige Funktionen, die ich Ihnen gerne zeigen möchte',
+    startTour: 'Tour starten',
+    skipTour: 'Tour überspringen',
+    helpButtonTitle: 'Tour starten',
+    helpButtonAriaLabel: 'Kartentour starten',
+    steps: {
+      welcome:
+        'Entdecken Sie <strong>Heerlen</strong> mit dieser interaktiven Karte. Lassen Sie mich Ihnen alles zeigen!',
+      mapControls: 'Verwenden Sie diese <strong>Tasten</strong> zum Zoomen und Drehen der Karte.',
+      filters:
+        'Verwenden Sie <strong>Filter</strong>, um nach Kategorien zu suchen und zu entdecken!',
+      geolocation:
+        'Klicken Sie hier, um Ihren <strong>Standort</strong> zu aktivieren und zu sehen, wo Sie sich auf der Karte befinden.',
+      tryMarker: 'Klicken Sie auf einen der <strong>farbigen</strong> Kreise.',
+      markerInstruction: 'Klicken Sie auf einen Marker, um fortzufahren',
+      markerHint: 'Klicken Sie auf "Überspringen", wenn Sie keinen Marker finden können',
+      popupInfo:
+        'Sehen Sie sich <strong>Informationen</strong> über diesen Ort an und klicken Sie auf die <strong>Like-Schaltfläche</strong>, um diesen Ort zu speichern.',
+      likeHeart:
+        'Klicken Sie auf das <strong>Herz</strong>, um alle Ihre gespeicherten Lieblingsorte anzuzeigen.',
+      finish:
+        'Sie sind jetzt bereit, <strong>Heerlen zu erkunden</strong>! Klicken Sie auf Marker, um Orte zu entdecken. Sie können diese Tour jederzeit über das <strong>?</strong> Symbol neu starten.',
+    },
+    buttons: {
+      start: 'Start',
+      skip: 'Überspringen',
+      back: '←',
+      next: '→',
+      ready: 'Fertig',
+    },
+    progressBarClose: 'Tour schließen',
+  },
+  search: {
+    placeholder: 'Ort suchen',
+    label: 'Nach Name, Kategorie oder Adresse suchen',
+    noResults: 'Keine Orte gefunden',
+  },
+  list: {
+    toggle: 'Liste',
+    toggleLabel: 'Orte als Liste anzeigen',
+    title: 'Orte im Blickfeld',
+    close: 'Liste schließen',
+    sortLabel: 'Sortieren nach',
+    sortName: 'Name',
+    sortCategory: 'Kategorie',
+    sortDistance: 'Entfernung',
+    count: '{count} Orte im Blickfeld',
+    empty: 'Keine Orte im Blickfeld. Zoomen Sie heraus oder ändern Sie die Filter.',
+  },
+  toggle3D: {
+    label: '3D ein/aus',
+    enable: '3D ein',
+    disable: '3D aus',
+  },
+  proximity: {
+    message: 'Sie sind bei {name} — mehr über diesen Ort ansehen?',
+    messageAR: 'Sie sind bei {name} — das AR-Erlebnis öffnen?',
+    open: 'Ansehen',
+    openAR: 'AR öffnen',
+    dismiss: 'Später',
+    mute: 'Nicht stören',
+    muteOn: 'Hinweise in der Nähe ausschalten',
+    muteOff: 'Hinweise in der Nähe einschalten',
+  },
+  routing: {
+    title: 'Fußweg zu {name}',
+    locating: 'Ihr Standort wird gesucht…',
+    summary: '{distance} · {minutes} Min. zu Fuß · Ankunft {arrival}',
+    noRoute: 'Kein Fußweg von Ihrem Standort gefunden.',
+    arrived: 'Sie sind bei {name} angekommen',
+    stop: 'Route beenden',
+    externalMaps: 'In {name} öffnen',
+  },
+  offline: {
+    indicator: 'Offline — gespeicherte Kartendaten',
+  },
+  accessibility: {
+    markers: 'Orte auf der Karte',
+    instructions: 'Mit den Pfeiltasten zu einem Ort in der Nähe wechseln, mit Enter öffnen.',
+    marker: '{name}, {category}',
+    selected: '{name} ausgewählt',
+    popup: 'Ort',
+  },
+  favorites: {
+    button: 'Als Favorit speichern',
+    toggle: 'Favoriten',
+    toggleLabel: 'Deine Favoriten anzeigen',
+    title: 'Meine Favoriten',
+    close: 'Favoriten schließen',
+    count: '{count} Favoriten',
+    empty: 'Noch keine Favoriten. Tippe auf das Herz in einem Popup, um einen Ort zu speichern.',
+    remove: '{name} aus den Favoriten entfernen',
+    export: 'Exportieren',
+    share: 'Liste teilen',
+    shareTitle: 'Meine Favoriten in Heerlen',
+    copied: 'Link kopiert',
+    copyFailed: 'Kopiere diesen Link: {url}',
+    restored: '{count} geteilte Favoriten hinzugefügt',
+  },
+  language: {
+    label: 'Sprache',
+  },
+};
+
+interface MessageTree {
+  [key: string]: string | MessageTree;
+}
+
+const catalogs: Record<Language, MessageTree> = { nl, en, de } as Record<Language, MessageTree>;
+
+let currentLanguage: Language | null = null;
+
+/**
+ * Check if a value is one of the supported languages
+ */
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Determine the initial language: the stored choice, then the /en/ or /de/ page path
+ */
+function detectLanguage(): Language {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch {
+    // Storage can be unavailable (private mode); fall back to the page path
+  }
+
+  const path = window.location.pathname;
+  if (path.includes('/en/')) return 'en';
+  if (path.includes('/de/')) return 'de';
+  return DEFAULT_LANGUAGE;
+}
+
+/**
+ * Get the active language
+ */
+export function getLanguage(): Language {
+  currentLanguage ??= detectLanguage();
+  return currentLanguage;
+}
+
+/**
+ * Switch the language at runtime; listeners of LANGUAGE_CHANGED re-render their texts
+ */
+export function setLanguage(language: Language): void {
+  if (language === getLanguage()) return;
+
+  currentLanguage = language;
+  document.documentElement.lang = language;
+
+  try {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+  } catch {
+    // Not remembered across visits, but the switch itself still works
+  }
+
+  eventBus.emit(Events.LANGUAGE_CHANGED, language);
+}
+
+/**
+ * Add or override messages for a language, e.g. from the Webflow page
+ */
+export function registerMessages(language: Language, messages: MessageCatalog): void {
+  const merge = (target: MessageTree, source: MessageTree) => {
+    Object.entries(source).forEach(([key, value]) => {
+      const existing = target[key];
+      if (typeof value === 'object' && typeof existing === 'object') {
+        merge(existing, value);
+      } else {
+        target[key] = value;
+      }
+    });
+  };
+
+  merge(catalogs[language], messages as MessageTree);
+}
+
+/**
+ * Look up a dotted key in one catalog
+ */
+function lookup(catalog: MessageTree, key: string): string | undefined {
+  let node: string | MessageTree | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object') return undefined;
+    node = node[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Translate a message key into the active language
+ * @param key - Dotted key, e.g. `openingHours.closesAt`
+ * @param params - Values for `{name}` placeholders in the message
+ * @param language - Language to use instead of the active one
+ * @return The message, the Dutch one when missing, or the key itself as a last resort
+ */
+export function t(
+  key: MessageKey,
+  params?: MessageParams,
+  language: Language = getLanguage()
+): string {
+  const chain = language === DEFAULT_LANGUAGE ? [language] : [language, DEFAULT_LANGUAGE];
+
+  let message: string | undefined;
+  for (const candidate of chain) {
+    message = lookup(catalogs[candidate], key);
+    if (message !== undefined) break;
+  }
+
+  if (message === undefined) return key;
+  if (!params) return message;
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
@@ -0,0 +1,260 @@
+// Image carousel module - swipeable photo carousel for the image popup, with a fullscreen lightbox
+
+import type { LocationImage } from './dataSources.js';
+import { t } from './i18n.js';
+import { renderPopupTemplate } from './popupTemplates.js';
+import { resourceManager } from './resourceManager.js';
+import { escapeHTML, sanitizeUrl } from './sanitize.js';
+
+// Longest side of the loaded photos; the lightbox loads sharper versions
+const POPUP_IMAGE_SIZE = 1024;
+const LIGHTBOX_IMAGE_SIZE = 2048;
+
+// Horizontal distance in pixels a swipe needs to change the photo
+const SWIPE_THRESHOLD = 40;
+
+export interface ImageCarouselOptions {
+  startIndex?: number;
+  // Longest side in pixels the photos are scaled down to
+  imageSize?: number;
+  onChange?: (index: number) => void;
+}
+
+/**
+ * Photos that can be shown: only web URLs
+ */
+export function getCarouselImages(images: LocationImage[]): LocationImage[] {
+  return images.filter((image) => sanitizeUrl(image.url, ['http:', 'https:']) !== '');
+}
+
+/**
+ * Markup of a carousel; the controls are left out for a single photo
+ * @param name - Location name, used as alt text for photos without caption
+ */
+export function renderImageCarousel(images: LocationImage[], name: string): string {
+  const total = images.length;
+  const slideLabel = (index: number) =>
+    escapeHTML(t('popup.gallery.slide', { index: index + 1, total }));
+
+  const slides = images.map((image, index) =>
+    renderPopupTemplate('imageSlide', {
+      label: slideLabel(index),
+      src: escapeHTML(image.url),
+      alt: escapeHTML(image.caption || name),
+      caption: escapeHTML(image.caption),
+    })
+  );
+  const dots = images.map((_, index) =>
+    renderPopupTemplate('carouselDot', { index, label: slideLabel(index) })
+  );
+
+  return renderPopupTemplate('carousel', {
+    label: escapeHTML(t('popup.gallery.label', { name })),
+    slides: slides.join(''),
+    controls:
+      total > 1
+        ? renderPopupTemplate('carouselControls', {
+            previousLabel: t('popup.gallery.previous'),
+            nextLabel: t('popup.gallery.next'),
+            dots: dots.join(''),
+          })
+        : '',
+  });
+}
+
+/**
+ * Behaviour of a rendered carousel: buttons, dots, arrow keys and swiping.
+ * Only the current photo and its neighbours are loaded.
+ */
+export class ImageCarousel {
+  private element: HTMLElement;
+  private track: HTMLElement;
+  private slides: HTMLElement[];
+  private dots: HTMLElement[];
+  private imageSize: number;
+  private onChange?: (index: number) => void;
+  private currentIndex = 0;
+  private swipeStart: { x: number; y: number; pointerId: number } | null = null;
+  private cleanupFunctions: Array<() => void> = [];
+
+  constructor(element: HTMLElement, options: ImageCarouselOptions = {}) {
+    this.element = element;
+    this.track = element.querySelector('.image-carousel-track') as HTMLElement;
+    this.slides = Array.from(element.querySelectorAll<HTMLElement>('.image-slide'));
+    this.dots = Array.from(element.querySelectorAll<HTMLElement>('.image-carousel-dot'));
+    this.imageSize = options.imageSize ?? POPUP_IMAGE_SIZE;
+    this.onChange = options.onChange;
+
+    this.bindEvents();
+    this.goTo(options.startIndex ?? 0);
+  }
+
+  /**
+   * Index of the photo that is shown
+   */
+  get index(): number {
+    return this.currentIndex;
+  }
+
+  /**
+   * Show a photo; the index wraps around at both ends
+   */
+  goTo(index: number): void {
+    const count = this.slides.length;
+    if (count === 0) return;
+
+    this.currentIndex = ((index % count) + count) % count;
+    this.track.style.transform = `translateX(${-this.currentIndex * 100}%)`;
+
+    this.slides.forEach((slide, i) => {
+      slide.setAttribute('aria-hidden', String(i !== this.currentIndex));
+    });
+    this.dots.forEach((dot, i) => {
+      dot.setAttribute('aria-current', String(i === this.currentIndex));
+    });
+
+    [0, 1, -1].forEach((offset) => this.loadSlide((this.currentIndex + offset + count) % count));
+    this.onChange?.(this.currentIndex);
+  }
+
+  next(): void {
+    this.goTo(this.currentIndex + 1);
+  }
+
+  previous(): void {
+    this.goTo(this.currentIndex - 1);
+  }
+
+  /**
+   * Remove the event listeners
+   */
+  destroy(): void {
+    this.cleanupFunctions.forEach((cleanup) => cleanup());
+    this.cleanupFunctions = [];
+  }
+
+  private loadSlide(index: number): void {
+    const slide = this.slides[index];
+    const image = slide?.querySelector<HTMLImageElement>('img[data-src]');
+    if (!image?.dataset.src) return;
+
+    const url = image.dataset.src;
+    delete image.dataset.src;
+    slide.classList.add('is-loading');
+
+    resourceManager
+      .loadOptimizedImage(url, { maxSize: this.imageSize })
+      .then((loaded) => {
+        image.src = loaded.src;
+      })
+      .catch(() => {
+        // Scaling needs CORS headers; the browser can still show the original
+        image.src = url;
+      })
+      .finally(() => slide.classList.remove('is-loading'));
+  }
+
+  private listen<K extends keyof HTMLElementEventMap>(
+    target: HTMLElement,
+    type: K,
+    handler: (event: HTMLElementEventMap[K]) => void
+  ): void {
+    target.addEventListener(type, handler);
+    this.cleanupFunctions.push(() => target.removeEventListener(type, handler));
+  }
+
+  private bindEvents(): void {
+    const previousButton = this.element.querySelector<HTMLElement>('.image-carousel-prev');
+    const nextButton = this.element.querySelector<HTMLElement>('.image-carousel-next');
+    if (previousButton) this.listen(previousButton, 'click', () => this.previous());
+    if (nextButton) this.listen(nextButton, 'click', () => this.next());
+
+    this.dots.forEach((dot) => {
+      this.listen(dot, 'click', () => this.goTo(Number(dot.dataset.index)));
+    });
+
+    this.listen(this.element, 'keydown', (event) => {
+      if (event.key === 'ArrowLeft') this.previous();
+      else if (event.key === 'ArrowRight') this.next();
+      else return;
+      event.preventDefault();
+    });
+
+    if (this.slides.length < 2) return;
+
+    // The track follows the finger while swiping
+    this.listen(this.track, 'pointerdown', (event) => {
+      this.swipeStart = { x: event.clientX, y: event.clientY, pointerId: event.pointerId };
+      this.track.setPointerCapture(event.pointerId);
+      this.track.style.transition = 'none';
+    });
+
+    this.listen(this.track, 'pointermove', (event) => {
+      if (this.swipeStart?.pointerId !== event.pointerId) return;
+      const offset = event.clientX - this.swipeStart.x;
+      this.track.style.transform = `translateX(calc(${-this.currentIndex * 100}% + ${offset}px))`;
+    });
+
+    const endSwipe = (event: PointerEvent) => {
+      if (this.swipeStart?.pointerId !== event.pointerId) return;
+      const dx = event.clientX - this.swipeStart.x;
+      const dy = event.clientY - this.swipeStart.y;
+      this.swipeStart = null;
+      this.track.style.transition = '';
+
+      if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+        if (dx < 0) this.next();
+        else this.previous();
+      } else {
+        this.goTo(this.currentIndex);
+      }
+    };
+    this.listen(this.track, 'pointerup', endSwipe);
+    this.listen(this.track, 'pointercancel', endSwipe);
+  }
+}
+
+/**
+ * Show the photos fullscreen. Escape, the close button or a click next to the photo closes it.
+ * @param onClose - Gets the index of the last photo shown, to continue there
+ */
+export function openImageLightbox(
+  images: LocationImage[],
+  name: string,
+  startIndex: number = 0,
+  onClose?: (index: number) => void
+): void {
+  const container = document.createElement('div');
+  container.innerHTML = renderPopupTemplate('lightbox', {
+    label: escapeHTML(t('popup.gallery.label', { name })),
+    closeLabel: t('popup.gallery.closeFullscreen'),
+    carousel: renderImageCarousel(images, name),
+  });
+  const lightbox = container.firstElementChild as HTMLElement;
+  const carouselElement = lightbox.querySelector('.image-carousel') as HTMLElement;
+  const previousFocus = document.activeElement as HTMLElement | null;
+
+  document.body.appendChild(lightbox);
+  const carousel = new ImageCarousel(carouselElement, {
+    startIndex,
+    imageSize: LIGHTBOX_IMAGE_SIZE,
+  });
+
+  const close = () => {
+    document.removeEventListener('keydown', onKeydown);
+    carousel.destroy();
+    lightbox.remove();
+    previousFocus?.focus();
+    onClose?.(carousel.index);
+  };
+  const onKeydown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') close();
+  };
+
+  document.addEventListener('keydown', onKeydown);
+  lightbox.querySelector('.image-lightbox-close')?.addEventListener('click', close);
+  lightbox.addEventListener('click', (event) => {
+    if (event.target === lightbox) close();
+  });
+  carouselElement.focus();
+}
@@ -0,0 +1,68 @@
+// Language switcher module - map control to change the interface language without a reload
+
+import type { Map } from 'mapbox-gl';
+
+import { eventBus, Events } from './eventBus.js';
+import { getLanguage, isLanguage, LANGUAGES, setLanguage, t } from './i18n.js';
+
+/**
+ * Create the switcher in the top-right map corner
+ */
+function createSwitcherControl(): HTMLSelectElement | null {
+  const controlContainer = document.querySelector('.mapboxgl-ctrl-top-right');
+  if (!controlContainer) return null;
+
+  const container = document.createElement('div');
+  container.className = 'mapboxgl-ctrl mapboxgl-ctrl-group language-switcher';
+
+  const select = document.createElement('select');
+  select.className = 'language-switcher-select';
+  select.innerHTML = LANGUAGES.map(
+    (language) =>
+      `<option value="${language}" lang="${language}">${language.toUpperCase()}</option>`
+  ).join('');
+  container.appendChild(select);
+
+  controlContainer.appendChild(container);
+  return select;
+}
+
+/**
+ * Show the active language and the label in that language
+ */
+function updateSwitcher(select: HTMLSelectElement): void {
+  select.value = getLanguage();
+  select.setAttribute('aria-label', t('language.label'));
+
+  // Language names are written in their own language
+  Array.from(select.options).forEach((option) => {
+    if (isLanguage(option.value)) {
+      option.title = t(`language.names.${option.value}`, undefined, option.value);
+    }
+  });
+}
+
+/**
+ * Setup the language switcher.
+ * Uses a `.language-switcher-select` element from the page when present, otherwise adds a map control.
+ */
+export function setupLanguageSwitcher(map: Map): void {
+  document.documentElement.lang = getLanguage();
+
+  map.once('load', () => {
+    const select =
+      document.querySelector<HTMLSelectElement>('.language-switcher-select') ||
+      createSwitcherControl();
+    if (!select) return;
+
+    updateSwitcher(select);
+
+    select.addEventListener('change', () => {
+      if (isLanguage(select.value)) {
+        setLanguage(select.value);
+      }
+    });
+
+    eventBus.on(Events.LANGUAGE_CHANGED, () => updateSwitcher(select));
+  });
+}
@@ -0,0 +1,270 @@
+// List view module - accessible list of the locations in the current viewport
+
+import type { Map } from 'mapbox-gl';
+
+import { calculateDistance } from './boundaryUtils.js';
+import { eventBus, Events } from './eventBus.js';
+import { getFilteredLocations } from './filters.js';
+import { getLanguage, t } from './i18n.js';
+import { createPopup } from './popups.js';
+import { escapeHTML, sanitizeColor } from './sanitize.js';
+
+export type ListSortOrder = 'name' | 'category' | 'distance';
+
+interface ListItem {
+  feature: GeoJSON.Feature<GeoJSON.Point>;
+  name: string;
+  category: string;
+  distance: number | null;
+}
+
+let panelElement: HTMLElement | null = null;
+let toggleButton: HTMLButtonElement | null = null;
+let sortOrder: ListSortOrder = 'name';
+let userPosition: [number, number] | null = null;
+let listItems: ListItem[] = [];
+
+/**
+ * Format a distance in kilometers as "350 m" or "1,2 km"
+ */
+function formatDistance(km: number): string {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  return `${km.toFixed(1).replace('.', getLanguage() === 'en' ? '.' : ',')} km`;
+}
+
+/**
+ * Get the filtered locations inside the current map bounds
+ */
+function getVisibleItems(map: Map): ListItem[] {
+  const bounds = map.getBounds();
+
+  return getFilteredLocations()
+    .features.filter(
+      (feature): feature is GeoJSON.Feature<GeoJSON.Point> =>
+        feature.geometry?.type === 'Point' &&
+        bounds.contains(feature.geometry.coordinates as [number, number])
+    )
+    .map((feature) => {
+      const [lng, lat] = feature.geometry.coordinates;
+      return {
+        feature,
+        name: String(feature.properties?.name || ''),
+        category: String(feature.properties?.category || ''),
+        distance: userPosition
+          ? calculateDistance(userPosition[1], userPosition[0], lat, lng)
+          : null,
+      };
+    });
+}
+
+/**
+ * Sort the items in place by the chosen order
+ */
+function sortItems(items: ListItem[]): ListItem[] {
+  const byName = (a: ListItem, b: ListItem) => a.name.localeCompare(b.name);
+
+  if (sortOrder === 'category') {
+    return items.sort((a, b) => a.category.localeCompare(b.category) || byName(a, b));
+  }
+  if (sortOrder === 'distance' && userPosition) {
+    return items.sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+  }
+  return items.sort(byName);
+}
+
+/**
+ * Render the list for the current viewport
+ */
+function renderList(map: Map): void {
+  if (!panelElement || panelElement.hidden) return;
+
+  listItems = sortItems(getVisibleItems(map));
+
+  const list = panelElement.querySelector('.location-list-items') as HTMLElement;
+  const count = panelElement.querySelector('.location-list-count') as HTMLElement;
+  const distanceOption = panelElement.querySelector<HTMLOptionElement>('option[value="distance"]');
+
+  if (distanceOption) {
+    distanceOption.disabled = !userPosition;
+  }
+
+  count.textContent = t('list.count', { count: listItems.length });
+
+  list.innerHTML =
+    listItems.length === 0
+      ? `<li class="location-list-empty">${t('list.empty')}</li>`
+      : listItems
+          .map((item, index) => {
+            const properties = item.feature.properties || {};
+            const color = properties.type === 'ar' ? properties.arkleur : properties.color;
+            return `
+            <li>
+              <button type="button" class="location-list-item" data-index="${index}">
+                <span class="location-list-dot" style="background-color: ${sanitizeColor(color, '')}" aria-hidden="true"></span>
+                <span class="location-list-name">${escapeHTML(item.name)}</span>
+                ${item.category ? `<span class="location-list-category">${escapeHTML(item.category)}</span>` : ''}
+                ${item.distance !== null ? `<span class="location-list-distance">${formatDistance(item.distance)}</span>` : ''}
+              </button>
+            </li>`;
+          })
+          .join('');
+}
+
+/**
+ * Open or close the list panel
+ */
+export function toggleListView(map: Map, open?: boolean): void {
+  if (!panelElement || !toggleButton) return;
+
+  const shouldOpen = open ?? panelElement.hidden;
+  panelElement.hidden = !shouldOpen;
+  toggleButton.setAttribute('aria-expanded', String(shouldOpen));
+  toggleButton.classList.toggle('is-active', shouldOpen);
+
+  if (shouldOpen) {
+    renderList(map);
+    panelElement.querySelector<HTMLElement>('.location-list-title')?.focus();
+  } else {
+    toggleButton.focus();
+  }
+}
+
+/**
+ * Create the panel markup
+ */
+function createPanel(): HTMLElement {
+  const panel = document.createElement('section');
+  panel.id = 'location-list-panel';
+  panel.className = 'location-list-panel';
+  panel.setAttribute('aria-labelledby', 'location-list-title');
+  panel.hidden = true;
+  panel.innerHTML = `
+    <div class="location-list-header">
+      <h2 id="location-list-title" class="location-list-title" tabindex="-1"></h2>
+      <button type="button" class="location-list-close">×</button>
+    </div>
+    <div class="location-list-controls">
+      <label for="location-list-sort"></label>
+      <select id="location-list-sort" class="location-list-sort">
+        <option value="name"></option>
+        <option value="category"></option>
+        <option value="distance" disabled></option>
+      </select>
+    </div>
+    <p class="location-list-count" role="status" aria-live="polite"></p>
+    <ul class="location-list-items"></ul>
+  `;
+
+  document.body.appendChild(panel);
+  return panel;
+}
+
+/**
+ * Set the panel and toggle texts in the active language
+ */
+function applyTexts(): void {
+  if (!panelElement || !toggleButton) return;
+
+  const setText = (selector: string, text: string) => {
+    const element = panelElement?.querySelector(selector);
+    if (element) element.textContent = text;
+  };
+
+  setText('.location-list-title', t('list.title'));
+  setText('label[for="location-list-sort"]', t('list.sortLabel'));
+  setText('option[value="name"]', t('list.sortName'));
+  setText('option[value="category"]', t('list.sortCategory'));
+  setText('option[value="distance"]', t('list.sortDistance'));
+  panelElement.querySelector('.location-list-close')?.setAttribute('aria-label', t('list.close'));
+
+  // Keep the text of a toggle button that comes from the page
+  if (toggleButton.dataset.generated) {
+    toggleButton.textContent = t('list.toggle');
+  }
+  toggleButton.setAttribute('aria-label', t('list.toggleLabel'));
+}
+
+/**
+ * Create the toggle button as a map control, unless the page provides `.location-list-toggle`
+ */
+function createToggleButton(): HTMLButtonElement | null {
+  const existing = document.querySelector<HTMLButtonElement>('.location-list-toggle');
+  if (existing) return existing;
+
+  const controlContainer = document.querySelector('.mapboxgl-ctrl-top-left');
+  if (!controlContainer) return null;
+
+  const container = document.createElement('div');
+  container.className = 'mapboxgl-ctrl mapboxgl-ctrl-group';
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'location-list-toggle';
+  button.dataset.generated = 'true';
+  container.appendChild(button);
+
+  controlContainer.appendChild(container);
+  return button;
+}
+
+/**
+ * Setup the list view panel and keep it in sync with the viewport, filters and user location
+ */
+export function setupListView(map: Map): void {
+  map.once('load', () => {
+    toggleButton = createToggleButton();
+    if (!toggleButton) return;
+
+    panelElement = createPanel();
+    applyTexts();
+
+    toggleButton.setAttribute('aria-controls', panelElement.id);
+    toggleButton.setAttribute('aria-expanded', 'false');
+    toggleButton.addEventListener('click', () => toggleListView(map));
+
+    panelElement
+      .querySelector('.location-list-close')
+      ?.addEventListener('click', () => toggleListView(map, false));
+
+    panelElement.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') toggleListView(map, false);
+    });
+
+    panelElement.querySelector('.location-list-sort')?.addEventListener('change', (e) => {
+      sortOrder = (e.target as HTMLSelectElement).value as ListSortOrder;
+      renderList(map);
+    });
+
+    panelElement.querySelector('.location-list-items')?.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLElement>('.location-list-item');
+      const item = button ? listItems[Number(button.dataset.index)] : undefined;
+      if (item) {
+        createPopup(item.feature, map);
+      }
+    });
+  });
+
+  const refresh = () => renderList(map);
+  map.on('moveend', refresh);
+  eventBus.on(Events.FILTER_CHANGED, refresh);
+  eventBus.on(Events.TIME_FILTER_CHANGED, refresh);
+  eventBus.on(Events.DATA_LOADED, refresh);
+
+  eventBus.on(Events.LANGUAGE_CHANGED, () => {
+    applyTexts();
+    refresh();
+  });
+
+  eventBus.on(Events.LOCATION_FOUND, ({ coordinates }: { coordinates: [number, number] }) => {
+    const isFirstPosition = !userPosition;
+    userPosition = coordinates;
+
+    // Distance is the most useful order once we know where the user is
+    if (isFirstPosition) {
+      sortOrder = 'distance';
+      const select = panelElement?.querySelector<HTMLSelectElement>('.location-list-sort');
+      if (select) select.value = 'distance';
+    }
+    refresh();
+  });
+}
@@ -1,7 +1,8 @@
 // Local storage utilities for filter management
 
-import { LOCAL_STORAGE_KEY } from './config.js';
-import { setActiveFilters, state, stateManager } from './state.js';
+import { FAVORITES_STORAGE_KEY, LOCAL_STORAGE_KEY, TIME_FILTER_STORAGE_KEY } from './config.js';
+import { WEEKDAY_KEYS } from './openingHours.js';
+import { state, stateManager, type TimeFilter } from './state.js';
 
 // Extend Window interface for global functions
 declare global {
@@ -15,6 +16,7 @@ export function saveMapFiltersToLocalStorage(): void {
   try {
     const filtersArray = Array.from(state.activeFilters);
     localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(filtersArray));
+    localStorage.setItem(TIME_FILTER_STORAGE_KEY, JSON.stringify(state.timeFilter));
   } catch (e) {
     // Could not save map filters to localStorage
   }
@@ -39,8 +41,33 @@ export function updateMapState(activeCategories: string[] = []): void {
   }
 }
 
+// Read a stored time filter, ignoring anything that isn't a valid filter
+function loadTimeFilter(): TimeFilter {
+  const stored = JSON.parse(localStorage.getItem(TIME_FILTER_STORAGE_KEY) || 'null');
+
+  if (stored?.mode === 'now') {
+    return { mode: 'now' };
+  }
+  if (
+    stored?.mode === 'at' &&
+    WEEKDAY_KEYS.includes(stored.day) &&
+    typeof stored.time === 'number' &&
+    stored.time >= 0 &&
+    stored.time < 24 * 60
+  ) {
+    return { mode: 'at', day: stored.day, time: stored.time };
+  }
+  return { mode: 'all' };
+}
+
 // Load filters from localStorage and update the map
 export function loadFiltersAndUpdateMap(): void {
+  try {
+    stateManager.setTimeFilter(loadTimeFilter());
+  } catch (e) {
+    stateManager.setTimeFilter({ mode: 'all' });
+  }
+
   try {
     const storedFilters = localStorage.getItem(LOCAL_STORAGE_KEY);
     const activeCategories: string[] = storedFilters ? JSON.parse(storedFilters) : [];
@@ -49,3 +76,24 @@ export function loadFiltersAndUpdateMap(): void {
     updateMapState([]);
   }
 }
+
+// Save the location keys of the favourites, in the order they were added
+export function saveFavoritesToLocalStorage(keys: string[]): void {
+  try {
+    localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(keys));
+  } catch {
+    // Could not save favourites to localStorage
+  }
+}
+
+// Load the stored favourites, ignoring anything that isn't a location key
+export function loadFavoritesFromLocalStorage(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FAVORITES_STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.filter((key): key is string => typeof key === 'string' && key !== '')
+      : [];
+  } catch {
+    return [];
+  }
+}
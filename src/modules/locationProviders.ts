@@ -0,0 +1,298 @@
+// Location providers module - where user positions come from: GPS, a pin placed on the map or a replayed track
+
+import type { GeolocateControl, Map, MapMouseEvent, Marker } from 'mapbox-gl';
+
+import { calculateDistance } from './boundaryUtils.js';
+import { CONFIG } from './config.js';
+
+export interface LocationFix {
+  coords: {
+    longitude: number;
+    latitude: number;
+    heading?: number | null;
+  };
+}
+
+export interface LocationProvider {
+  // 'gps', 'manual' or 'replay'
+  readonly id: string;
+  start(onLocation: (fix: LocationFix) => void): void;
+  stop(): void;
+}
+
+export interface TrackPoint {
+  coordinates: [number, number];
+  // Milliseconds since epoch, when the track has timestamps
+  time?: number;
+}
+
+/**
+ * Compass bearing in degrees from a to b
+ */
+function getBearing(a: [number, number], b: [number, number]): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const y = Math.sin(toRad(b[0] - a[0])) * Math.cos(toRad(b[1]));
+  const x =
+    Math.cos(toRad(a[1])) * Math.sin(toRad(b[1])) -
+    Math.sin(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.cos(toRad(b[0] - a[0]));
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Marker that shows a simulated position, since the geolocate control only draws real ones
+ */
+function createSimulatedMarker(map: Map, draggable = false): Marker {
+  const element = document.createElement('div');
+  element.className = 'simulated-location-marker';
+  return new window.mapboxgl.Marker({ element, draggable }).setLngLat(map.getCenter());
+}
+
+/**
+ * Real positions from the device, through the Mapbox geolocate control
+ */
+export class GpsLocationProvider implements LocationProvider {
+  readonly id = 'gps';
+  private control: GeolocateControl;
+  private handler?: (event?: object) => void;
+
+  constructor(control: GeolocateControl) {
+    this.control = control;
+  }
+
+  start(onLocation: (fix: LocationFix) => void): void {
+    this.handler = (event?: object) => onLocation(event as LocationFix);
+    this.control.on('geolocate', this.handler);
+  }
+
+  stop(): void {
+    if (this.handler) this.control.off('geolocate', this.handler);
+    this.handler = undefined;
+  }
+}
+
+/**
+ * Position set by clicking the map; the pin can be dragged afterwards
+ */
+export class ManualLocationProvider implements LocationProvider {
+  readonly id = 'manual';
+  private map: Map;
+  private marker?: Marker;
+  private clickHandler?: (event: MapMouseEvent) => void;
+
+  constructor(map: Map) {
+    this.map = map;
+  }
+
+  start(onLocation: (fix: LocationFix) => void): void {
+    const marker = createSimulatedMarker(this.map, true);
+    const report = () => {
+      const { lng, lat } = marker.getLngLat();
+      onLocation({ coords: { longitude: lng, latitude: lat, heading: null } });
+    };
+
+    this.clickHandler = (event: MapMouseEvent) => {
+      marker.setLngLat(event.lngLat);
+      if (!this.marker) {
+        marker.addTo(this.map);
+        this.marker = marker;
+      }
+      report();
+    };
+
+    marker.on('dragend', report);
+    this.map.on('click', this.clickHandler);
+  }
+
+  stop(): void {
+    if (this.clickHandler) this.map.off('click', this.clickHandler);
+    this.clickHandler = undefined;
+    this.marker?.remove();
+    this.marker = undefined;
+  }
+}
+
+/**
+ * Replays a recorded track. Tracks without timestamps are walked at `CONFIG.ROUTING.walkingSpeed`.
+ */
+export class ReplayLocationProvider implements LocationProvider {
+  readonly id = 'replay';
+  private map: Map;
+  private track: TrackPoint[];
+  private speed: number;
+  private loop: boolean;
+  private marker?: Marker;
+  private timer?: number;
+  // Milliseconds from the start of the track for every point
+  private offsets: number[];
+
+  /**
+   * @param track - Points in walking order
+   * @param speed - Playback speed, 2 replays twice as fast as recorded
+   * @param loop - Start over at the end of the track
+   */
+  constructor(
+    map: Map,
+    track: TrackPoint[],
+    speed: number = CONFIG.LOCATION_SIMULATION.replaySpeed,
+    loop: boolean = false
+  ) {
+    this.map = map;
+    this.track = track;
+    this.speed = speed;
+    this.loop = loop;
+
+    const hasTimes = track.length > 1 && track.every(({ time }) => time !== undefined);
+    let offset = 0;
+
+    this.offsets = track.map((point, index) => {
+      if (index === 0) return 0;
+      if (hasTimes) return point.time! - track[0].time!;
+
+      const [lng, lat] = track[index - 1].coordinates;
+      const meters = 1000 * calculateDistance(lat, lng, point.coordinates[1], point.coordinates[0]);
+      offset += (1000 * meters) / CONFIG.ROUTING.walkingSpeed;
+      return offset;
+    });
+  }
+
+  /**
+   * Position and heading at a moment in the track
+   */
+  private getFix(elapsed: number): LocationFix {
+    const { track, offsets } = this;
+    let index = 1;
+    while (index < track.length - 1 && offsets[index] < elapsed) index += 1;
+
+    const from = track[Math.max(0, index - 1)].coordinates;
+    const to = track[Math.min(index, track.length - 1)].coordinates;
+    const span = offsets[index] - offsets[index - 1];
+    const fraction = span > 0 ? Math.max(0, Math.min(1, (elapsed - offsets[index - 1]) / span)) : 1;
+
+    return {
+      coords: {
+        longitude: from[0] + (to[0] - from[0]) * fraction,
+        latitude: from[1] + (to[1] - from[1]) * fraction,
+        heading: from[0] === to[0] && from[1] === to[1] ? null : getBearing(from, to),
+      },
+    };
+  }
+
+  start(onLocation: (fix: LocationFix) => void): void {
+    if (this.track.length === 0) return;
+
+    this.marker = createSimulatedMarker(this.map).addTo(this.map);
+    const duration = this.offsets[this.offsets.length - 1];
+    let startedAt = Date.now();
+
+    const tick = () => {
+      let elapsed = (Date.now() - startedAt) * this.speed;
+      if (elapsed > duration && this.loop) {
+        startedAt = Date.now();
+        elapsed = 0;
+      }
+
+      const fix = this.getFix(Math.min(elapsed, duration));
+      this.marker?.setLngLat([fix.coords.longitude, fix.coords.latitude]);
+      onLocation(fix);
+
+      if (elapsed >= duration && !this.loop) {
+        window.clearInterval(this.timer);
+      }
+    };
+
+    tick();
+    this.timer = window.setInterval(tick, CONFIG.LOCATION_SIMULATION.interval);
+  }
+
+  stop(): void {
+    window.clearInterval(this.timer);
+    this.marker?.remove();
+    this.marker = undefined;
+  }
+}
+
+/**
+ * Read a GPX file or GeoJSON (LineString, MultiLineString or Point features) as track points.
+ * Timestamps come from GPX `<time>` elements or a GeoJSON `coordTimes`/`time` property.
+ */
+export function parseTrack(text: string): TrackPoint[] {
+  const toTime = (value: unknown): number | undefined => {
+    const time = typeof value === 'number' ? value : Date.parse(String(value));
+    return Number.isFinite(time) ? time : undefined;
+  };
+
+  if (text.trim().startsWith('<')) {
+    const gpx = new DOMParser().parseFromString(text, 'application/xml');
+    return Array.from(gpx.querySelectorAll('trkpt, rtept'))
+      .map((point) => ({
+        coordinates: [Number(point.getAttribute('lon')), Number(point.getAttribute('lat'))] as [
+          number,
+          number,
+        ],
+        time: toTime(point.querySelector('time')?.textContent),
+      }))
+      .filter(({ coordinates }) => coordinates.every(Number.isFinite));
+  }
+
+  const geojson = JSON.parse(text) as GeoJSON.GeoJSON;
+  const features: GeoJSON.Feature[] =
+    geojson.type === 'FeatureCollection'
+      ? geojson.features
+      : geojson.type === 'Feature'
+        ? [geojson]
+        : [{ type: 'Feature', geometry: geojson as GeoJSON.Geometry, properties: {} }];
+
+  const points: TrackPoint[] = [];
+  features.forEach(({ geometry, properties }) => {
+    const times: unknown[] = Array.isArray(properties?.coordTimes) ? properties.coordTimes : [];
+
+    if (geometry?.type === 'Point') {
+      points.push({
+        coordinates: [geometry.coordinates[0], geometry.coordinates[1]],
+        time: toTime(properties?.time),
+      });
+    } else if (geometry?.type === 'LineString') {
+      geometry.coordinates.forEach(([lng, lat], index) => {
+        points.push({ coordinates: [lng, lat], time: toTime(times[index]) });
+      });
+    } else if (geometry?.type === 'MultiLineString') {
+      geometry.coordinates.flat().forEach(([lng, lat], index) => {
+        points.push({ coordinates: [lng, lat], time: toTime(times.flat()[index]) });
+      });
+    }
+  });
+
+  return points;
+}
+
+/**
+ * Simulated provider requested in the URL, for testing on a desk:
+ * `?location=manual` or `?location=replay&track=<url>&speed=4&loop=true`
+ */
+export async function getSimulatedProviderFromUrl(map: Map): Promise<LocationProvider | null> {
+  const params = new URLSearchParams(window.location.search);
+  const mode = params.get('location');
+
+  if (mode === 'manual') {
+    return new ManualLocationProvider(map);
+  }
+
+  const trackUrl = params.get('track');
+  if (mode === 'replay' && trackUrl) {
+    try {
+      const response = await fetch(trackUrl);
+      const track = parseTrack(await response.text());
+      const speed = Number(params.get('speed'));
+      return new ReplayLocationProvider(
+        map,
+        track,
+        speed > 0 ? speed : undefined,
+        params.get('loop') === 'true'
+      );
+    } catch {
+      // Keep using GPS when the track can't be loaded
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,151 @@
+// LRU cache module - size-aware least-recently-used cache with pinning
+
+export interface LRUCacheOptions<V> {
+  // Budget in bytes; least recently used entries are evicted above it
+  maxBytes: number;
+  // Called for every entry that leaves the cache, to free its memory
+  onEvict?: (value: V, key: string) => void;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  bytes: number;
+}
+
+/**
+ * Cache that keeps its entries under a byte budget by evicting the least recently used ones.
+ * Pinned entries (e.g. models that are in the scene) are never evicted.
+ */
+export class LRUCache<V> {
+  // Map iteration follows insertion order, so the first entry is the least recently used
+  private entries = new Map<string, CacheEntry<V>>();
+  private pins = new Map<string, number>();
+  private totalBytes = 0;
+  private maxBytes: number;
+  private onEvict?: (value: V, key: string) => void;
+
+  constructor({ maxBytes, onEvict }: LRUCacheOptions<V>) {
+    this.maxBytes = maxBytes;
+    this.onEvict = onEvict;
+  }
+
+  /**
+   * Number of cached entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Approximate memory used by the cached entries
+   */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Memory budget in bytes
+   */
+  get budget(): number {
+    return this.maxBytes;
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Get an entry and mark it as recently used
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Add or replace an entry, then evict until the cache fits its budget again
+   * @param bytes - Approximate memory the value takes
+   */
+  set(key: string, value: V, bytes: number): void {
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.remove(key, existing.value !== value);
+    }
+
+    this.entries.set(key, { value, bytes });
+    this.totalBytes += bytes;
+    this.evict();
+  }
+
+  /**
+   * Remove an entry and free it
+   */
+  delete(key: string): boolean {
+    if (!this.entries.has(key)) return false;
+    this.remove(key, true);
+    this.pins.delete(key);
+    return true;
+  }
+
+  /**
+   * Keep an entry cached until it is unpinned as many times
+   */
+  pin(key: string): void {
+    this.pins.set(key, (this.pins.get(key) || 0) + 1);
+  }
+
+  unpin(key: string): void {
+    const count = (this.pins.get(key) || 0) - 1;
+    if (count > 0) {
+      this.pins.set(key, count);
+    } else {
+      this.pins.delete(key);
+      this.evict();
+    }
+  }
+
+  isPinned(key: string): boolean {
+    return this.pins.has(key);
+  }
+
+  /**
+   * Change the budget, evicting right away when it shrinks
+   */
+  setMaxBytes(maxBytes: number): void {
+    this.maxBytes = maxBytes;
+    this.evict();
+  }
+
+  /**
+   * Free every entry, pinned ones included
+   */
+  clear(): void {
+    Array.from(this.entries.keys()).forEach((key) => this.remove(key, true));
+    this.pins.clear();
+  }
+
+  /**
+   * Entries in order from least to most recently used
+   */
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  private remove(key: string, free: boolean): void {
+    const entry = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+    if (free) this.onEvict?.(entry.value, key);
+  }
+
+  private evict(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (this.totalBytes <= this.maxBytes) break;
+      if (!this.pins.has(key)) this.remove(key, true);
+    }
+  }
+}
@@ -0,0 +1,177 @@
+// Marker clustering module - optional clustered mode for the locations source
+
+import type { GeoJSONSource, Map } from 'mapbox-gl';
+
+import { CONFIG } from './config.js';
+import { eventBus, Events } from './eventBus.js';
+
+// Clustering can be switched on from the page, like the data URL
+declare global {
+  interface Window {
+    HEERLEN_CLUSTER_MARKERS?: boolean;
+  }
+}
+
+export const CLUSTER_LAYER_ID = 'location-clusters';
+export const CLUSTER_COUNT_LAYER_ID = 'location-cluster-count';
+
+// Marker layers only show single locations when clustering is on
+export const UNCLUSTERED_FILTER = ['!', ['has', 'point_count']];
+
+// Expressions are plain arrays; the mapbox types are too strict for generated ones
+type Expression = unknown[];
+
+interface CategoryColor {
+  category: string;
+  color: string;
+  property: string;
+}
+
+// Categories known when the source was created, in clusterProperties order
+let clusterCategories: CategoryColor[] = [];
+
+/**
+ * Check if the clustered mode is enabled
+ */
+export function isClusteringEnabled(): boolean {
+  return window.HEERLEN_CLUSTER_MARKERS ?? CONFIG.CLUSTER.enabled;
+}
+
+/**
+ * Check if a rendered feature is a cluster bubble instead of a location
+ */
+export function isClusterFeature(feature: { properties?: GeoJSON.GeoJsonProperties }): boolean {
+  return !!feature.properties?.cluster;
+}
+
+/**
+ * Collect the categories and their marker color from the loaded features
+ */
+function collectCategories(features: GeoJSON.Feature[]): CategoryColor[] {
+  const categories: CategoryColor[] = [];
+  const seen = new Set<string>();
+
+  features.forEach(({ properties }) => {
+    const category = properties?.category;
+    if (!category || seen.has(category)) return;
+
+    seen.add(category);
+    categories.push({
+      category,
+      color: properties.color || properties.arkleur || CONFIG.CLUSTER.color,
+      property: `category_${categories.length}`,
+    });
+  });
+
+  return categories;
+}
+
+/**
+ * Build the source options for clustering, with a counter per category.
+ * Categories that only appear in later data loads fall back to the default color.
+ */
+export function getClusterSourceOptions(features: GeoJSON.Feature[]): Record<string, unknown> {
+  clusterCategories = collectCategories(features);
+
+  const clusterProperties: Record<string, Expression> = {};
+  clusterCategories.forEach(({ category, property }) => {
+    clusterProperties[property] = ['+', ['case', ['==', ['get', 'category'], category], 1, 0]];
+  });
+
+  return {
+    cluster: true,
+    clusterRadius: CONFIG.CLUSTER.radius,
+    clusterMaxZoom: CONFIG.CLUSTER.maxZoom,
+    clusterProperties,
+  };
+}
+
+/**
+ * Color expression that picks the color of the category with the most locations in a cluster
+ */
+function getDominantColorExpression(): Expression | string {
+  if (clusterCategories.length === 0) {
+    return CONFIG.CLUSTER.color;
+  }
+  if (clusterCategories.length === 1) {
+    return clusterCategories[0].color;
+  }
+
+  const counts = clusterCategories.map(({ property }) => ['get', property]);
+  const highest = ['max', ...counts];
+
+  const expression: Expression = ['case'];
+  clusterCategories.forEach(({ color }, index) => {
+    expression.push(['all', ['>', counts[index], 0], ['==', counts[index], highest]], color);
+  });
+  expression.push(CONFIG.CLUSTER.color);
+
+  return expression;
+}
+
+/**
+ * Add the cluster bubble and count layers and the click-to-expand handler
+ */
+export function addClusterLayers(map: Map): void {
+  map.addLayer({
+    id: CLUSTER_LAYER_ID,
+    type: 'circle',
+    source: 'locations',
+    filter: ['has', 'point_count'],
+    paint: {
+      'circle-color': getDominantColorExpression() as string,
+      'circle-radius': ['step', ['get', 'point_count'], 16, 10, 20, 25, 26],
+      'circle-stroke-width': 2,
+      'circle-stroke-color': '#ffffff',
+    },
+  });
+
+  map.addLayer({
+    id: CLUSTER_COUNT_LAYER_ID,
+    type: 'symbol',
+    source: 'locations',
+    filter: ['has', 'point_count'],
+    layout: {
+      'text-field': ['get', 'point_count_abbreviated'],
+      'text-size': 13,
+      'text-allow-overlap': true,
+    },
+    paint: {
+      'text-color': '#ffffff',
+    },
+  });
+
+  // Zoom in far enough to split the cluster, or list its locations when only the last zoom
+  // levels would split it (e.g. several locations in one building)
+  map.on('click', CLUSTER_LAYER_ID, (e) => {
+    const feature = e.features?.[0];
+    const source = map.getSource('locations') as GeoJSONSource | undefined;
+    if (!feature || !source || feature.geometry.type !== 'Point') return;
+
+    const center = feature.geometry.coordinates as [number, number];
+    const clusterId = feature.properties?.cluster_id;
+    source.getClusterExpansionZoom(clusterId, (error, zoom) => {
+      if (error) return;
+      if (zoom <= CONFIG.CLUSTER.maxZoom && zoom > map.getZoom()) {
+        map.easeTo({ center, zoom });
+        return;
+      }
+
+      source.getClusterLeaves(clusterId, CONFIG.CLUSTER.popupLimit, 0, (leavesError, leaves) => {
+        if (leavesError || !leaves) return;
+        eventBus.emit(Events.MARKER_CLUSTER_LISTED, {
+          coordinates: center,
+          locations: leaves as GeoJSON.Feature<GeoJSON.Point>[],
+        });
+      });
+    });
+  });
+
+  map.on('mouseenter', CLUSTER_LAYER_ID, () => {
+    map.getCanvas().style.cursor = 'pointer';
+  });
+
+  map.on('mouseleave', CLUSTER_LAYER_ID, () => {
+    map.getCanvas().style.cursor = '';
+  });
+}
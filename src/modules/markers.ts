@@ -1,9 +1,17 @@
 // Marker management module
 
 import type { Feature, Point } from 'geojson';
-import type { Map } from 'mapbox-gl';
+import type { GeoJSONSource, Map } from 'mapbox-gl';
 
 import { CONFIG } from './config.js';
+import { eventBus, Events } from './eventBus.js';
+import { getFilteredLocations } from './filters.js';
+import {
+  addClusterLayers,
+  getClusterSourceOptions,
+  isClusteringEnabled,
+  UNCLUSTERED_FILTER,
+} from './markerClusters.js';
 import { resourceManager } from './resourceManager.js';
 import { state } from './state.js';
 
@@ -100,12 +108,19 @@ export async function addMarkers(map: Map): Promise<void> {
   // Load icons first (wait for completion)
   await loadIcons(map);
 
+  const clustered = isClusteringEnabled();
+
   // Add source
   map.addSource('locations', {
     type: 'geojson',
-    data: state.mapLocations,
+    data: clustered ? getFilteredLocations() : state.mapLocations,
+    ...(clustered ? getClusterSourceOptions(state.mapLocations.features) : {}),
   });
 
+  if (clustered) {
+    addClusterLayers(map);
+  }
+
   // Add layers
   const layers = [
     // Circle marker layer
@@ -196,7 +211,13 @@ export async function addMarkers(map: Map): Promise<void> {
   ];
 
   // Add each layer
-  layers.forEach((layer) => map.addLayer({ ...layer, source: 'locations' }));
+  layers.forEach((layer) =>
+    map.addLayer({
+      ...layer,
+      source: 'locations',
+      ...(clustered ? { filter: UNCLUSTERED_FILTER } : {}),
+    })
+  );
 
   // Setup marker hover effects
   setupMarkerInteractions(map);
@@ -298,6 +319,20 @@ export function createCustomMarker(location: LocationFeature): HTMLDivElement {
 export function updateMarkersData(map: Map): void {
   const source = map.getSource('locations');
   if (source && 'setData' in source) {
-    (source as any).setData(state.mapLocations);
+    // Clustered sources hold the filtered data (see applyMapFilters)
+    (source as GeoJSONSource).setData(
+      isClusteringEnabled() ? getFilteredLocations() : state.mapLocations
+    );
   }
 }
+
+/**
+ * Keep icons and source data in sync when locations are (re)loaded after the markers were added
+ */
+export function setupMarkerDataSync(map: Map): void {
+  eventBus.on(Events.DATA_LOADED, () => {
+    if (!state.markersAdded) return;
+
+    loadIcons(map).then(() => updateMarkersData(map));
+  });
+}
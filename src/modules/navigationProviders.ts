@@ -0,0 +1,117 @@
+// Navigation providers module - registry of external navigation apps and their deep links
+
+import { NAVIGATION_PROVIDER_STORAGE_KEY } from './config.js';
+
+export type Platform = 'ios' | 'android' | 'other';
+
+export interface NavigationProvider {
+  id: string;
+  // Brand name, shown as is in every language
+  name: string;
+  // Walking directions to the destination
+  getUrl: (lat: number, lng: number, platform: Platform) => string;
+  // Platforms where this app is the default choice
+  defaultOn?: Platform[];
+}
+
+const providers: NavigationProvider[] = [
+  {
+    id: 'google',
+    name: 'Google Maps',
+    getUrl: (lat, lng) =>
+      `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}&travelmode=walking`,
+    defaultOn: ['android', 'other'],
+  },
+  {
+    id: 'apple',
+    name: 'Apple Maps',
+    getUrl: (lat, lng) => `https://maps.apple.com/?daddr=${lat},${lng}&dirflg=w`,
+    defaultOn: ['ios'],
+  },
+  {
+    id: 'osm',
+    name: 'OpenStreetMap / OsmAnd',
+    // OsmAnd opens its own links on Android; elsewhere the OpenStreetMap website plans the route
+    getUrl: (lat, lng, platform) =>
+      platform === 'android'
+        ? `https://osmand.net/map?pin=${lat},${lng}#17/${lat}/${lng}`
+        : `https://www.openstreetmap.org/directions?engine=fossgis_osrm_foot&route=%3B${lat}%2C${lng}`,
+  },
+  {
+    id: 'waze',
+    name: 'Waze',
+    getUrl: (lat, lng) => `https://waze.com/ul?ll=${lat},${lng}&navigate=yes`,
+  },
+];
+
+/**
+ * Detect the platform of the visitor's device
+ */
+export function getPlatform(): Platform {
+  const { userAgent, platform, maxTouchPoints } = navigator;
+
+  // iPadOS reports itself as a Mac, but Macs have no touch screen
+  if (/iPhone|iPad|iPod/.test(userAgent) || (platform === 'MacIntel' && maxTouchPoints > 1)) {
+    return 'ios';
+  }
+  if (/Android/.test(userAgent)) return 'android';
+  return 'other';
+}
+
+/**
+ * Add a navigation app, or replace the one with the same id
+ */
+export function registerNavigationProvider(provider: NavigationProvider): void {
+  const index = providers.findIndex(({ id }) => id === provider.id);
+  if (index === -1) {
+    providers.push(provider);
+  } else {
+    providers[index] = provider;
+  }
+}
+
+/**
+ * All registered navigation apps, in menu order
+ */
+export function getNavigationProviders(): NavigationProvider[] {
+  return [...providers];
+}
+
+/**
+ * The visitor's chosen navigation app, or the default for their platform
+ */
+export function getPreferredProvider(): NavigationProvider {
+  try {
+    const storedId = localStorage.getItem(NAVIGATION_PROVIDER_STORAGE_KEY);
+    const stored = providers.find(({ id }) => id === storedId);
+    if (stored) return stored;
+  } catch {
+    // Fall back to the platform default
+  }
+
+  const platform = getPlatform();
+  return providers.find(({ defaultOn }) => defaultOn?.includes(platform)) || providers[0];
+}
+
+/**
+ * Remember the visitor's navigation app for next time
+ */
+export function setPreferredProvider(providerId: string): void {
+  try {
+    localStorage.setItem(NAVIGATION_PROVIDER_STORAGE_KEY, providerId);
+  } catch {
+    // Only used for this visit
+  }
+}
+
+/**
+ * Deep link with walking directions to a destination
+ * @param provider - Navigation app, defaults to the preferred one
+ */
+export function getNavigationUrl(
+  lat: number,
+  lng: number,
+  provider: NavigationProvider = getPreferredProvider()
+): string {
+  return provider.getUrl(lat, lng, getPlatform());
+}
@@ -0,0 +1,221 @@
+// Offline module - registers the service worker, precaches the map and shows when cached data is used
+
+import type { Map } from 'mapbox-gl';
+
+import type { PrecacheRequest, ServiceWorkerNotice } from '../sw.js';
+import { CONFIG, MAPBOX_ACCESS_TOKEN } from './config.js';
+import { getLocationImages } from './dataSources.js';
+import { eventBus, Events } from './eventBus.js';
+import { t } from './i18n.js';
+import { resourceManager } from './resourceManager.js';
+import { state } from './state.js';
+import { getThreeJSResourceUrls } from './threejs.js';
+
+// Captured while the bundle runs, currentScript is null afterwards
+const bundleUrl = (document.currentScript as HTMLScriptElement | null)?.src || null;
+
+// Wait this long for the service worker to finish precaching before preloading images anyway
+const PRECACHE_TIMEOUT = 120000;
+
+let indicatorElement: HTMLElement | null = null;
+let servingFromCache = false;
+let hasPrecached = false;
+let dataLoaded = false;
+
+/**
+ * The app bundle and stylesheet, from the same folder as the running script
+ */
+function getBundleUrls(): string[] {
+  if (!bundleUrl) return [];
+
+  const folder = bundleUrl.slice(0, bundleUrl.lastIndexOf('/') + 1);
+  const stylesheets = Array.from(
+    document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]')
+  )
+    .map((link) => link.href)
+    .filter((href) => href.startsWith(folder));
+
+  return [bundleUrl, ...stylesheets];
+}
+
+/**
+ * Icons and popup photos of the loaded locations
+ */
+function getLocationImageUrls(): string[] {
+  return state.mapLocations.features.flatMap((feature: GeoJSON.Feature) => {
+    const icon = feature.properties?.icon;
+    const photos = getLocationImages(feature.properties).map(({ url }) => url);
+    return typeof icon === 'string' && icon !== '' ? [icon, ...photos] : photos;
+  });
+}
+
+/**
+ * Bounding box of the boundary area as [minLng, minLat, maxLng, maxLat]
+ */
+function getBoundaryBounds(): [number, number, number, number] {
+  const { area } = CONFIG.MAP.boundary;
+  const positions = area.type === 'Polygon' ? area.coordinates.flat() : area.coordinates.flat(2);
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+  return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+}
+
+/**
+ * Tile URLs of every tiled style source that cover the boundary area
+ */
+function getTileUrls(map: Map): string[] {
+  const [minLng, minLat, maxLng, maxLat] = getBoundaryBounds();
+  const [minZoom, maxZoom] = CONFIG.OFFLINE.tileZooms;
+  const ratio = window.devicePixelRatio > 1 ? '@2x' : '';
+  const urls: string[] = [];
+
+  const tileX = (lng: number, zoom: number) => Math.floor(((lng + 180) / 360) * 2 ** zoom);
+  const tileY = (lat: number, zoom: number) => {
+    const rad = (lat * Math.PI) / 180;
+    return Math.floor(
+      ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom
+    );
+  };
+
+  Object.keys(map.getStyle().sources).forEach((sourceId) => {
+    // Vector and raster sources know their tile templates once loaded
+    const source = map.getSource(sourceId) as unknown as {
+      tiles?: string[];
+      minzoom?: number;
+      maxzoom?: number;
+    };
+    const template = source?.tiles?.[0];
+    if (!template) return;
+
+    const from = Math.max(minZoom, source.minzoom ?? 0);
+    const to = Math.min(maxZoom, source.maxzoom ?? maxZoom);
+
+    for (let zoom = from; zoom <= to; zoom += 1) {
+      for (let x = tileX(minLng, zoom); x <= tileX(maxLng, zoom); x += 1) {
+        for (let y = tileY(maxLat, zoom); y <= tileY(minLat, zoom); y += 1) {
+          const url = new URL(
+            template
+              .replace('{z}', String(zoom))
+              .replace('{x}', String(x))
+              .replace('{y}', String(y))
+              .replace('{ratio}', ratio)
+          );
+          if (url.hostname.endsWith('mapbox.com') && !url.searchParams.has('access_token')) {
+            url.searchParams.set('access_token', MAPBOX_ACCESS_TOKEN);
+          }
+          urls.push(url.href);
+        }
+      }
+    }
+  });
+
+  return urls;
+}
+
+/**
+ * Ask the service worker to precache URLs; resolves once it is done, or right away without one
+ */
+function precacheInServiceWorker(urls: string[]): Promise<void> {
+  const controller = navigator.serviceWorker?.controller;
+  if (!controller) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timeout = window.setTimeout(resolve, PRECACHE_TIMEOUT);
+    channel.port1.onmessage = () => {
+      window.clearTimeout(timeout);
+      resolve();
+    };
+
+    const message: PrecacheRequest = { type: 'PRECACHE', urls };
+    controller.postMessage(message, [channel.port2]);
+  });
+}
+
+/**
+ * Download the bundle, location data, icons, popup images, 3D models and map tiles for offline use,
+ * then preload the images into the resource cache
+ */
+export async function precacheForOffline(map: Map): Promise<void> {
+  const imageUrls = getLocationImageUrls();
+  const urls = Array.from(
+    new Set([
+      ...getBundleUrls(),
+      // Location data comes from the JSON endpoint or the Webflow page itself
+      CONFIG.DATA.url ? new URL(CONFIG.DATA.url, window.location.href).href : window.location.href,
+      ...imageUrls,
+      ...getThreeJSResourceUrls(),
+      ...getTileUrls(map),
+    ])
+  );
+
+  await precacheInServiceWorker(urls);
+  await resourceManager.preloadResources(Array.from(new Set(imageUrls)));
+}
+
+/**
+ * Show the indicator while the device is offline or the service worker answers from its cache
+ */
+function updateIndicator(): void {
+  if (!indicatorElement) return;
+  indicatorElement.textContent = t('offline.indicator');
+  indicatorElement.hidden = navigator.onLine && !servingFromCache;
+}
+
+function createIndicator(): HTMLElement {
+  const indicator = document.createElement('div');
+  indicator.className = 'offline-indicator';
+  indicator.setAttribute('role', 'status');
+  indicator.hidden = true;
+  document.body.appendChild(indicator);
+  return indicator;
+}
+
+/**
+ * Setup offline support: service worker, precaching after the data has loaded and the indicator
+ */
+export function setupOfflineMode(map: Map): void {
+  if (!CONFIG.OFFLINE.enabled) return;
+
+  indicatorElement = createIndicator();
+  updateIndicator();
+
+  window.addEventListener('online', updateIndicator);
+  window.addEventListener('offline', updateIndicator);
+  eventBus.on(Events.LANGUAGE_CHANGED, updateIndicator);
+
+  if ('serviceWorker' in navigator && CONFIG.OFFLINE.serviceWorkerUrl) {
+    navigator.serviceWorker.register(CONFIG.OFFLINE.serviceWorkerUrl).catch(() => {
+      // Not served from this origin; the map works online only
+    });
+
+    navigator.serviceWorker.addEventListener('message', (event) => {
+      const notice = event.data as ServiceWorkerNotice;
+      if (notice?.type === 'SOURCE') {
+        servingFromCache = notice.fromCache;
+        updateIndicator();
+      }
+    });
+  }
+
+  // Only precache into a service worker that controls the page; without one the downloads are wasted
+  const startPrecache = () => {
+    const { connection } = navigator as Navigator & { connection?: { saveData?: boolean } };
+    if (hasPrecached || !dataLoaded || connection?.saveData) return;
+    if (!navigator.serviceWorker?.controller) return;
+    hasPrecached = true;
+
+    // Wait until the style sources are loaded, so their tile URLs are known
+    map.once('idle', () => {
+      void precacheForOffline(map);
+    });
+  };
+
+  eventBus.on(Events.DATA_LOADED, () => {
+    dataLoaded = true;
+    startPrecache();
+  });
+
+  // On the first visit the new service worker takes control after the data may have loaded
+  navigator.serviceWorker?.addEventListener('controllerchange', startPrecache);
+}
@@ -0,0 +1,193 @@
+// Opening hours module - parses the free-text CMS opening hours into intervals
+
+export const WEEKDAY_KEYS = [
+  'maandag',
+  'dinsdag',
+  'woensdag',
+  'donderdag',
+  'vrijdag',
+  'zaterdag',
+  'zondag',
+] as const;
+
+export type WeekdayKey = (typeof WEEKDAY_KEYS)[number];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Opening interval in minutes since midnight; `close` > 1440 runs past midnight */
+export interface TimeInterval {
+  open: number;
+  close: number;
+}
+
+export interface DaySchedule {
+  day: WeekdayKey;
+  // Original CMS text, shown when the text could not be parsed
+  raw: string;
+  intervals: TimeInterval[];
+  closed: boolean;
+  // Text was present but not recognized (e.g. "Op afspraak")
+  unknown: boolean;
+}
+
+export interface OpeningHours {
+  days: Record<WeekdayKey, DaySchedule>;
+  hasData: boolean;
+}
+
+export interface OpeningStatus {
+  state: 'open' | 'closed' | 'unknown';
+  // Minutes since midnight today when the current interval ends (may be > 1440)
+  closesAt?: number;
+  // Next opening, as days from today (0 = today) and minutes since midnight
+  nextOpening?: { dayOffset: number; day: WeekdayKey; time: number };
+}
+
+const CLOSED_PATTERN = /\b(gesloten|dicht|closed|geschlossen)\b/i;
+const ALL_DAY_PATTERN = /(24\s*uur|24\s*\/\s*7|24\s*h|hele dag|all day|ganzt[äa]gig)/i;
+
+// "09:00 - 17:30", "9.00-17.30", "9u tot 17u", "10 - 18", "09:00 – 24:00"
+const RANGE_PATTERN =
+  /(\d{1,2})(?:[:.hu](\d{2}))?\s*(?:u|uur|h)?\s*(?:-|–|—|tot|to|bis)\s*(\d{1,2})(?:[:.hu](\d{2}))?/gi;
+
+/**
+ * Convert hours and minutes to minutes since midnight, or NaN when out of range
+ */
+function toMinutes(hours: string, minutes: string | undefined): number {
+  const h = parseInt(hours, 10);
+  const m = minutes ? parseInt(minutes, 10) : 0;
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) return NaN;
+  return h * 60 + m;
+}
+
+/**
+ * Parse the opening hours text of a single day
+ * @param day - Weekday the text belongs to
+ * @param text - CMS text like "09:00 - 12:00, 13:00 - 17:30" or "Gesloten"
+ */
+export function parseDaySchedule(day: WeekdayKey, text: string | null | undefined): DaySchedule {
+  const raw = (text || '').trim();
+  const schedule: DaySchedule = { day, raw, intervals: [], closed: false, unknown: false };
+
+  if (raw === '') {
+    schedule.unknown = true;
+    return schedule;
+  }
+
+  if (ALL_DAY_PATTERN.test(raw)) {
+    schedule.intervals.push({ open: 0, close: MINUTES_PER_DAY });
+    return schedule;
+  }
+
+  for (const match of raw.matchAll(RANGE_PATTERN)) {
+    const open = toMinutes(match[1], match[2]);
+    let close = toMinutes(match[3], match[4]);
+    if (isNaN(open) || isNaN(close)) continue;
+
+    // "22:00 - 02:00" closes the next day
+    if (close <= open) close += MINUTES_PER_DAY;
+    schedule.intervals.push({ open, close });
+  }
+
+  if (schedule.intervals.length > 0) {
+    schedule.intervals.sort((a, b) => a.open - b.open);
+  } else if (CLOSED_PATTERN.test(raw)) {
+    schedule.closed = true;
+  } else {
+    schedule.unknown = true;
+  }
+
+  return schedule;
+}
+
+/**
+ * Parse the seven weekday fields (`maandag`…`zondag`) of a location
+ */
+export function parseOpeningHours(properties: Partial<Record<WeekdayKey, unknown>>): OpeningHours {
+  const days = {} as Record<WeekdayKey, DaySchedule>;
+  let hasData = false;
+
+  WEEKDAY_KEYS.forEach((day) => {
+    const value = properties[day];
+    days[day] = parseDaySchedule(day, typeof value === 'string' ? value : '');
+    if (days[day].raw !== '') hasData = true;
+  });
+
+  return { days, hasData };
+}
+
+/**
+ * Get the weekday key for a date (the CMS week starts on Monday)
+ */
+export function getWeekdayKey(date: Date): WeekdayKey {
+  return WEEKDAY_KEYS[(date.getDay() + 6) % 7];
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+export function formatMinutes(minutes: number): string {
+  const normalized = minutes % MINUTES_PER_DAY;
+  const h = Math.floor(normalized / 60);
+  const m = normalized % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * Determine whether a location is open at a given moment and when that changes
+ * @param hours - Parsed opening hours
+ * @param now - Moment to check, defaults to the current time
+ */
+export function getOpeningStatus(hours: OpeningHours, now: Date = new Date()): OpeningStatus {
+  if (!hours.hasData) return { state: 'unknown' };
+
+  const todayIndex = WEEKDAY_KEYS.indexOf(getWeekdayKey(now));
+  const minutesNow = now.getHours() * 60 + now.getMinutes();
+  const today = hours.days[WEEKDAY_KEYS[todayIndex]];
+  const yesterday = hours.days[WEEKDAY_KEYS[(todayIndex + 6) % 7]];
+
+  // Intervals from yesterday that run past midnight
+  const overnight = yesterday.intervals.find(
+    (interval) => interval.close > MINUTES_PER_DAY && minutesNow < interval.close - MINUTES_PER_DAY
+  );
+  if (overnight) {
+    return { state: 'open', closesAt: overnight.close - MINUTES_PER_DAY };
+  }
+
+  const current = today.intervals.find(
+    (interval) => minutesNow >= interval.open && minutesNow < interval.close
+  );
+  if (current) {
+    return { state: 'open', closesAt: current.close };
+  }
+
+  // Today's text could not be read, so we can't tell
+  if (today.unknown && today.raw !== '') return { state: 'unknown' };
+
+  // Look up to a week ahead for the next opening, up to the same weekday next week
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const day = WEEKDAY_KEYS[(todayIndex + offset) % 7];
+    const next = hours.days[day].intervals.find(
+      (interval) => offset > 0 || interval.open > minutesNow
+    );
+    if (next) {
+      return { state: 'closed', nextOpening: { dayOffset: offset, day, time: next.open } };
+    }
+  }
+
+  // Only unparseable text or no intervals at all
+  const allClosed = WEEKDAY_KEYS.every(
+    (day) => hours.days[day].closed || hours.days[day].raw === ''
+  );
+  return { state: allClosed ? 'closed' : 'unknown' };
+}
+
+/**
+ * Check if a location is open at the given moment (unknown counts as not open)
+ */
+export function isOpenAt(
+  properties: Partial<Record<WeekdayKey, unknown>>,
+  date: Date = new Date()
+): boolean {
+  return getOpeningStatus(parseOpeningHours(properties), date).state === 'open';
+}
@@ -3,62 +3,25 @@
 
 import type { Map, Popup } from 'mapbox-gl';
 
+import { getLocationImages } from './dataSources.js';
+import { t } from './i18n.js';
+import {
+  getCarouselImages,
+  ImageCarousel,
+  openImageLightbox,
+  renderImageCarousel,
+} from './imageCarousel.js';
+import {
+  getNavigationProviders,
+  getNavigationUrl,
+  getPreferredProvider,
+  setPreferredProvider,
+} from './navigationProviders.js';
+import { getPopupStyle, renderPopupTemplate } from './popupTemplates.js';
+import { startWalkingRoute } from './routing.js';
+import { escapeHTML, sanitizeColor } from './sanitize.js';
 import { setActivePopup, state } from './state.js';
 
-// Language detection function
-function detectLanguage(): 'nl' | 'en' | 'de' {
-  const path = window.location.pathname;
-  if (path.includes('/en/')) return 'en';
-  if (path.includes('/de/')) return 'de';
-  return 'nl'; // Default to Dutch
-}
-
-// Popup translations (subset needed for this module)
-const popupTranslations = {
-  nl: {
-    buttons: {
-      back: 'Terug'
-    },
-    aria: {
-      closePopup: 'Sluit popup'
-    },
-    navigation: {
-      confirmTitle: 'Navigeer met Google Maps',
-      confirmMessage: 'Je wordt doorgestuurd naar Google Maps. Wil je doorgaan?',
-      confirmYes: 'Ja, navigeer',
-      confirmNo: 'Blijf hier',
-    }
-  },
-  en: {
-    buttons: {
-      back: 'Back'
-    },
-    aria: {
-      closePopup: 'Close popup'
-    },
-    navigation: {
-      confirmTitle: 'Navigate with Google Maps',
-      confirmMessage: 'You will be redirected to Google Maps. Do you want to continue?',
-      confirmYes: 'Yes, navigate',
-      confirmNo: 'Stay here',
-    }
-  },
-  de: {
-    buttons: {
-      back: 'Zurück'
-    },
-    aria: {
-      closePopup: 'Popup schließen'
-    },
-    navigation: {
-      confirmTitle: 'Mit Google Maps navigieren',
-      confirmMessage: 'Sie werden zu Google Maps weitergeleitet. Möchten Sie fortfahren?',
-      confirmYes: 'Ja, navigieren',
-      confirmNo: 'Hier bleiben',
-    }
-  }
-};
-
 /**
  * Beheer top en bottom fade gradients op basis van scroll positie
  * @param description - Het scrollbare element (popup-description)
@@ -133,11 +96,11 @@ function manageDoubleFadeGradient(
 }
 
 /**
- * Show navigation confirmation dialog
+ * Show navigation confirmation dialog with a choice of navigation app
  */
 function showNavigationConfirm(lat: string, lng: string, color: string): void {
-  const lang = detectLanguage();
-  const t = popupTranslations[lang];
+  const providers = getNavigationProviders();
+  const preferred = getPreferredProvider();
 
   // Create modal overlay
   const overlay = document.createElement('div');
@@ -147,11 +110,23 @@ function showNavigationConfirm(lat: string, lng: string, color: string): void {
   const modal = document.createElement('div');
   modal.className = 'navigation-confirm-modal';
   modal.innerHTML = `
-    <h3 class="navigation-confirm-title">${t.navigation.confirmTitle}</h3>
-    <p class="navigation-confirm-message">${t.navigation.confirmMessage}</p>
+    <h3 class="navigation-confirm-title">${t('popup.navigation.confirmTitle')}</h3>
+    <p class="navigation-confirm-message">${t('popup.navigation.confirmMessage')}</p>
+    <fieldset class="navigation-confirm-providers">
+      <legend class="navigation-confirm-legend">${t('popup.navigation.chooseApp')}</legend>
+      ${providers
+        .map(
+          (provider) => `
+        <label class="navigation-provider-option">
+          <input type="radio" name="navigation-provider" value="${provider.id}"${provider.id === preferred.id ? ' checked' : ''}>
+          <span>${provider.name}</span>
+        </label>`
+        )
+        .join('')}
+    </fieldset>
     <div class="navigation-confirm-buttons">
-      <button class="navigation-confirm-no button-base" style="background-color: ${color}; border-color: ${color}; color: white;">${t.navigation.confirmNo}</button>
-      <button class="navigation-confirm-yes button-base">${t.navigation.confirmYes}</button>
+      <button class="navigation-confirm-no button-base" style="background-color: ${color}; border-color: ${color}; color: white;">${t('popup.navigation.confirmNo')}</button>
+      <button class="navigation-confirm-yes button-base">${t('popup.navigation.confirmYes')}</button>
     </div>
   `;
 
@@ -177,7 +152,13 @@ function showNavigationConfirm(lat: string, lng: string, color: string): void {
   };
 
   yesButton.addEventListener('click', () => {
-    window.open(`https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`, '_blank');
+    const selected = modal.querySelector<HTMLInputElement>(
+      'input[name="navigation-provider"]:checked'
+    );
+    const provider = providers.find(({ id }) => id === selected?.value) || preferred;
+
+    setPreferredProvider(provider.id);
+    window.open(getNavigationUrl(Number(lat), Number(lng), provider), '_blank');
     closeModal();
   });
 
@@ -434,7 +415,7 @@ export function setupPopupInteractions(popup: Popup, properties: any, coordinate
   }
 
   // Handle impressie button click (for all impressie buttons)
-  if (properties.image) {
+  if (getLocationImages(properties).length > 0) {
     popupElement.querySelectorAll('.impressie-button').forEach((button) => {
       button.addEventListener('click', () => {
         // Image popup should only be shown from the main popup, not from AR popups
@@ -454,14 +435,25 @@ export function setupPopupInteractions(popup: Popup, properties: any, coordinate
     });
   }
 
-  // Handle navigate button click (show confirmation)
+  // Handle navigate button click (walking route in the map, a navigation app when there is none)
   const navigateButton = popupElement.querySelector('.navigate-button') as HTMLElement;
   if (navigateButton) {
-    navigateButton.addEventListener('click', () => {
+    navigateButton.addEventListener('click', async () => {
       const lat = navigateButton.getAttribute('data-lat');
       const lng = navigateButton.getAttribute('data-lng');
       const color = navigateButton.getAttribute('data-color') || '#6B46C1';
-      if (lat && lng) {
+      if (!lat || !lng) return;
+
+      const started = await startWalkingRoute({
+        coordinates: [Number(lng), Number(lat)],
+        name: String(properties.name || ''),
+        color,
+      });
+
+      if (started) {
+        // Close the popup so the route is visible
+        popupElement.querySelector<HTMLElement>('.close-button')?.click();
+      } else {
         showNavigationConfirm(lat, lng, color);
       }
     });
@@ -523,8 +515,6 @@ export function setupPopupInteractions(popup: Popup, properties: any, coordinate
  * Show a fullscreen image popup
  */
 export function showImagePopup(properties: any, coordinates: any, contentHeight: number): void {
-  const lang = detectLanguage();
-  const t = popupTranslations[lang];
   const isMobile = window.matchMedia('(max-width: 479px)').matches;
 
   const popup = new window.mapboxgl.Popup({
@@ -536,35 +526,20 @@ export function showImagePopup(properties: any, coordinates: any, contentHeight:
     anchor: 'bottom',
   });
 
-  // Create popup content
-  const html = `
-    <style>
-      .popup-wrapper {
-        height: ${contentHeight}px;
-      }
-
-      .popup-side {
-        background-color: ${properties.color || '#6B46C1'};
-        clip-path: polygon(calc(100% - 0px) 26.5px, calc(100% - 0px) calc(100% - 26.5px), calc(100% - 0px) calc(100% - 26.5px), calc(100% - 0.34671999999995px) calc(100% - 22.20048px), calc(100% - 1.3505599999999px) calc(100% - 18.12224px), calc(100% - 2.95704px) calc(100% - 14.31976px), calc(100% - 5.11168px) calc(100% - 10.84752px), calc(100% - 7.76px) calc(100% - 7.76px), calc(100% - 10.84752px) calc(100% - 5.11168px), calc(100% - 14.31976px) calc(100% - 2.9570399999999px), calc(100% - 18.12224px) calc(100% - 1.35056px), calc(100% - 22.20048px) calc(100% - 0.34672px), calc(100% - 26.5px) calc(100% - 0px), calc(50% - -32.6px) calc(100% - 0px), calc(50% - -32.6px) calc(100% - 0px), calc(50% - -31.57121px) calc(100% - 0.057139999999947px), calc(50% - -30.56648px) calc(100% - 0.2255199999999px), calc(50% - -29.59427px) calc(100% - 0.50057999999996px), calc(50% - -28.66304px) calc(100% - 0.87775999999991px), calc(50% - -27.78125px) calc(100% - 1.3525px), calc(50% - -26.95736px) calc(100% - 1.92024px), calc(50% - -26.19983px) calc(100% - 2.57642px), calc(50% - -25.51712px) calc(100% - 3.31648px), calc(50% - -24.91769px) calc(100% - 4.13586px), calc(50% - -24.41px) calc(100% - 5.03px), calc(50% - -24.41px) calc(100% - 5.03px), calc(50% - -22.95654px) calc(100% - 7.6045699999999px), calc(50% - -21.23752px) calc(100% - 9.9929599999998px), calc(50% - -19.27298px) calc(100% - 12.17519px), calc(50% - -17.08296px) calc(100% - 14.13128px), calc(50% - -14.6875px) calc(100% - 15.84125px), calc(50% - -12.10664px) calc(100% - 17.28512px), calc(50% - -9.36042px) calc(100% - 18.44291px), calc(50% - -6.46888px) calc(100% - 19.29464px), calc(50% - -3.45206px) calc(100% - 19.82033px), calc(50% - -0.32999999999998px) calc(100% - 20px), calc(50% - -0.32999999999998px) calc(100% - 20px), calc(50% - 2.79179px) calc(100% - 19.82033px), calc(50% - 5.8079199999999px) calc(100% - 19.29464px), calc(50% - 8.69853px) calc(100% - 18.44291px), calc(50% - 11.44376px) calc(100% - 17.28512px), calc(50% - 14.02375px) calc(100% - 15.84125px), calc(50% - 16.41864px) calc(100% - 14.13128px), calc(50% - 18.60857px) calc(100% - 12.17519px), calc(50% - 20.57368px) calc(100% - 9.9929599999999px), calc(50% - 22.29411px) calc(100% - 7.60457px), calc(50% - 23.75px) calc(100% - 5.03px), calc(50% - 23.75px) calc(100% - 5.03px), calc(50% - 24.25769px) calc(100% - 4.1358599999999px), calc(50% - 24.85712px) calc(100% - 3.3164799999998px), calc(50% - 25.53983px) calc(100% - 2.57642px), calc(50% - 26.29736px) calc(100% - 1.92024px), calc(50% - 27.12125px) calc(100% - 1.3525px), calc(50% - 28.00304px) calc(100% - 0.87775999999997px), calc(50% - 28.93427px) calc(100% - 0.50057999999996px), calc(50% - 29.90648px) calc(100% - 0.22552000000002px), calc(50% - 30.91121px) calc(100% - 0.057140000000004px), calc(50% - 31.94px) calc(100% - 0px), 26.5px calc(100% - 0px), 26.5px calc(100% - 0px), 22.20048px calc(100% - 0.34671999999989px), 18.12224px calc(100% - 1.3505599999999px), 14.31976px calc(100% - 2.95704px), 10.84752px calc(100% - 5.1116799999999px), 7.76px calc(100% - 7.76px), 5.11168px calc(100% - 10.84752px), 2.95704px calc(100% - 14.31976px), 1.35056px calc(100% - 18.12224px), 0.34672px calc(100% - 22.20048px), 4.3855735949631E-31px calc(100% - 26.5px), 0px 26.5px, 0px 26.5px, 0.34672px 22.20048px, 1.35056px 18.12224px, 2.95704px 14.31976px, 5.11168px 10.84752px, 7.76px 7.76px, 10.84752px 5.11168px, 14.31976px 2.95704px, 18.12224px 1.35056px, 22.20048px 0.34672px, 26.5px 4.3855735949631E-31px, calc(50% - 26.74px) 0px, calc(50% - 26.74px) 0px, calc(50% - 25.31263px) 0.07137px, calc(50% - 23.91544px) 0.28176px, calc(50% - 22.55581px) 0.62559px, calc(50% - 21.24112px) 1.09728px, calc(50% - 19.97875px) 1.69125px, calc(50% - 18.77608px) 2.40192px, calc(50% - 17.64049px) 3.22371px, calc(50% - 16.57936px) 4.15104px, calc(50% - 15.60007px) 5.17833px, calc(50% - 14.71px) 6.3px, calc(50% - 14.71px) 6.3px, calc(50% - 13.6371px) 7.64798px, calc(50% - 12.446px) 8.89024px, calc(50% - 11.1451px) 10.01826px, calc(50% - 9.7428px) 11.02352px, calc(50% - 8.2475px) 11.8975px, calc(50% - 6.6676px) 12.63168px, calc(50% - 5.0115px) 13.21754px, calc(50% - 3.2876px) 13.64656px, calc(50% - 1.5043px) 13.91022px, calc(50% - -0.32999999999996px) 14px, calc(50% - -0.32999999999998px) 14px, calc(50% - -2.16431px) 13.9105px, calc(50% - -3.94768px) 13.6476px, calc(50% - -5.67177px) 13.2197px, calc(50% - -7.32824px) 12.6352px, calc(50% - -8.90875px) 11.9025px, calc(50% - -10.40496px) 11.03px, calc(50% - -11.80853px) 10.0261px, calc(50% - -13.11112px) 8.8992px, calc(50% - -14.30439px) 7.6577px, calc(50% - -15.38px) 6.31px, calc(50% - -15.38px) 6.31px, calc(50% - -16.27279px) 5.18562px, calc(50% - -17.25432px) 4.15616px, calc(50% - -18.31733px) 3.22714px, calc(50% - -19.45456px) 2.40408px, calc(50% - -20.65875px) 1.6925px, calc(50% - -21.92264px) 1.09792px, calc(50% - -23.23897px) 0.62586px, calc(50% - -24.60048px) 0.28184px, calc(50% - -25.99991px) 0.07138px, calc(50% - -27.43px) 8.9116630386686E-32px, calc(100% - 26.5px) 0px, calc(100% - 26.5px) 0px, calc(100% - 22.20048px) 0.34672px, calc(100% - 18.12224px) 1.35056px, calc(100% - 14.31976px) 2.95704px, calc(100% - 10.84752px) 5.11168px, calc(100% - 7.76px) 7.76px, calc(100% - 5.11168px) 10.84752px, calc(100% - 2.9570399999999px) 14.31976px, calc(100% - 1.35056px) 18.12224px, calc(100% - 0.34671999999995px) 22.20048px, calc(100% - 5.6843418860808E-14px) 26.5px);
-      }
+  // CMS values, escaped so they can't break out of the markup
+  const name = String(properties.name ?? '');
+  const color = sanitizeColor(properties.color, '#6B46C1');
+  const images = getCarouselImages(getLocationImages(properties));
 
-      .close-button {
-        background: ${properties.color || '#6B46C1'};
-      }
-    </style>
-    <div class="popup-wrapper">
-      <button class="close-button" aria-label="${t.aria.closePopup}"></button>
-      <div class="popup-side">
-        <div class="image-container">
-          <img src="${properties.image}" alt="${properties.name}" class="full-image">
-          <div class="button-container">
-            <button class="back-button">${t.buttons.back}</button>
-          </div>
-          <div class="location-name">${properties.name}</div>
-        </div>
-      </div>
-    </div>
-  `;
+  // Create popup content
+  const html = renderPopupTemplate('image', {
+    style: escapeHTML(getPopupStyle(color, contentHeight)),
+    closeLabel: t('popup.aria.closePopup'),
+    carousel: renderImageCarousel(images, name),
+    fullscreenLabel: t('popup.gallery.fullscreen'),
+    name: escapeHTML(name),
+    backLabel: t('popup.buttons.back'),
+  });
 
   // Add popup to map
   popup
@@ -578,6 +553,12 @@ export function showImagePopup(properties: any, coordinates: any, contentHeight:
   const popupContent = popupElement.querySelector('.mapboxgl-popup-content') as HTMLElement;
   const closeButton = popupElement.querySelector('.close-button') as HTMLElement;
   const backButton = popupElement.querySelector('.back-button') as HTMLElement;
+  const carousel = new ImageCarousel(popupElement.querySelector('.image-carousel') as HTMLElement);
+
+  // Fullscreen view continues at the same photo, and the popup follows it back
+  popupElement.querySelector('.fullscreen-button')?.addEventListener('click', () => {
+    openImageLightbox(images, name, carousel.index, (index) => carousel.goTo(index));
+  });
 
   // Animate popup appearance
   popupContent.style.opacity = '0';
@@ -626,6 +607,7 @@ export function showImagePopup(properties: any, coordinates: any, contentHeight:
 
   // Handle close button click
   closeButton.addEventListener('click', () => {
+    carousel.destroy();
     popupContent.style.transition = 'all 0.4s cubic-bezier(0.68, -0.55, 0.265, 1.55)';
     popupContent.style.transform = 'rotate(-5deg) translateY(2.5rem) /* was 40px */ scale(0.6)';
     popupContent.style.opacity = '0';
@@ -638,6 +620,7 @@ export function showImagePopup(properties: any, coordinates: any, contentHeight:
 
   // Handle back button click (return to main popup)
   backButton.addEventListener('click', () => {
+    carousel.destroy();
     popupContent.style.transition = 'all 0.4s cubic-bezier(0.68, -0.55, 0.265, 1.55)';
     popupContent.style.transform = 'rotate(-5deg) translateY(2.5rem) /* was 40px */ scale(0.6)';
     popupContent.style.opacity = '0';
@@ -657,8 +640,7 @@ export function showImagePopup(properties: any, coordinates: any, contentHeight:
       });
 
       const { createPopupContent } = await import('./popups.js');
-      const { styles, html } = createPopupContent(properties, coordinates);
-      mainPopup.setLngLat(coordinates).setHTML(`${styles}${html}`);
+      mainPopup.setLngLat(coordinates).setHTML(createPopupContent(properties, coordinates));
       mainPopup.addTo((window as any).map);
       setActivePopup(mainPopup);
       setupPopupInteractions(mainPopup, properties, coordinates);
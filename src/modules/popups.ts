@@ -4,7 +4,21 @@ import type { Feature } from 'geojson';
 import type { Map, Popup } from 'mapbox-gl';
 
 import { CONFIG } from './config.js';
-import { setActivePopup, state } from './state.js';
+import { getLocationImages, getLocationKey } from './dataSources.js';
+import { isFavorite } from './favorites.js';
+import { t } from './i18n.js';
+import { getNavigationUrl } from './navigationProviders.js';
+import {
+  formatMinutes,
+  getOpeningStatus,
+  getWeekdayKey,
+  type OpeningHours,
+  parseOpeningHours,
+  WEEKDAY_KEYS,
+} from './openingHours.js';
+import { getPopupStyle, POPUP_ICONS, renderPopupTemplate } from './popupTemplates.js';
+import { escapeHTML, sanitizeColor, sanitizeHTML, sanitizeUrl } from './sanitize.js';
+import { setActivePopup, state, stateManager } from './state.js';
 export { closeItem, closeItemIfVisible, showImagePopup } from './popups-part2.js';
 
 // Global declarations
@@ -16,113 +30,24 @@ declare global {
   }
 }
 
-// Language detection function
-function detectLanguage(): 'nl' | 'en' | 'de' {
-  const path = window.location.pathname;
-  if (path.includes('/en/')) return 'en';
-  if (path.includes('/de/')) return 'de';
-  return 'nl'; // Default to Dutch
-}
+// AR links may open Snapchat directly
+const AR_LINK_PROTOCOLS = ['http:', 'https:', 'snapchat:'];
 
-// Popup translations
-const popupTranslations = {
-  nl: {
-    buttons: {
-      startAR: 'Start AR',
-      instruction: 'Instructie',
-      back: 'Terug',
-      impression: 'Impressie',
-      moreInfo: 'Meer info',
-      navigate: 'Navigeer',
-    },
-    titles: {
-      instruction: 'Instructie',
-    },
-    messages: {
-      arMobileOnly: 'Deze AR-ervaring is alleen beschikbaar op mobiele apparaten',
-      snapchatRequired:
-        'Om deze AR ervaring te gebruiken heb je Snapchat nodig. Wil je Snapchat downloaden?',
-      defaultARInstruction: 'Bekijk deze AR ervaring op je telefoon of desktop.',
-    },
-    aria: {
-      closePopup: 'Sluit popup',
-      website: 'Website',
-      instagram: 'Instagram',
-      facebook: 'Facebook',
-      navigate: 'Navigeer naar locatie',
-    },
-    navigation: {
-      confirmTitle: 'Navigeer met Google Maps',
-      confirmMessage: 'Je wordt doorgestuurd naar Google Maps. Wil je doorgaan?',
-      confirmYes: 'Ja, navigeer',
-      confirmNo: 'Blijf hier',
-    },
-  },
-  en: {
-    buttons: {
-      startAR: 'Start AR',
-      instruction: 'Instruction',
-      back: 'Back',
-      impression: 'Impression',
-      moreInfo: 'More info',
-      navigate: 'Navigate',
-    },
-    titles: {
-      instruction: 'Instruction',
-    },
-    messages: {
-      arMobileOnly: 'This AR experience is only available on mobile devices',
-      snapchatRequired:
-        'You need Snapchat to use this AR experience. Would you like to download Snapchat?',
-      defaultARInstruction: 'View this AR experience on your phone or desktop.',
-    },
-    aria: {
-      closePopup: 'Close popup',
-      website: 'Website',
-      instagram: 'Instagram',
-      facebook: 'Facebook',
-      navigate: 'Navigate to location',
-    },
-    navigation: {
-      confirmTitle: 'Navigate with Google Maps',
-      confirmMessage: 'You will be redirected to Google Maps. Do you want to continue?',
-      confirmYes: 'Yes, navigate',
-      confirmNo: 'Stay here',
-    },
-  },
-  de: {
-    buttons: {
-      startAR: 'AR starten',
-      instruction: 'Anleitung',
-      back: 'Zurück',
-      impression: 'Eindruck',
-      moreInfo: 'Mehr Info',
-      navigate: 'Navigieren',
-    },
-    titles: {
-      instruction: 'Anleitung',
-    },
-    messages: {
-      arMobileOnly: 'Diese AR-Erfahrung ist nur auf mobilen Geräten verfügbar',
-      snapchatRequired:
-        'Sie benötigen Snapchat für diese AR-Erfahrung. Möchten Sie Snapchat herunterladen?',
-      defaultARInstruction: 'Sehen Sie sich diese AR-Erfahrung auf Ihrem Telefon oder Desktop an.',
-    },
-    aria: {
-      closePopup: 'Popup schließen',
-      website: 'Webseite',
-      instagram: 'Instagram',
-      facebook: 'Facebook',
-      navigate: 'Zum Standort navigieren',
-    },
-    navigation: {
-      confirmTitle: 'Mit Google Maps navigieren',
-      confirmMessage: 'Sie werden zu Google Maps weitergeleitet. Möchten Sie fortfahren?',
-      confirmYes: 'Ja, navigieren',
-      confirmNo: 'Hier bleiben',
-    },
-  },
-};
+// Images and social links only load from the web
+const WEB_PROTOCOLS = ['http:', 'https:'];
+
+// True while createPopup swaps the old popup for a new one
+let popupOpening = false;
+
+// Popup created by createPopup and its location, to re-render it in another language
+let locationPopup: { popup: Popup; location: GeoJSON.Feature<GeoJSON.Point> } | null = null;
+
+/**
+ * Check if a popup is being opened (the previous one may already be closed)
+ */
+export function isPopupOpening(): boolean {
+  return popupOpening;
+}
 
 /**
  * Main function to create and show a popup for a location
@@ -133,155 +58,180 @@ export async function createPopup(location: any, map: Map): Promise<Popup> {
   const coordinates = location.geometry.coordinates.slice();
   const { properties } = location;
   const isAR = properties.type === 'ar';
+  popupOpening = true;
+
+  try {
+    // Calculate offset based on screen size - adjusted for fluid scaling popup
+    // Mobile (≤479px): smaller popup, smaller offset
+    // Tablet (480px-991px): medium popup, medium offset
+    // Desktop (≥992px): larger popup due to fluid scaling, larger offset
+    let offset: [number, number];
+    if (window.matchMedia('(max-width: 479px)').matches) {
+      offset = [0, 200]; // Small screens
+    } else if (window.matchMedia('(max-width: 991px)').matches) {
+      offset = [0, 220]; // Medium screens - more centered
+    } else {
+      offset = [0, 260]; // Large screens - more centered
+    }
 
-  // Calculate offset based on screen size - adjusted for fluid scaling popup
-  // Mobile (≤479px): smaller popup, smaller offset
-  // Tablet (480px-991px): medium popup, medium offset
-  // Desktop (≥992px): larger popup due to fluid scaling, larger offset
-  let offset: [number, number];
-  if (window.matchMedia('(max-width: 479px)').matches) {
-    offset = [0, 200]; // Small screens
-  } else if (window.matchMedia('(max-width: 991px)').matches) {
-    offset = [0, 220]; // Medium screens - more centered
-  } else {
-    offset = [0, 260]; // Large screens - more centered
-  }
-
-  // Fly to marker
-  map.flyTo({
-    center: coordinates,
-    offset,
-    duration: 800,
-    essential: true,
-  });
-
-  // Handle existing sidebar items
-  const visibleItem = window.$('.locations-map_item.is--show');
-  if (visibleItem.length) {
-    visibleItem.css({
-      opacity: '0',
-      transform: 'translateY(2.5rem) scale(0.6)', /* was 40px */
+    // Fly to marker
+    map.flyTo({
+      center: coordinates,
+      offset,
+      duration: 800,
+      essential: true,
     });
-  }
 
-  // Handle existing popup
-  if (state.activePopup) {
-    const popupContent = state.activePopup.getElement().querySelector('.mapboxgl-popup-content');
-    if (popupContent) {
-      (popupContent as HTMLElement).style.transition =
-        'all 400ms cubic-bezier(0.68, -0.55, 0.265, 1.55)';
-      (popupContent as HTMLElement).style.transform = 'rotate(-5deg) translateY(1.25rem) scale(0.8)'; /* was 20px */
-      (popupContent as HTMLElement).style.opacity = '0';
+    // Handle existing sidebar items
+    const visibleItem = window.$('.locations-map_item.is--show');
+    if (visibleItem.length) {
+      visibleItem.css({
+        opacity: '0',
+        transform: 'translateY(2.5rem) scale(0.6)', /* was 40px */
+      });
     }
-  }
 
-  // Wait for animations to complete
-  await new Promise((resolve) => setTimeout(resolve, 400));
+    // Handle existing popup
+    if (state.activePopup) {
+      const popupContent = state.activePopup.getElement().querySelector('.mapboxgl-popup-content');
+      if (popupContent) {
+        (popupContent as HTMLElement).style.transition =
+          'all 400ms cubic-bezier(0.68, -0.55, 0.265, 1.55)';
+        (popupContent as HTMLElement).style.transform = 'rotate(-5deg) translateY(1.25rem) scale(0.8)'; /* was 20px */
+        (popupContent as HTMLElement).style.opacity = '0';
+      }
+    }
 
-  // Remove existing popup
-  if (state.activePopup) {
-    state.activePopup.remove();
-    setActivePopup(null);
-  }
+    // Wait for animations to complete
+    await new Promise((resolve) => setTimeout(resolve, 400));
 
-  // Extra cleanup: ensure all popup elements are removed from DOM
-  const existingPopups = document.querySelectorAll('.mapboxgl-popup');
-  existingPopups.forEach((popup) => popup.remove());
+    // Remove existing popup
+    if (state.activePopup) {
+      state.activePopup.remove();
+      setActivePopup(null);
+    }
 
-  // Small delay to ensure DOM is clean before creating new popup
-  await new Promise((resolve) => setTimeout(resolve, 50));
+    // Extra cleanup: ensure all popup elements are removed from DOM
+    const existingPopups = document.querySelectorAll('.mapboxgl-popup');
+    existingPopups.forEach((popup) => popup.remove());
+
+    // Small delay to ensure DOM is clean before creating new popup
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Only show sidebar for non-AR markers
+    if (!isAR) {
+      // Reset all sidebar items
+      window.$('.locations-map_item').removeClass('is--show').css({
+        display: 'none',
+        transform: 'translateY(2.5rem) scale(0.6)', /* was 40px */
+        opacity: '0',
+      });
+
+      // Show sidebar
+      window.$('.locations-map_wrapper').addClass('is--show');
+
+      // Show current sidebar item
+      const currentItem = window.$('.locations-map_item').eq(properties.arrayID);
+
+      // Pages without the Webflow list (JSON/GeoJSON source, dev page) have no sidebar item
+      if (currentItem.length) {
+        currentItem.css({
+          display: 'block',
+          opacity: '0',
+          transform: 'translateY(2.5rem) scale(0.6)', /* was 40px */
+        });
+
+        // Force reflow
+        currentItem[0].offsetHeight;
+
+        // Animate sidebar item appearance
+        requestAnimationFrame(() => {
+          currentItem
+            .css({
+              transition: 'all 400ms cubic-bezier(0.68, -0.55, 0.265, 1.55)',
+              opacity: '1',
+              transform: 'translateY(0) scale(1)',
+            })
+            .addClass('is--show');
+        });
+      }
+    } else {
+      // For AR markers, hide the sidebar if visible
+      window.$('.locations-map_wrapper').removeClass('is--show');
+      window.$('.locations-map_item').removeClass('is--show');
+    }
 
-  // Only show sidebar for non-AR markers
-  if (!isAR) {
-    // Reset all sidebar items
-    window.$('.locations-map_item').removeClass('is--show').css({
-      display: 'none',
-      transform: 'translateY(2.5rem) scale(0.6)', /* was 40px */
-      opacity: '0',
+    // Create new popup
+    const popup = new window.mapboxgl.Popup({
+      offset: {
+        bottom: [0, -5],
+        top: [0, 0],
+        left: [0, 0],
+        right: [0, 0],
+      },
+      className: 'custom-popup',
+      closeButton: false,
+      maxWidth: 'none', // Removed fixed width - now controlled by CSS clamp()
+      closeOnClick: false,
+      anchor: 'bottom',
     });
 
-    // Show sidebar
-    window.$('.locations-map_wrapper').addClass('is--show');
+    // Update geolocation manager state and PAUSE TRACKING
+    if (window.geolocationManager) {
+      window.geolocationManager.isPopupOpen = true;
 
-    // Show current sidebar item
-    const currentItem = window.$('.locations-map_item').eq(properties.arrayID);
-    currentItem.css({
-      display: 'block',
-      opacity: '0',
-      transform: 'translateY(2.5rem) scale(0.6)', /* was 40px */
-    });
+      // Explicitly pause location tracking when popup is opened
+      if (window.geolocationManager.geolocateControl) {
+        // Store tracking state to restore later if needed
+        window.geolocationManager.wasTracking =
+          window.geolocationManager.geolocateControl._watchState === 'ACTIVE_LOCK';
 
-    // Force reflow
-    currentItem[0].offsetHeight;
+        // Disable auto-centering on user location
+        window.geolocationManager.pauseTracking();
+      }
+    }
 
-    // Animate sidebar item appearance
-    requestAnimationFrame(() => {
-      currentItem
-        .css({
-          transition: 'all 400ms cubic-bezier(0.68, -0.55, 0.265, 1.55)',
-          opacity: '1',
-          transform: 'translateY(0) scale(1)',
-        })
-        .addClass('is--show');
+    // Create and add popup content
+    popup.setLngLat(coordinates).setHTML(createPopupContent(properties, coordinates)).addTo(map);
+    setActivePopup(popup);
+    stateManager.setSelectedLocation(getLocationKey(properties));
+    locationPopup = { popup, location };
+
+    // Add popup close handler to restore tracking
+    popup.on('close', () => {
+      if (window.geolocationManager) {
+        window.geolocationManager.isPopupOpen = false;
+
+        // Restore tracking if it was active before
+        if (window.geolocationManager.wasTracking) {
+          window.geolocationManager.resumeTracking();
+        }
+      }
     });
-  } else {
-    // For AR markers, hide the sidebar if visible
-    window.$('.locations-map_wrapper').removeClass('is--show');
-    window.$('.locations-map_item').removeClass('is--show');
-  }
-
-  // Create new popup
-  const popup = new window.mapboxgl.Popup({
-    offset: {
-      bottom: [0, -5],
-      top: [0, 0],
-      left: [0, 0],
-      right: [0, 0],
-    },
-    className: 'custom-popup',
-    closeButton: false,
-    maxWidth: 'none', // Removed fixed width - now controlled by CSS clamp()
-    closeOnClick: false,
-    anchor: 'bottom',
-  });
 
-  // Update geolocation manager state and PAUSE TRACKING
-  if (window.geolocationManager) {
-    window.geolocationManager.isPopupOpen = true;
+    // Setup popup interactions
+    const { setupPopupInteractions } = await import('./popups-part2.js');
+    setupPopupInteractions(popup, properties, coordinates);
 
-    // Explicitly pause location tracking when popup is opened
-    if (window.geolocationManager.geolocateControl) {
-      // Store tracking state to restore later if needed
-      window.geolocationManager.wasTracking =
-        window.geolocationManager.geolocateControl._watchState === 'ACTIVE_LOCK';
-
-      // Disable auto-centering on user location
-      window.geolocationManager.pauseTracking();
-    }
+    return popup;
+  } finally {
+    popupOpening = false;
   }
+}
 
-  // Create and add popup content
-  const { styles, html } = createPopupContent(properties, coordinates);
-  popup.setLngLat(coordinates).setHTML(`${styles}${html}`).addTo(map);
-  setActivePopup(popup);
-
-  // Add popup close handler to restore tracking
-  popup.on('close', () => {
-    if (window.geolocationManager) {
-      window.geolocationManager.isPopupOpen = false;
+/**
+ * Re-render the open location popup, e.g. after the language was switched.
+ * Other popups (like the image view) are left alone.
+ */
+export async function refreshActivePopup(): Promise<void> {
+  if (!locationPopup || state.activePopup !== locationPopup.popup) return;
 
-      // Restore tracking if it was active before
-      if (window.geolocationManager.wasTracking) {
-        window.geolocationManager.resumeTracking();
-      }
-    }
-  });
+  const { popup, location } = locationPopup;
+  const coordinates = location.geometry.coordinates.slice() as [number, number];
+  popup.setHTML(createPopupContent(location.properties, coordinates));
 
-  // Setup popup interactions
   const { setupPopupInteractions } = await import('./popups-part2.js');
-  setupPopupInteractions(popup, properties, coordinates);
-
-  return popup;
+  setupPopupInteractions(popup, location.properties, coordinates);
 }
 
 export function closeActivePopup(): void {
@@ -291,6 +241,59 @@ export function closeActivePopup(): void {
   }
 }
 
+/**
+ * Show the locations of a cluster that doesn't split when zooming in, to pick one from a list
+ * @param locations - The leaves of the cluster
+ */
+export function showClusterPopup(
+  map: Map,
+  coordinates: [number, number],
+  locations: Feature<GeoJSON.Point>[]
+): Popup {
+  closeActivePopup();
+
+  const items = locations.map((location, index) =>
+    renderPopupTemplate('clusterItem', {
+      index,
+      name: escapeHTML(location.properties?.name),
+      color: sanitizeColor(location.properties?.color || location.properties?.arkleur, '#6B46C1'),
+    })
+  );
+
+  const popup: Popup = new window.mapboxgl.Popup({
+    offset: [0, -5],
+    className: 'custom-popup',
+    closeButton: false,
+    maxWidth: 'none',
+    closeOnClick: false,
+    anchor: 'bottom',
+  });
+
+  popup
+    .setLngLat(coordinates)
+    .setHTML(
+      renderPopupTemplate('cluster', {
+        style: escapeHTML(getPopupStyle(CONFIG.CLUSTER.color)),
+        closeLabel: t('popup.aria.closePopup'),
+        title: t('popup.cluster.title', { count: locations.length }),
+        items: items.join(''),
+      })
+    )
+    .addTo(map);
+  setActivePopup(popup);
+
+  const popupElement = popup.getElement();
+  popupElement.querySelector('.close-button')?.addEventListener('click', () => closeActivePopup());
+  popupElement.querySelectorAll<HTMLElement>('.cluster-popup-item').forEach((item) => {
+    item.addEventListener('click', () => {
+      const location = locations[Number(item.dataset.index)];
+      if (location) void createPopup(location, map);
+    });
+  });
+
+  return popup;
+}
+
 //! ============= POPUP MANAGEMENT =============
 
 /**
@@ -331,15 +334,17 @@ export function createARButton(
   buttonClass: string = 'impressie-button button-base',
   buttonText?: string
 ): string {
-  const lang = detectLanguage();
-  const t = popupTranslations[lang];
   const linkInfo = getARLinkForDevice(properties);
-  const actualButtonText = buttonText || t.buttons.startAR;
+  const actualButtonText = buttonText || t('popup.buttons.startAR');
+
+  // The link ends up in an inline handler, so it is passed as an escaped JS string
+  const link = sanitizeUrl(linkInfo.link, AR_LINK_PROTOCOLS);
+  const linkArgument = escapeHTML(JSON.stringify(link));
 
-  if (!linkInfo.available) {
+  if (!linkInfo.available || !link) {
     // Link niet beschikbaar voor dit apparaat
     if (linkInfo.deviceType === 'desktop') {
-      return `<button class="${buttonClass} disabled" disabled title="${t.messages.arMobileOnly}">
+      return `<button class="${buttonClass} disabled" disabled title="${t('popup.messages.arMobileOnly')}">
                 ${actualButtonText} <span class="mobile-only">📱</span>
               </button>`;
     }
@@ -347,19 +352,16 @@ export function createARButton(
   }
 
   // Voor mobile Snapchat links, gebruik speciale handler
-  if (linkInfo.deviceType === 'mobile' && linkInfo.link.startsWith('snapchat://')) {
-    return `<button class="${buttonClass}" onclick="handleSnapchatLink('${linkInfo.link}')">${actualButtonText}</button>`;
+  if (linkInfo.deviceType === 'mobile' && link.startsWith('snapchat://')) {
+    return `<button class="${buttonClass}" onclick="handleSnapchatLink(${linkArgument})">${actualButtonText}</button>`;
   }
 
   // Voor alle andere links, gebruik normale window.open
-  return `<button class="${buttonClass}" onclick="window.open('${linkInfo.link}', '_blank')">${actualButtonText}</button>`;
+  return `<button class="${buttonClass}" onclick="window.open(${linkArgument}, '_blank')">${actualButtonText}</button>`;
 }
 
 // Functie om Snapchat links te behandelen met fallback voor niet-geïnstalleerde app
 export function handleSnapchatLink(snapchatUri: string): void {
-  const lang = detectLanguage();
-  const t = popupTranslations[lang];
-
   // Snapchat App Store/Google Play links
   const appStoreLink = 'https://apps.apple.com/app/snapchat/id447188370';
   const playStoreLink = 'https://play.google.com/store/apps/details?id=com.snapchat.android';
@@ -382,59 +384,71 @@ export function handleSnapchatLink(snapchatUri: string): void {
     // dan is de app waarschijnlijk niet geïnstalleerd
     if (Date.now() - now < timeoutDuration + 100) {
       // Toon een melding en bied de mogelijkheid om Snapchat te downloaden
-      if (confirm(t.messages.snapchatRequired)) {
+      if (confirm(t('popup.messages.snapchatRequired'))) {
         window.location.href = storeLink;
       }
     }
   }, timeoutDuration);
 }
 
-// Helper function to convert hex to rgba for more stable gradients
-function hexToRgba(hex: string, alpha: number = 1): string {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  if (result) {
-    const r = parseInt(result[1], 16);
-    const g = parseInt(result[2], 16);
-    const b = parseInt(result[3], 16);
-    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+/**
+ * Describe the current opening status, e.g. "Nu open · Sluit om 17:30"
+ */
+function formatOpeningStatus(hours: OpeningHours): string {
+  const status = getOpeningStatus(hours);
+
+  if (status.state === 'open') {
+    const closesAt = status.closesAt !== undefined ? formatMinutes(status.closesAt) : null;
+    return closesAt
+      ? `${t('openingHours.openNow')} · ${t('openingHours.closesAt', { time: closesAt })}`
+      : t('openingHours.openNow');
+  }
+
+  if (status.state === 'closed' && status.nextOpening) {
+    const { dayOffset, day, time } = status.nextOpening;
+    const params = {
+      day: t(`openingHours.days.${day}`).toLowerCase(),
+      time: formatMinutes(time),
+    };
+
+    let opens = t('openingHours.opensOn', params);
+    if (dayOffset === 0) opens = t('openingHours.opensToday', params);
+    if (dayOffset === 1) opens = t('openingHours.opensTomorrow', params);
+    return `${t('openingHours.closed')} · ${opens}`;
   }
-  // Fallback to transparent
-  return `rgba(0, 0, 0, 0)`;
+
+  return status.state === 'closed' ? t('openingHours.closed') : '';
 }
 
 /**
  * Generate opening hours HTML if data is available
  */
 function generateOpeningHours(properties: any): string {
-  const days = [
-    { key: 'maandag', label: 'Maandag' },
-    { key: 'dinsdag', label: 'Dinsdag' },
-    { key: 'woensdag', label: 'Woensdag' },
-    { key: 'donderdag', label: 'Donderdag' },
-    { key: 'vrijdag', label: 'Vrijdag' },
-    { key: 'zaterdag', label: 'Zaterdag' },
-    { key: 'zondag', label: 'Zondag' },
-  ];
-
-  // Check if any opening hours data exists
-  const hasOpeningHours = days.some((day) => properties[day.key] && properties[day.key].trim() !== '');
+  const hours = parseOpeningHours(properties);
 
-  if (!hasOpeningHours) {
+  if (!hours.hasData) {
     return '';
   }
 
+  const today = getWeekdayKey(new Date());
+  const status = getOpeningStatus(hours);
+  const statusText = formatOpeningStatus(hours);
+
   // Generate the opening hours HTML
   let html = '<div class="popup-opening-hours">';
-  html += '<h4 class="opening-hours-title">Openingstijden</h4>';
+  html += `<h4 class="opening-hours-title">${t('openingHours.title')}</h4>`;
+  if (statusText) {
+    html += `<div class="opening-hours-status is-${status.state}">${statusText}</div>`;
+  }
   html += '<div class="opening-hours-fade-top"></div>';
   html += '<div class="opening-hours-list">';
 
-  days.forEach((day) => {
-    const hours = properties[day.key];
-    if (hours && hours.trim() !== '') {
-      html += `<div class="opening-hours-row">`;
-      html += `<span class="day-label">${day.label}:</span>`;
-      html += `<span class="hours-value">${hours}</span>`;
+  WEEKDAY_KEYS.forEach((day) => {
+    const { raw } = hours.days[day];
+    if (raw !== '') {
+      html += `<div class="opening-hours-row${day === today ? ' is-today' : ''}">`;
+      html += `<span class="day-label">${t(`openingHours.days.${day}`)}:</span>`;
+      html += `<span class="hours-value">${escapeHTML(raw)}</span>`;
       html += `</div>`;
     }
   });
@@ -446,257 +460,105 @@ function generateOpeningHours(properties: any): string {
   return html;
 }
 
-export function createPopupContent(properties: any, coordinates?: [number, number]): { styles: string; html: string } {
+/**
+ * Fill the popup template of a location; the markup lives in popupTemplates.ts
+ */
+export function createPopupContent(properties: any, coordinates?: [number, number]): string {
   const isAR = properties.type === 'ar';
-  const lang = detectLanguage();
-  const t = popupTranslations[lang];
-
-  // Common styles
-  const styles = `
-    <style>
-      .popup-side {
-        background-color: ${properties.color || '#6B46C1'};
-        clip-path: polygon(calc(100% - 0px) 26.5px, calc(100% - 0px) calc(100% - 26.5px), calc(100% - 0px) calc(100% - 26.5px), calc(100% - 0.34671999999995px) calc(100% - 22.20048px), calc(100% - 1.3505599999999px) calc(100% - 18.12224px), calc(100% - 2.95704px) calc(100% - 14.31976px), calc(100% - 5.11168px) calc(100% - 10.84752px), calc(100% - 7.76px) calc(100% - 7.76px), calc(100% - 10.84752px) calc(100% - 5.11168px), calc(100% - 14.31976px) calc(100% - 2.9570399999999px), calc(100% - 18.12224px) calc(100% - 1.35056px), calc(100% - 22.20048px) calc(100% - 0.34672px), calc(100% - 26.5px) calc(100% - 0px), calc(50% - -32.6px) calc(100% - 0px), calc(50% - -32.6px) calc(100% - 0px), calc(50% - -31.57121px) calc(100% - 0.057139999999947px), calc(50% - -30.56648px) calc(100% - 0.2255199999999px), calc(50% - -29.59427px) calc(100% - 0.50057999999996px), calc(50% - -28.66304px) calc(100% - 0.87775999999991px), calc(50% - -27.78125px) calc(100% - 1.3525px), calc(50% - -26.95736px) calc(100% - 1.92024px), calc(50% - -26.19983px) calc(100% - 2.57642px), calc(50% - -25.51712px) calc(100% - 3.31648px), calc(50% - -24.91769px) calc(100% - 4.13586px), calc(50% - -24.41px) calc(100% - 5.03px), calc(50% - -24.41px) calc(100% - 5.03px), calc(50% - -22.95654px) calc(100% - 7.6045699999999px), calc(50% - -21.23752px) calc(100% - 9.9929599999998px), calc(50% - -19.27298px) calc(100% - 12.17519px), calc(50% - -17.08296px) calc(100% - 14.13128px), calc(50% - -14.6875px) calc(100% - 15.84125px), calc(50% - -12.10664px) calc(100% - 17.28512px), calc(50% - -9.36042px) calc(100% - 18.44291px), calc(50% - -6.46888px) calc(100% - 19.29464px), calc(50% - -3.45206px) calc(100% - 19.82033px), calc(50% - -0.32999999999998px) calc(100% - 20px), calc(50% - -0.32999999999998px) calc(100% - 20px), calc(50% - 2.79179px) calc(100% - 19.82033px), calc(50% - 5.8079199999999px) calc(100% - 19.29464px), calc(50% - 8.69853px) calc(100% - 18.44291px), calc(50% - 11.44376px) calc(100% - 17.28512px), calc(50% - 14.02375px) calc(100% - 15.84125px), calc(50% - 16.41864px) calc(100% - 14.13128px), calc(50% - 18.60857px) calc(100% - 12.17519px), calc(50% - 20.57368px) calc(100% - 9.9929599999999px), calc(50% - 22.29411px) calc(100% - 7.60457px), calc(50% - 23.75px) calc(100% - 5.03px), calc(50% - 23.75px) calc(100% - 5.03px), calc(50% - 24.25769px) calc(100% - 4.1358599999999px), calc(50% - 24.85712px) calc(100% - 3.3164799999998px), calc(50% - 25.53983px) calc(100% - 2.57642px), calc(50% - 26.29736px) calc(100% - 1.92024px), calc(50% - 27.12125px) calc(100% - 1.3525px), calc(50% - 28.00304px) calc(100% - 0.87775999999997px), calc(50% - 28.93427px) calc(100% - 0.50057999999996px), calc(50% - 29.90648px) calc(100% - 0.22552000000002px), calc(50% - 30.91121px) calc(100% - 0.057140000000004px), calc(50% - 31.94px) calc(100% - 0px), 26.5px calc(100% - 0px), 26.5px calc(100% - 0px), 22.20048px calc(100% - 0.34671999999989px), 18.12224px calc(100% - 1.3505599999999px), 14.31976px calc(100% - 2.95704px), 10.84752px calc(100% - 5.1116799999999px), 7.76px calc(100% - 7.76px), 5.11168px calc(100% - 10.84752px), 2.95704px calc(100% - 14.31976px), 1.35056px calc(100% - 18.12224px), 0.34672px calc(100% - 22.20048px), 4.3855735949631E-31px calc(100% - 26.5px), 0px 26.5px, 0px 26.5px, 0.34672px 22.20048px, 1.35056px 18.12224px, 2.95704px 14.31976px, 5.11168px 10.84752px, 7.76px 7.76px, 10.84752px 5.11168px, 14.31976px 2.95704px, 18.12224px 1.35056px, 22.20048px 0.34672px, 26.5px 4.3855735949631E-31px, calc(50% - 26.74px) 0px, calc(50% - 26.74px) 0px, calc(50% - 25.31263px) 0.07137px, calc(50% - 23.91544px) 0.28176px, calc(50% - 22.55581px) 0.62559px, calc(50% - 21.24112px) 1.09728px, calc(50% - 19.97875px) 1.69125px, calc(50% - 18.77608px) 2.40192px, calc(50% - 17.64049px) 3.22371px, calc(50% - 16.57936px) 4.15104px, calc(50% - 15.60007px) 5.17833px, calc(50% - 14.71px) 6.3px, calc(50% - 14.71px) 6.3px, calc(50% - 13.6371px) 7.64798px, calc(50% - 12.446px) 8.89024px, calc(50% - 11.1451px) 10.01826px, calc(50% - 9.7428px) 11.02352px, calc(50% - 8.2475px) 11.8975px, calc(50% - 6.6676px) 12.63168px, calc(50% - 5.0115px) 13.21754px, calc(50% - 3.2876px) 13.64656px, calc(50% - 1.5043px) 13.91022px, calc(50% - -0.32999999999996px) 14px, calc(50% - -0.32999999999998px) 14px, calc(50% - -2.16431px) 13.9105px, calc(50% - -3.94768px) 13.6476px, calc(50% - -5.67177px) 13.2197px, calc(50% - -7.32824px) 12.6352px, calc(50% - -8.90875px) 11.9025px, calc(50% - -10.40496px) 11.03px, calc(50% - -11.80853px) 10.0261px, calc(50% - -13.11112px) 8.8992px, calc(50% - -14.30439px) 7.6577px, calc(50% - -15.38px) 6.31px, calc(50% - -15.38px) 6.31px, calc(50% - -16.27279px) 5.18562px, calc(50% - -17.25432px) 4.15616px, calc(50% - -18.31733px) 3.22714px, calc(50% - -19.45456px) 2.40408px, calc(50% - -20.65875px) 1.6925px, calc(50% - -21.92264px) 1.09792px, calc(50% - -23.23897px) 0.62586px, calc(50% - -24.60048px) 0.28184px, calc(50% - -25.99991px) 0.07138px, calc(50% - -27.43px) 8.9116630386686E-32px, calc(100% - 26.5px) 0px, calc(100% - 26.5px) 0px, calc(100% - 22.20048px) 0.34672px, calc(100% - 18.12224px) 1.35056px, calc(100% - 14.31976px) 2.95704px, calc(100% - 10.84752px) 5.11168px, calc(100% - 7.76px) 7.76px, calc(100% - 5.11168px) 10.84752px, calc(100% - 2.9570399999999px) 14.31976px, calc(100% - 1.35056px) 18.12224px, calc(100% - 0.34671999999995px) 22.20048px, calc(100% - 5.6843418860808E-14px) 26.5px);
-      }
-       
-    
-.fade-bottom {
-  position: absolute;
-  bottom: 0;
-  left: 0;
-  right: 0;
-  height: 3.5em;
-  /* Gebruik dezelfde kleur als de popup maar met transparantie */
-  background: linear-gradient(to top, ${properties.color ? hexToRgba(properties.color, 1) : 'transparent'} 0%, transparent 100%);
-  pointer-events: none;
-  z-index: 10;
-  transition: opacity 0.3s ease;
-}
-
-.popup-side.ar .fade-bottom {
-  background: linear-gradient(to top, ${hexToRgba(properties.arkleur || '#fff200', 1)} 0%, ${hexToRgba(properties.arkleur || '#fff200', 0)} 100%);
-}
-
-/* CSS voor de top fade gradient */
-.fade-top {
-  position: absolute;
-  top: -0.5em;
-  left: 0;
-  right: 0;
-  height: 3.5em;
-  /* Gespiegelde gradient vergeleken met de bottom fade */
-  background: linear-gradient(to bottom, ${properties.color ? hexToRgba(properties.color, 1) : 'transparent'} 0%, transparent 100%);
-  pointer-events: none;
-  z-index: 10;
-  transition: opacity 0.3s ease;
-}
-
-/* Voor AR-popups een aparte styling */
-.popup-side.ar .fade-top {
-  background: linear-gradient(to bottom, ${hexToRgba(properties.arkleur || '#fff200', 1)} 0%, ${hexToRgba(properties.arkleur || '#fff200', 0)} 100%);
-}
 
-    .close-button {
-      background: ${properties.color || '#6B46C1'};
-    }
-    
-    /* Stijlen voor AR popup - met zwarte tekst */
-    .popup-side.ar {
-      background-color: ${properties.arkleur || '#fff200'};
-      color: #000000;
-    }
-    
-    .close-button.ar {
-      background: ${properties.arkleur || '#fff200'};
-    }
-    
-    /* Kleur aanpassingen voor AR elementen */
-    .popup-side.ar .popup-title {
-      color: #000000;
-    }
-    
-    .popup-side.ar .popup-description {
-      color: #000000;
-    }
-    
-    /* Knoppen in AR popup */
-    .popup-side.ar .button-base {
-      color: #000000;
-      border-color: #000000;
-    }
-    
-    /* Styling voor achterkant van de popup */
-    .popup-side.ar.popup-back {
-      color: #000000;
-      background-color: ${properties.arkleur || '#fff200'};
-    }
-    
-    /* Zwarte tekst in AR popup details */
-    .popup-side.ar .popup-title.details {
-      color: #000000;
-    }
-    
-    /* Maak ook de 'X' in de sluitknop zwart */
-    .close-button.ar::before,
-    .close-button.ar::after {
-      background-color: #000000;
-    }
-    
-    ${
-      isAR
-        ? `
-      .ar-button {
-        border: 2px solid black;
-        font-weight: bold;
-        color: #000000;
-      }
-      .ar-description {
-        font-size: 0.9em;
-        margin-top: 10px;
-        color: #000000;
-      }
-    `
-        : ''
-    }
-  </style>
-  `;
+  // CMS values are escaped or checked once here, so they can't break out of the markup
+  const color = isAR
+    ? sanitizeColor(properties.arkleur, '#fff200')
+    : sanitizeColor(properties.color, '#6B46C1');
+  // The first photo is the background; with any photo there is an impression carousel
+  const [firstImage] = getLocationImages(properties);
+  const image = escapeHTML(sanitizeUrl(firstImage?.url, WEB_PROTOCOLS));
+  const key = getLocationKey(properties);
+
+  const slots = {
+    style: escapeHTML(getPopupStyle(color)),
+    closeLabel: t('popup.aria.closePopup'),
+    name: escapeHTML(properties.name),
+    description: sanitizeHTML(properties.description),
+    backgroundImage: image ? renderPopupTemplate('backgroundImage', { src: image }) : '',
+    favoriteButton: key
+      ? renderPopupTemplate('favoriteButton', {
+          key: escapeHTML(key),
+          pressed: String(isFavorite(key)),
+          label: t('favorites.button'),
+          icon: POPUP_ICONS.heart,
+        })
+      : '',
+  };
 
-  // Different HTML structure for AR vs regular locations
   if (isAR) {
-    return {
-      styles,
-      html: `
-      <div class="popup-wrapper">
-        <button class="close-button ar" aria-label="${t.aria.closePopup}"></button>
-        <div class="popup-side ar popup-front">
-          <svg class="popup-border-overlay" viewBox="0 0 364.22 252" preserveAspectRatio="xMidYMid slice" fill="none" xmlns="http://www.w3.org/2000/svg">
-<path d="M0 227.13V240.82C0 246.99 5 252 11.18 252H19.2C25.38 252 30.38 246.99 30.38 240.82C30.38 246.99 35.4 252 41.56 252H49.6C55.75 252 60.75 247.01 60.76 240.85C60.79 247.01 65.79 252 71.94 252H79.98C86.15 252 91.16 246.99 91.16 240.82C91.16 246.99 96.16 252 102.34 252H110.36C116.53 252 121.53 247.01 121.54 240.84C121.55 247.01 126.55 252 132.72 252H140.74C146.35 252 150.99 247.87 151.79 242.48C152.6 247.87 157.24 252 162.85 252H170.87C177.04 252 182.04 247 182.05 240.84C182.06 247 187.06 252 193.23 252H201.25C207.03 252 211.78 247.62 212.36 242C212.95 247.62 217.7 252 223.48 252H231.5C237.68 252 242.68 246.99 242.68 240.82C242.68 246.99 247.69 252 253.86 252H261.89C268.05 252 273.05 247.01 273.06 240.85C273.08 247.01 278.08 252 284.24 252H292.27C298.44 252 303.45 246.99 303.45 240.82C303.45 246.99 308.46 252 314.63 252H322.66C328.82 252 333.82 247.01 333.83 240.84C333.85 247.01 338.85 252 345.01 252H353.04C359.21 252 364.22 246.99 364.22 240.82V227.13C364.22 220.95 359.21 215.95 353.04 215.95C359.21 215.95 364.22 210.94 364.22 204.77V191.07C364.22 184.9 359.21 179.89 353.04 179.89C359.21 179.89 364.22 174.89 364.22 168.71V155.02C364.22 149.52 360.25 144.96 355.02 144.03C360.25 143.09 364.22 138.53 364.22 133.03V119.34C364.22 113.17 359.22 108.17 353.06 108.16C359.22 108.16 364.22 103.15 364.22 96.98V83.29C364.22 77.11 359.21 72.11 353.04 72.11C359.21 72.11 364.22 67.1 364.22 60.93V47.23C364.22 41.06 359.21 36.05 353.04 36.05C359.21 36.05 364.22 31.05 364.22 24.87V11.18C364.22 5.01 359.21 0 353.04 0H345.01C338.85 0 333.85 4.99 333.83 11.16C333.82 4.99 328.82 0 322.66 0H314.63C308.46 0 303.45 5.01 303.45 11.18C303.45 5.01 298.44 0 292.27 0H284.24C278.08 0 273.08 4.99 273.06 11.16C273.05 4.99 268.05 0 261.89 0H253.86C247.69 0 242.68 5.01 242.68 11.18C242.68 5.01 237.68 0 231.5 0H223.48C217.7 0 212.95 4.38 212.36 10C211.78 4.38 207.03 0 201.25 0H193.23C187.06 0 182.06 5 182.05 11.16C182.04 5 177.04 0 170.87 0H162.85C157.24 0 152.6 4.13 151.79 9.52C150.99 4.13 146.35 0 140.74 0H132.72C126.55 0 121.55 4.99 121.54 11.16C121.53 4.99 116.53 0 110.36 0H102.34C96.16 0 91.16 5.01 91.16 11.18C91.16 5.01 86.15 0 79.98 0H71.94C65.79 0 60.79 4.99 60.76 11.16C60.75 4.99 55.75 0 49.6 0H41.56C35.4 0 30.38 5.01 30.38 11.18C30.38 5.01 25.38 0 19.2 0H11.18C5 0 0 5.01 0 11.18V24.87C0 31.05 5 36.05 11.18 36.05C5 36.05 0 41.06 0 47.23V60.93C0 67.1 5 72.11 11.18 72.11C5 72.11 0 77.11 0 83.29V96.98C0 103.15 4.99 108.15 11.16 108.16C4.99 108.17 0 113.17 0 119.34V133.03C0 138.53 3.97 143.09 9.19 144.03C3.97 144.96 0 149.52 0 155.02V168.71C0 174.89 5 179.89 11.18 179.89C5 179.89 0 184.9 0 191.07V204.77C0 210.94 5 215.95 11.18 215.95C5 215.95 0 220.95 0 227.13ZM333.83 24.89C333.85 31.06 338.85 36.05 345.01 36.05C338.85 36.05 333.85 41.05 333.83 47.21C333.82 41.05 328.82 36.05 322.66 36.05C328.82 36.05 333.82 31.06 333.83 24.89ZM333.83 60.95C333.85 67.11 338.85 72.11 345.01 72.11C338.85 72.11 333.85 77.1 333.83 83.27C333.82 77.1 328.82 72.11 322.66 72.11C328.82 72.11 333.82 67.11 333.83 60.95ZM333.83 119.32C333.82 113.16 328.83 108.17 322.68 108.16C328.83 108.16 333.82 103.16 333.83 97C333.85 103.16 338.83 108.15 344.99 108.16C338.83 108.17 333.85 113.16 333.83 119.32ZM343.03 144.03C337.81 144.96 333.84 149.51 333.83 155C333.82 149.51 329.86 144.96 324.64 144.03C329.86 143.09 333.82 138.54 333.83 133.05C333.83 138.54 337.81 143.09 343.03 144.03ZM333.83 168.73C333.85 174.9 338.85 179.89 345.01 179.89C338.85 179.89 333.85 184.89 333.83 191.05C333.82 184.89 328.82 179.89 322.66 179.89C328.82 179.89 333.82 174.9 333.83 168.73ZM333.83 204.79C333.85 210.95 338.85 215.95 345.01 215.95C338.85 215.95 333.85 220.94 333.83 227.11C333.82 220.94 328.82 215.95 322.66 215.95C328.82 215.95 333.82 210.95 333.83 204.79ZM303.45 24.87C303.45 31.05 308.46 36.05 314.63 36.05C308.46 36.05 303.45 41.06 303.45 47.23C303.45 41.06 298.44 36.05 292.27 36.05C298.44 36.05 303.45 31.05 303.45 24.87ZM303.45 60.93C303.45 67.1 308.46 72.11 314.63 72.11C308.46 72.11 303.45 77.11 303.45 83.29C303.45 77.11 298.44 72.11 292.27 72.11C298.44 72.11 303.45 67.1 303.45 60.93ZM303.45 119.34C303.45 113.17 298.45 108.17 292.29 108.16C298.45 108.16 303.45 103.15 303.45 96.98C303.45 103.15 308.45 108.15 314.61 108.16C308.45 108.17 303.45 113.17 303.45 119.34ZM312.64 144.03C307.42 144.96 303.45 149.52 303.45 155.02C303.45 149.52 299.48 144.96 294.25 144.03C299.48 143.09 303.45 138.53 303.45 133.03C303.45 138.53 307.42 143.09 312.64 144.03ZM303.45 168.71C303.45 174.89 308.46 179.89 314.63 179.89C308.46 179.89 303.45 184.9 303.45 191.07C303.45 184.9 298.44 179.89 292.27 179.89C298.44 179.89 303.45 174.89 303.45 168.71ZM303.45 204.77C303.45 210.94 308.46 215.95 314.63 215.95C308.46 215.95 303.45 220.95 303.45 227.13C303.45 220.95 298.44 215.95 292.27 215.95C298.44 215.95 303.45 210.94 303.45 204.77ZM273.06 24.9C273.08 31.06 278.08 36.05 284.24 36.05C278.08 36.05 273.08 41.05 273.06 47.21C273.05 41.05 268.05 36.05 261.89 36.05C268.05 36.05 273.05 31.06 273.06 24.9ZM273.06 60.95C273.08 67.11 278.08 72.11 284.24 72.11C278.08 72.11 273.08 77.1 273.06 83.26C273.05 77.1 268.05 72.11 261.89 72.11C268.05 72.11 273.05 67.11 273.06 60.95ZM273.06 119.31C273.05 113.16 268.06 108.17 261.91 108.16C268.06 108.16 273.05 103.16 273.06 97.01C273.08 103.16 278.07 108.15 284.22 108.16C278.07 108.17 273.08 113.16 273.06 119.31ZM282.26 144.03C277.04 144.96 273.08 149.51 273.06 154.99C273.05 149.51 269.09 144.96 263.87 144.03C269.09 143.09 273.05 138.54 273.06 133.06C273.08 138.54 277.04 143.09 282.26 144.03ZM273.06 168.74C273.08 174.9 278.08 179.89 284.24 179.89C278.08 179.89 273.08 184.89 273.06 191.05C273.05 184.89 268.05 179.89 261.89 179.89C268.05 179.89 273.05 174.9 273.06 168.74ZM273.06 204.79C273.08 210.95 278.08 215.95 284.24 215.95C278.08 215.95 273.08 220.94 273.06 227.1C273.05 220.94 268.05 215.95 261.89 215.95C268.05 215.95 273.05 210.95 273.06 204.79ZM242.68 24.87C242.68 31.05 247.69 36.05 253.86 36.05C247.69 36.05 242.68 41.06 242.68 47.23C242.68 41.06 237.68 36.05 231.5 36.05C237.68 36.05 242.68 31.05 242.68 24.87ZM242.68 60.93C242.68 67.1 247.69 72.11 253.86 72.11C247.69 72.11 242.68 77.11 242.68 83.29C242.68 77.11 237.68 72.11 231.5 72.11C237.68 72.11 242.68 67.1 242.68 60.93ZM242.68 119.34C242.68 113.17 237.69 108.17 231.52 108.16C237.69 108.16 242.68 103.15 242.68 96.98C242.68 103.15 247.68 108.15 253.84 108.16C247.68 108.17 242.68 113.17 242.68 119.34ZM251.87 144.03C246.65 144.96 242.68 149.52 242.68 155.02C242.68 149.52 238.71 144.96 233.49 144.03C238.71 143.09 242.68 138.53 242.68 133.03C242.68 138.53 246.65 143.09 251.87 144.03ZM242.68 168.71C242.68 174.89 247.69 179.89 253.86 179.89C247.69 179.89 242.68 184.9 242.68 191.07C242.68 184.9 237.68 179.89 231.5 179.89C237.68 179.89 242.68 174.89 242.68 168.71ZM242.68 204.77C242.68 210.94 247.69 215.95 253.86 215.95C247.69 215.95 242.68 220.95 242.68 227.13C242.68 220.95 237.68 215.95 231.5 215.95C237.68 215.95 242.68 210.94 242.68 204.77ZM212.36 26.05C212.95 31.68 217.7 36.05 223.48 36.05C217.7 36.05 212.95 40.43 212.36 46.05C211.78 40.43 207.03 36.05 201.25 36.05C207.03 36.05 211.78 31.68 212.36 26.05ZM212.36 62.11C212.95 67.73 217.7 72.11 223.48 72.11C217.7 72.11 212.95 76.48 212.36 82.11C211.78 76.48 207.03 72.11 201.25 72.11C207.03 72.11 211.78 67.73 212.36 62.11ZM212.36 118.16C211.78 112.54 207.04 108.17 201.28 108.16C207.04 108.16 211.78 103.78 212.36 98.16C212.95 103.78 217.69 108.15 223.46 108.16C217.69 108.17 212.95 112.54 212.36 118.16ZM221.49 144.03C216.64 144.89 212.88 148.88 212.36 153.85C211.86 148.88 208.1 144.89 203.24 144.03C208.1 143.16 211.86 139.17 212.36 134.2C212.88 139.17 216.64 143.16 221.49 144.03ZM212.36 169.89C212.95 175.52 217.7 179.89 223.48 179.89C217.7 179.89 212.95 184.27 212.36 189.89C211.78 184.27 207.03 179.89 201.25 179.89C207.03 179.89 211.78 175.52 212.36 169.89ZM212.36 205.95C212.95 211.57 217.7 215.95 223.48 215.95C217.7 215.95 212.95 220.32 212.36 225.95C211.78 220.32 207.03 215.95 201.25 215.95C207.03 215.95 211.78 211.57 212.36 205.95ZM182.05 24.89C182.06 31.06 187.06 36.05 193.23 36.05C187.06 36.05 182.06 41.05 182.05 47.22C182.04 41.05 177.04 36.05 170.87 36.05C177.04 36.05 182.04 31.06 182.05 24.89ZM182.05 60.95C182.06 67.11 187.06 72.11 193.23 72.11C187.06 72.11 182.06 77.1 182.05 83.27C182.04 77.1 177.04 72.11 170.87 72.11C177.04 72.11 182.04 67.11 182.05 60.95ZM182.05 119.32C182.04 113.16 177.05 108.17 170.9 108.16C177.05 108.16 182.04 103.16 182.05 97C182.06 103.16 187.05 108.15 193.22 108.16C187.05 108.17 182.06 113.16 182.05 119.32ZM191.24 144.03C186.03 144.96 182.06 149.51 182.05 155C182.04 149.51 178.09 144.96 172.86 144.03C178.09 143.09 182.04 138.54 182.05 133.05C182.06 138.54 186.03 143.09 191.24 144.03ZM182.05 168.73C182.06 174.9 187.06 179.89 193.23 179.89C187.06 179.89 182.06 184.89 182.05 191.05C182.04 184.89 177.04 179.89 170.87 179.89C177.04 179.89 182.04 174.9 182.05 168.73ZM182.05 204.79C182.06 210.95 187.06 215.95 193.23 215.95C187.06 215.95 182.06 220.94 182.05 227.11C182.04 220.94 177.04 215.95 170.87 215.95C177.04 215.95 182.04 210.95 182.05 204.79ZM151.79 26.53C152.6 31.92 157.24 36.05 162.85 36.05C157.24 36.05 152.6 40.18 151.79 45.57C150.99 40.18 146.35 36.05 140.74 36.05C146.35 36.05 150.99 31.92 151.79 26.53ZM151.79 62.59C152.6 67.98 157.24 72.11 162.85 72.11C157.24 72.11 152.6 76.24 151.79 81.63C150.99 76.24 146.35 72.11 140.74 72.11C146.35 72.11 150.99 67.98 151.79 62.59ZM151.79 117.68C151 112.3 146.36 108.17 140.76 108.16C146.36 108.16 151 104.02 151.79 98.64C152.6 104.02 157.23 108.15 162.84 108.16C157.23 108.17 152.6 112.3 151.79 117.68ZM160.86 144.03C156.18 144.86 152.5 148.62 151.79 153.35C151.1 148.62 147.41 144.86 142.73 144.03C147.41 143.19 151.1 139.43 151.79 134.7C152.5 139.43 156.18 143.19 160.86 144.03ZM151.79 170.37C152.6 175.76 157.24 179.89 162.85 179.89C157.24 179.89 152.6 184.02 151.79 189.41C150.99 184.02 146.35 179.89 140.74 179.89C146.35 179.89 150.99 175.76 151.79 170.37ZM151.79 206.43C152.6 211.82 157.24 215.95 162.85 215.95C157.24 215.95 152.6 220.08 151.79 225.47C150.99 220.08 146.35 215.95 140.74 215.95C146.35 215.95 150.99 211.82 151.79 206.43ZM121.54 24.89C121.55 31.06 126.55 36.05 132.72 36.05C126.55 36.05 121.55 41.05 121.54 47.21C121.53 41.05 116.53 36.05 110.36 36.05C116.53 36.05 121.53 31.06 121.54 24.89ZM121.54 60.95C121.55 67.11 126.55 72.11 132.72 72.11C126.55 72.11 121.55 77.1 121.54 83.27C121.53 77.1 116.53 72.11 110.36 72.11C116.53 72.11 121.53 67.11 121.54 60.95ZM121.54 119.32C121.53 113.16 116.54 108.17 110.38 108.16C116.54 108.16 121.53 103.16 121.54 97C121.55 103.16 126.54 108.15 132.69 108.16C126.54 108.17 121.55 113.16 121.54 119.32ZM130.73 144.03C125.51 144.96 121.54 149.51 121.54 155C121.53 149.51 117.56 144.96 112.35 144.03C117.56 143.09 121.53 138.54 121.54 133.05C121.54 138.54 125.51 143.09 130.73 144.03ZM121.54 168.73C121.55 174.9 126.55 179.89 132.72 179.89C126.55 179.89 121.55 184.89 121.54 191.05C121.53 184.89 116.53 179.89 110.36 179.89C116.53 179.89 121.53 174.9 121.54 168.73ZM121.54 204.79C121.55 210.95 126.55 215.95 132.72 215.95C126.55 215.95 121.55 220.94 121.54 227.11C121.53 220.94 116.53 215.95 110.36 215.95C116.53 215.95 121.53 210.95 121.54 204.79ZM91.16 24.87C91.16 31.05 96.16 36.05 102.34 36.05C96.16 36.05 91.16 41.06 91.16 47.23C91.16 41.06 86.15 36.05 79.98 36.05C86.15 36.05 91.16 31.05 91.16 24.87ZM91.16 60.93C91.16 67.1 96.16 72.11 102.34 72.11C96.16 72.11 91.16 77.11 91.16 83.29C91.16 77.11 86.15 72.11 79.98 72.11C86.15 72.11 91.16 67.1 91.16 60.93ZM91.16 119.34C91.16 113.17 86.16 108.17 79.99 108.16C86.16 108.16 91.16 103.15 91.16 96.98C91.16 103.15 96.16 108.15 102.31 108.16C96.16 108.17 91.16 113.17 91.16 119.34ZM100.35 144.03C95.12 144.96 91.16 149.52 91.16 155.02C91.16 149.52 87.18 144.96 81.95 144.03C87.18 143.09 91.16 138.53 91.16 133.03C91.16 138.53 95.12 143.09 100.35 144.03ZM91.16 168.71C91.16 174.89 96.16 179.89 102.34 179.89C96.16 179.89 91.16 184.9 91.16 191.07C91.16 184.9 86.15 179.89 79.98 179.89C86.15 179.89 91.16 174.89 91.16 168.71ZM91.16 204.77C91.16 210.94 96.16 215.95 102.34 215.95C96.16 215.95 91.16 220.95 91.16 227.13C91.16 220.95 86.15 215.95 79.98 215.95C86.15 215.95 91.16 210.94 91.16 204.77ZM60.76 24.9C60.79 31.06 65.79 36.05 71.94 36.05C65.79 36.05 60.79 41.05 60.76 47.21C60.75 41.05 55.75 36.05 49.6 36.05C55.75 36.05 60.75 31.06 60.76 24.9ZM60.76 60.95C60.79 67.11 65.79 72.11 71.94 72.11C65.79 72.11 60.79 77.1 60.76 83.26C60.75 77.1 55.75 72.11 49.6 72.11C55.75 72.11 60.75 67.11 60.76 60.95ZM60.76 119.31C60.75 113.16 55.76 108.17 49.61 108.16C55.76 108.16 60.75 103.16 60.76 97.01C60.79 103.16 65.78 108.15 71.92 108.16C65.78 108.17 60.79 113.16 60.76 119.31ZM69.97 144.03C64.74 144.96 60.79 149.51 60.76 154.99C60.75 149.51 56.79 144.96 51.57 144.03C56.79 143.09 60.75 138.54 60.76 133.06C60.79 138.54 64.74 143.09 69.97 144.03ZM60.76 168.74C60.79 174.9 65.79 179.89 71.94 179.89C65.79 179.89 60.79 184.89 60.76 191.05C60.75 184.89 55.75 179.89 49.6 179.89C55.75 179.89 60.75 174.9 60.76 168.74ZM60.76 204.79C60.79 210.95 65.79 215.95 71.94 215.95C65.79 215.95 60.79 220.94 60.76 227.1C60.75 220.94 55.75 215.95 49.6 215.95C55.75 215.95 60.75 210.95 60.76 204.79ZM30.38 24.87C30.38 31.05 35.4 36.05 41.56 36.05C35.4 36.05 30.38 41.06 30.38 47.23C30.38 41.06 25.38 36.05 19.2 36.05C25.38 36.05 30.38 31.05 30.38 24.87ZM30.38 60.93C30.38 67.1 35.4 72.11 41.56 72.11C35.4 72.11 30.38 77.11 30.38 83.29C30.38 77.11 25.38 72.11 19.2 72.11C25.38 72.11 30.38 67.1 30.38 60.93ZM30.38 119.34C30.38 113.17 25.4 108.17 19.23 108.16C25.4 108.16 30.38 103.15 30.38 96.98C30.38 103.15 35.38 108.15 41.54 108.16C35.38 108.17 30.38 113.17 30.38 119.34ZM39.57 144.03C34.35 144.96 30.38 149.52 30.38 155.02C30.38 149.52 26.41 144.96 21.19 144.03C26.41 143.09 30.38 138.53 30.38 133.03C30.38 138.53 34.35 143.09 39.57 144.03ZM30.38 168.71C30.38 174.89 35.4 179.89 41.56 179.89C35.4 179.89 30.38 184.9 30.38 191.07C30.38 184.9 25.38 179.89 19.2 179.89C25.38 179.89 30.38 174.89 30.38 168.71ZM30.38 204.77C30.38 210.94 35.4 215.95 41.56 215.95C35.4 215.95 30.38 220.95 30.38 227.13C30.38 220.95 25.38 215.95 19.2 215.95C25.38 215.95 30.38 210.94 30.38 204.77Z" fill="url(#paint0_linear_3248_5)"/>
-              <defs>
-              <linearGradient id="paint0_linear_3248_5" x1="182.11" y1="0" x2="182.11" y2="252" gradientUnits="userSpaceOnUse">
-                <stop offset="0" stop-color="${properties.arkleur || '#fff200'}" stop-opacity="0" />
-                <stop offset="0.15" stop-color="${properties.arkleur || '#fff200'}" stop-opacity="0" />
-                <stop offset="0.45" stop-color="${properties.arkleur || '#fff200'}" stop-opacity="1" />
-                <stop offset="1" stop-color="${properties.arkleur || '#fff200'}" stop-opacity="1" />
-              </linearGradient>
-            </defs>
-          </svg>
-          ${properties.image ? `<img src="${properties.image}" class="popup-background-image" alt="">` : ''}
-          <div class="content-wrapper">
-            <div class="popup-title">${properties.name}</div>
-            <div class="popup-description-wrapper">
-              <div class="fade-top"></div>
-              <div class="popup-description">${properties.description}</div>
-              <div class="fade-bottom"></div>
-            </div>
-${properties.image ? createARButton(properties) : ''}
-            <button class="more-info-button button-base">${t.buttons.instruction}</button>
-          </div>
-        </div>
-        
-        <div class="popup-side ar popup-back">
-          <div class="content-wrapper">
-            <div class="popup-ar-instructie">${properties.instructie || t.messages.defaultARInstruction}</div>
-            <button class="more-info-button button-base">${t.buttons.back}</button>
-${createARButton(properties, 'impressie-button button-base')}
-          </div>
-        </div>
-      </div>
-      `,
-    };
+    return renderPopupTemplate('ar', {
+      ...slots,
+      frontActions: [
+        image ? createARButton(properties) : '',
+        renderPopupTemplate('button', {
+          className: 'more-info-button',
+          label: t('popup.buttons.instruction'),
+        }),
+      ].join(''),
+      instructions: properties.instructie
+        ? escapeHTML(properties.instructie)
+        : t('popup.messages.defaultARInstruction'),
+      backActions: [
+        renderPopupTemplate('button', {
+          className: 'more-info-button',
+          label: t('popup.buttons.back'),
+        }),
+        createARButton(properties, 'impressie-button button-base'),
+      ].join(''),
+    });
   }
-  // Regular location popup
-  return {
-    styles,
-    html: `
-        <div class="popup-wrapper">
-          <button class="close-button" aria-label="${t.aria.closePopup}"></button>
-          <div class="popup-side popup-front">
-            <svg class="popup-border-overlay" viewBox="0 0 364.22 252" preserveAspectRatio="xMidYMid slice" fill="none" xmlns="http://www.w3.org/2000/svg">
-<path d="M0 227.13V240.82C0 246.99 5 252 11.18 252H19.2C25.38 252 30.38 246.99 30.38 240.82C30.38 246.99 35.4 252 41.56 252H49.6C55.75 252 60.75 247.01 60.76 240.85C60.79 247.01 65.79 252 71.94 252H79.98C86.15 252 91.16 246.99 91.16 240.82C91.16 246.99 96.16 252 102.34 252H110.36C116.53 252 121.53 247.01 121.54 240.84C121.55 247.01 126.55 252 132.72 252H140.74C146.35 252 150.99 247.87 151.79 242.48C152.6 247.87 157.24 252 162.85 252H170.87C177.04 252 182.04 247 182.05 240.84C182.06 247 187.06 252 193.23 252H201.25C207.03 252 211.78 247.62 212.36 242C212.95 247.62 217.7 252 223.48 252H231.5C237.68 252 242.68 246.99 242.68 240.82C242.68 246.99 247.69 252 253.86 252H261.89C268.05 252 273.05 247.01 273.06 240.85C273.08 247.01 278.08 252 284.24 252H292.27C298.44 252 303.45 246.99 303.45 240.82C303.45 246.99 308.46 252 314.63 252H322.66C328.82 252 333.82 247.01 333.83 240.84C333.85 247.01 338.85 252 345.01 252H353.04C359.21 252 364.22 246.99 364.22 240.82V227.13C364.22 220.95 359.21 215.95 353.04 215.95C359.21 215.95 364.22 210.94 364.22 204.77V191.07C364.22 184.9 359.21 179.89 353.04 179.89C359.21 179.89 364.22 174.89 364.22 168.71V155.02C364.22 149.52 360.25 144.96 355.02 144.03C360.25 143.09 364.22 138.53 364.22 133.03V119.34C364.22 113.17 359.22 108.17 353.06 108.16C359.22 108.16 364.22 103.15 364.22 96.98V83.29C364.22 77.11 359.21 72.11 353.04 72.11C359.21 72.11 364.22 67.1 364.22 60.93V47.23C364.22 41.06 359.21 36.05 353.04 36.05C359.21 36.05 364.22 31.05 364.22 24.87V11.18C364.22 5.01 359.21 0 353.04 0H345.01C338.85 0 333.85 4.99 333.83 11.16C333.82 4.99 328.82 0 322.66 0H314.63C308.46 0 303.45 5.01 303.45 11.18C303.45 5.01 298.44 0 292.27 0H284.24C278.08 0 273.08 4.99 273.06 11.16C273.05 4.99 268.05 0 261.89 0H253.86C247.69 0 242.68 5.01 242.68 11.18C242.68 5.01 237.68 0 231.5 0H223.48C217.7 0 212.95 4.38 212.36 10C211.78 4.38 207.03 0 201.25 0H193.23C187.06 0 182.06 5 182.05 11.16C182.04 5 177.04 0 170.87 0H162.85C157.24 0 152.6 4.13 151.79 9.52C150.99 4.13 146.35 0 140.74 0H132.72C126.55 0 121.55 4.99 121.54 11.16C121.53 4.99 116.53 0 110.36 0H102.34C96.16 0 91.16 5.01 91.16 11.18C91.16 5.01 86.15 0 79.98 0H71.94C65.79 0 60.79 4.99 60.76 11.16C60.75 4.99 55.75 0 49.6 0H41.56C35.4 0 30.38 5.01 30.38 11.18C30.38 5.01 25.38 0 19.2 0H11.18C5 0 0 5.01 0 11.18V24.87C0 31.05 5 36.05 11.18 36.05C5 36.05 0 41.06 0 47.23V60.93C0 67.1 5 72.11 11.18 72.11C5 72.11 0 77.11 0 83.29V96.98C0 103.15 4.99 108.15 11.16 108.16C4.99 108.17 0 113.17 0 119.34V133.03C0 138.53 3.97 143.09 9.19 144.03C3.97 144.96 0 149.52 0 155.02V168.71C0 174.89 5 179.89 11.18 179.89C5 179.89 0 184.9 0 191.07V204.77C0 210.94 5 215.95 11.18 215.95C5 215.95 0 220.95 0 227.13ZM333.83 24.89C333.85 31.06 338.85 36.05 345.01 36.05C338.85 36.05 333.85 41.05 333.83 47.21C333.82 41.05 328.82 36.05 322.66 36.05C328.82 36.05 333.82 31.06 333.83 24.89ZM333.83 60.95C333.85 67.11 338.85 72.11 345.01 72.11C338.85 72.11 333.85 77.1 333.83 83.27C333.82 77.1 328.82 72.11 322.66 72.11C328.82 72.11 333.82 67.11 333.83 60.95ZM333.83 119.32C333.82 113.16 328.83 108.17 322.68 108.16C328.83 108.16 333.82 103.16 333.83 97C333.85 103.16 338.83 108.15 344.99 108.16C338.83 108.17 333.85 113.16 333.83 119.32ZM343.03 144.03C337.81 144.96 333.84 149.51 333.83 155C333.82 149.51 329.86 144.96 324.64 144.03C329.86 143.09 333.82 138.54 333.83 133.05C333.83 138.54 337.81 143.09 343.03 144.03ZM333.83 168.73C333.85 174.9 338.85 179.89 345.01 179.89C338.85 179.89 333.85 184.89 333.83 191.05C333.82 184.89 328.82 179.89 322.66 179.89C328.82 179.89 333.82 174.9 333.83 168.73ZM333.83 204.79C333.85 210.95 338.85 215.95 345.01 215.95C338.85 215.95 333.85 220.94 333.83 227.11C333.82 220.94 328.82 215.95 322.66 215.95C328.82 215.95 333.82 210.95 333.83 204.79ZM303.45 24.87C303.45 31.05 308.46 36.05 314.63 36.05C308.46 36.05 303.45 41.06 303.45 47.23C303.45 41.06 298.44 36.05 292.27 36.05C298.44 36.05 303.45 31.05 303.45 24.87ZM303.45 60.93C303.45 67.1 308.46 72.11 314.63 72.11C308.46 72.11 303.45 77.11 303.45 83.29C303.45 77.11 298.44 72.11 292.27 72.11C298.44 72.11 303.45 67.1 303.45 60.93ZM303.45 119.34C303.45 113.17 298.45 108.17 292.29 108.16C298.45 108.16 303.45 103.15 303.45 96.98C303.45 103.15 308.45 108.15 314.61 108.16C308.45 108.17 303.45 113.17 303.45 119.34ZM312.64 144.03C307.42 144.96 303.45 149.52 303.45 155.02C303.45 149.52 299.48 144.96 294.25 144.03C299.48 143.09 303.45 138.53 303.45 133.03C303.45 138.53 307.42 143.09 312.64 144.03ZM303.45 168.71C303.45 174.89 308.46 179.89 314.63 179.89C308.46 179.89 303.45 184.9 303.45 191.07C303.45 184.9 298.44 179.89 292.27 179.89C298.44 179.89 303.45 174.89 303.45 168.71ZM303.45 204.77C303.45 210.94 308.46 215.95 314.63 215.95C308.46 215.95 303.45 220.95 303.45 227.13C303.45 220.95 298.44 215.95 292.27 215.95C298.44 215.95 303.45 210.94 303.45 204.77ZM273.06 24.9C273.08 31.06 278.08 36.05 284.24 36.05C278.08 36.05 273.08 41.05 273.06 47.21C273.05 41.05 268.05 36.05 261.89 36.05C268.05 36.05 273.05 31.06 273.06 24.9ZM273.06 60.95C273.08 67.11 278.08 72.11 284.24 72.11C278.08 72.11 273.08 77.1 273.06 83.26C273.05 77.1 268.05 72.11 261.89 72.11C268.05 72.11 273.05 67.11 273.06 60.95ZM273.06 119.31C273.05 113.16 268.06 108.17 261.91 108.16C268.06 108.16 273.05 103.16 273.06 97.01C273.08 103.16 278.07 108.15 284.22 108.16C278.07 108.17 273.08 113.16 273.06 119.31ZM282.26 144.03C277.04 144.96 273.08 149.51 273.06 154.99C273.05 149.51 269.09 144.96 263.87 144.03C269.09 143.09 273.05 138.54 273.06 133.06C273.08 138.54 277.04 143.09 282.26 144.03ZM273.06 168.74C273.08 174.9 278.08 179.89 284.24 179.89C278.08 179.89 273.08 184.89 273.06 191.05C273.05 184.89 268.05 179.89 261.89 179.89C268.05 179.89 273.05 174.9 273.06 168.74ZM273.06 204.79C273.08 210.95 278.08 215.95 284.24 215.95C278.08 215.95 273.08 220.94 273.06 227.1C273.05 220.94 268.05 215.95 261.89 215.95C268.05 215.95 273.05 210.95 273.06 204.79ZM242.68 24.87C242.68 31.05 247.69 36.05 253.86 36.05C247.69 36.05 242.68 41.06 242.68 47.23C242.68 41.06 237.68 36.05 231.5 36.05C237.68 36.05 242.68 31.05 242.68 24.87ZM242.68 60.93C242.68 67.1 247.69 72.11 253.86 72.11C247.69 72.11 242.68 77.11 242.68 83.29C242.68 77.11 237.68 72.11 231.5 72.11C237.68 72.11 242.68 67.1 242.68 60.93ZM242.68 119.34C242.68 113.17 237.69 108.17 231.52 108.16C237.69 108.16 242.68 103.15 242.68 96.98C242.68 103.15 247.68 108.15 253.84 108.16C247.68 108.17 242.68 113.17 242.68 119.34ZM251.87 144.03C246.65 144.96 242.68 149.52 242.68 155.02C242.68 149.52 238.71 144.96 233.49 144.03C238.71 143.09 242.68 138.53 242.68 133.03C242.68 138.53 246.65 143.09 251.87 144.03ZM242.68 168.71C242.68 174.89 247.69 179.89 253.86 179.89C247.69 179.89 242.68 184.9 242.68 191.07C242.68 184.9 237.68 179.89 231.5 179.89C237.68 179.89 242.68 174.89 242.68 168.71ZM242.68 204.77C242.68 210.94 247.69 215.95 253.86 215.95C247.69 215.95 242.68 220.95 242.68 227.13C242.68 220.95 237.68 215.95 231.5 215.95C237.68 215.95 242.68 210.94 242.68 204.77ZM212.36 26.05C212.95 31.68 217.7 36.05 223.48 36.05C217.7 36.05 212.95 40.43 212.36 46.05C211.78 40.43 207.03 36.05 201.25 36.05C207.03 36.05 211.78 31.68 212.36 26.05ZM212.36 62.11C212.95 67.73 217.7 72.11 223.48 72.11C217.7 72.11 212.95 76.48 212.36 82.11C211.78 76.48 207.03 72.11 201.25 72.11C207.03 72.11 211.78 67.73 212.36 62.11ZM212.36 118.16C211.78 112.54 207.04 108.17 201.28 108.16C207.04 108.16 211.78 103.78 212.36 98.16C212.95 103.78 217.69 108.15 223.46 108.16C217.69 108.17 212.95 112.54 212.36 118.16ZM221.49 144.03C216.64 144.89 212.88 148.88 212.36 153.85C211.86 148.88 208.1 144.89 203.24 144.03C208.1 143.16 211.86 139.17 212.36 134.2C212.88 139.17 216.64 143.16 221.49 144.03ZM212.36 169.89C212.95 175.52 217.7 179.89 223.48 179.89C217.7 179.89 212.95 184.27 212.36 189.89C211.78 184.27 207.03 179.89 201.25 179.89C207.03 179.89 211.78 175.52 212.36 169.89ZM212.36 205.95C212.95 211.57 217.7 215.95 223.48 215.95C217.7 215.95 212.95 220.32 212.36 225.95C211.78 220.32 207.03 215.95 201.25 215.95C207.03 215.95 211.78 211.57 212.36 205.95ZM182.05 24.89C182.06 31.06 187.06 36.05 193.23 36.05C187.06 36.05 182.06 41.05 182.05 47.22C182.04 41.05 177.04 36.05 170.87 36.05C177.04 36.05 182.04 31.06 182.05 24.89ZM182.05 60.95C182.06 67.11 187.06 72.11 193.23 72.11C187.06 72.11 182.06 77.1 182.05 83.27C182.04 77.1 177.04 72.11 170.87 72.11C177.04 72.11 182.04 67.11 182.05 60.95ZM182.05 119.32C182.04 113.16 177.05 108.17 170.9 108.16C177.05 108.16 182.04 103.16 182.05 97C182.06 103.16 187.05 108.15 193.22 108.16C187.05 108.17 182.06 113.16 182.05 119.32ZM191.24 144.03C186.03 144.96 182.06 149.51 182.05 155C182.04 149.51 178.09 144.96 172.86 144.03C178.09 143.09 182.04 138.54 182.05 133.05C182.06 138.54 186.03 143.09 191.24 144.03ZM182.05 168.73C182.06 174.9 187.06 179.89 193.23 179.89C187.06 179.89 182.06 184.89 182.05 191.05C182.04 184.89 177.04 179.89 170.87 179.89C177.04 179.89 182.04 174.9 182.05 168.73ZM182.05 204.79C182.06 210.95 187.06 215.95 193.23 215.95C187.06 215.95 182.06 220.94 182.05 227.11C182.04 220.94 177.04 215.95 170.87 215.95C177.04 215.95 182.04 210.95 182.05 204.79ZM151.79 26.53C152.6 31.92 157.24 36.05 162.85 36.05C157.24 36.05 152.6 40.18 151.79 45.57C150.99 40.18 146.35 36.05 140.74 36.05C146.35 36.05 150.99 31.92 151.79 26.53ZM151.79 62.59C152.6 67.98 157.24 72.11 162.85 72.11C157.24 72.11 152.6 76.24 151.79 81.63C150.99 76.24 146.35 72.11 140.74 72.11C146.35 72.11 150.99 67.98 151.79 62.59ZM151.79 117.68C151 112.3 146.36 108.17 140.76 108.16C146.36 108.16 151 104.02 151.79 98.64C152.6 104.02 157.23 108.15 162.84 108.16C157.23 108.17 152.6 112.3 151.79 117.68ZM160.86 144.03C156.18 144.86 152.5 148.62 151.79 153.35C151.1 148.62 147.41 144.86 142.73 144.03C147.41 143.19 151.1 139.43 151.79 134.7C152.5 139.43 156.18 143.19 160.86 144.03ZM151.79 170.37C152.6 175.76 157.24 179.89 162.85 179.89C157.24 179.89 152.6 184.02 151.79 189.41C150.99 184.02 146.35 179.89 140.74 179.89C146.35 179.89 150.99 175.76 151.79 170.37ZM151.79 206.43C152.6 211.82 157.24 215.95 162.85 215.95C157.24 215.95 152.6 220.08 151.79 225.47C150.99 220.08 146.35 215.95 140.74 215.95C146.35 215.95 150.99 211.82 151.79 206.43ZM121.54 24.89C121.55 31.06 126.55 36.05 132.72 36.05C126.55 36.05 121.55 41.05 121.54 47.21C121.53 41.05 116.53 36.05 110.36 36.05C116.53 36.05 121.53 31.06 121.54 24.89ZM121.54 60.95C121.55 67.11 126.55 72.11 132.72 72.11C126.55 72.11 121.55 77.1 121.54 83.27C121.53 77.1 116.53 72.11 110.36 72.11C116.53 72.11 121.53 67.11 121.54 60.95ZM121.54 119.32C121.53 113.16 116.54 108.17 110.38 108.16C116.54 108.16 121.53 103.16 121.54 97C121.55 103.16 126.54 108.15 132.69 108.16C126.54 108.17 121.55 113.16 121.54 119.32ZM130.73 144.03C125.51 144.96 121.54 149.51 121.54 155C121.53 149.51 117.56 144.96 112.35 144.03C117.56 143.09 121.53 138.54 121.54 133.05C121.54 138.54 125.51 143.09 130.73 144.03ZM121.54 168.73C121.55 174.9 126.55 179.89 132.72 179.89C126.55 179.89 121.55 184.89 121.54 191.05C121.53 184.89 116.53 179.89 110.36 179.89C116.53 179.89 121.53 174.9 121.54 168.73ZM121.54 204.79C121.55 210.95 126.55 215.95 132.72 215.95C126.55 215.95 121.55 220.94 121.54 227.11C121.53 220.94 116.53 215.95 110.36 215.95C116.53 215.95 121.53 210.95 121.54 204.79ZM91.16 24.87C91.16 31.05 96.16 36.05 102.34 36.05C96.16 36.05 91.16 41.06 91.16 47.23C91.16 41.06 86.15 36.05 79.98 36.05C86.15 36.05 91.16 31.05 91.16 24.87ZM91.16 60.93C91.16 67.1 96.16 72.11 102.34 72.11C96.16 72.11 91.16 77.11 91.16 83.29C91.16 77.11 86.15 72.11 79.98 72.11C86.15 72.11 91.16 67.1 91.16 60.93ZM91.16 119.34C91.16 113.17 86.16 108.17 79.99 108.16C86.16 108.16 91.16 103.15 91.16 96.98C91.16 103.15 96.16 108.15 102.31 108.16C96.16 108.17 91.16 113.17 91.16 119.34ZM100.35 144.03C95.12 144.96 91.16 149.52 91.16 155.02C91.16 149.52 87.18 144.96 81.95 144.03C87.18 143.09 91.16 138.53 91.16 133.03C91.16 138.53 95.12 143.09 100.35 144.03ZM91.16 168.71C91.16 174.89 96.16 179.89 102.34 179.89C96.16 179.89 91.16 184.9 91.16 191.07C91.16 184.9 86.15 179.89 79.98 179.89C86.15 179.89 91.16 174.89 91.16 168.71ZM91.16 204.77C91.16 210.94 96.16 215.95 102.34 215.95C96.16 215.95 91.16 220.95 91.16 227.13C91.16 220.95 86.15 215.95 79.98 215.95C86.15 215.95 91.16 210.94 91.16 204.77ZM60.76 24.9C60.79 31.06 65.79 36.05 71.94 36.05C65.79 36.05 60.79 41.05 60.76 47.21C60.75 41.05 55.75 36.05 49.6 36.05C55.75 36.05 60.75 31.06 60.76 24.9ZM60.76 60.95C60.79 67.11 65.79 72.11 71.94 72.11C65.79 72.11 60.79 77.1 60.76 83.26C60.75 77.1 55.75 72.11 49.6 72.11C55.75 72.11 60.75 67.11 60.76 60.95ZM60.76 119.31C60.75 113.16 55.76 108.17 49.61 108.16C55.76 108.16 60.75 103.16 60.76 97.01C60.79 103.16 65.78 108.15 71.92 108.16C65.78 108.17 60.79 113.16 60.76 119.31ZM69.97 144.03C64.74 144.96 60.79 149.51 60.76 154.99C60.75 149.51 56.79 144.96 51.57 144.03C56.79 143.09 60.75 138.54 60.76 133.06C60.79 138.54 64.74 143.09 69.97 144.03ZM60.76 168.74C60.79 174.9 65.79 179.89 71.94 179.89C65.79 179.89 60.79 184.89 60.76 191.05C60.75 184.89 55.75 179.89 49.6 179.89C55.75 179.89 60.75 174.9 60.76 168.74ZM60.76 204.79C60.79 210.95 65.79 215.95 71.94 215.95C65.79 215.95 60.79 220.94 60.76 227.1C60.75 220.94 55.75 215.95 49.6 215.95C55.75 215.95 60.75 210.95 60.76 204.79ZM30.38 24.87C30.38 31.05 35.4 36.05 41.56 36.05C35.4 36.05 30.38 41.06 30.38 47.23C30.38 41.06 25.38 36.05 19.2 36.05C25.38 36.05 30.38 31.05 30.38 24.87ZM30.38 60.93C30.38 67.1 35.4 72.11 41.56 72.11C35.4 72.11 30.38 77.11 30.38 83.29C30.38 77.11 25.38 72.11 19.2 72.11C25.38 72.11 30.38 67.1 30.38 60.93ZM30.38 119.34C30.38 113.17 25.4 108.17 19.23 108.16C25.4 108.16 30.38 103.15 30.38 96.98C30.38 103.15 35.38 108.15 41.54 108.16C35.38 108.17 30.38 113.17 30.38 119.34ZM39.57 144.03C34.35 144.96 30.38 149.52 30.38 155.02C30.38 149.52 26.41 144.96 21.19 144.03C26.41 143.09 30.38 138.53 30.38 133.03C30.38 138.53 34.35 143.09 39.57 144.03ZM30.38 168.71C30.38 174.89 35.4 179.89 41.56 179.89C35.4 179.89 30.38 184.9 30.38 191.07C30.38 184.9 25.38 179.89 19.2 179.89C25.38 179.89 30.38 174.89 30.38 168.71ZM30.38 204.77C30.38 210.94 35.4 215.95 41.56 215.95C35.4 215.95 30.38 220.95 30.38 227.13C30.38 220.95 25.38 215.95 19.2 215.95C25.38 215.95 30.38 210.94 30.38 204.77Z" fill="url(#paint0_linear_3248_5)"/>
-              <defs>
-                <linearGradient id="paint0_linear_3248_5" x1="182.11" y1="0" x2="182.11" y2="252" gradientUnits="userSpaceOnUse">
-                  <stop offset="0" stop-color="${properties.color}" stop-opacity="0" />
-                  <stop offset="0.15" stop-color="${properties.color}" stop-opacity="0" />
-                  <stop offset="0.45" stop-color="${properties.color}" stop-opacity="1" />
-                  <stop offset="1" stop-color="${properties.color}" stop-opacity="1" />
-                </linearGradient>
-              </defs>
-            </svg>
-            ${properties.image ? `<img src="${properties.image}" class="popup-background-image" alt="">` : ''}
-            <div class="content-wrapper">
-              <div class="popup-title">${properties.name}</div>
-              <div class="popup-description-wrapper">
-                <div class="fade-top"></div>
-                <div class="popup-description">${properties.description}</div>
-                <div class="fade-bottom"></div>
-              </div>
-
-              ${
-                coordinates
-                  ? `<button class="navigate-button button-base" data-lat="${coordinates[1]}" data-lng="${coordinates[0]}" data-color="${properties.color || '#6B46C1'}" aria-label="${t.aria.navigate}">${t.buttons.navigate}</button>`
-                  : ''
-              }
-              <button class="more-info-button button-base">${t.buttons.moreInfo}</button>
-            </div>
-          </div>
-
-          <div class="popup-side popup-back">
-            <div class="content-wrapper">
-
-               <!-- Add this new social-icons div -->
-          <div class="social-icons">
-          ${
-            coordinates
-              ? `
-            <a href="https://www.google.com/maps/dir/?api=1&destination=${coordinates[1]},${coordinates[0]}" target="_blank" aria-label="${t.aria.navigate}" title="${t.aria.navigate}">
-              <svg width="20" height="20" viewBox="0 0 693 693" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M397.579 674.597C389.049 666.067 383.409 655.327 381.229 643.457L325.669 371.347C325.189 369.027 323.349 367.177 320.979 366.697L48.2893 311.017C32.3093 307.567 18.6393 298.097 9.77932 284.357C0.92932 270.617 -2.05068 254.247 1.39932 238.277C5.89932 217.457 21.2093 200.237 41.3593 193.327L41.5893 193.247L612.369 2.98667C627.929 -2.03333 644.509 -0.693336 659.049 6.76666C673.599 14.2167 684.369 26.8967 689.389 42.4467C693.349 54.7367 693.349 67.7267 689.389 80.0067L689.309 80.2667L499.149 650.737C490.449 677.117 465.019 694.337 437.299 692.647C422.449 691.717 408.499 685.447 397.969 674.997C397.839 674.867 397.709 674.737 397.579 674.607V674.597ZM363.049 329.347C371.339 337.637 377.239 348.287 379.699 360.277L435.409 633.107L435.469 633.477C435.619 634.307 435.989 635.057 436.619 635.657L436.819 635.857C437.859 636.897 439.239 637.517 440.709 637.607C443.409 637.777 445.919 636.067 446.779 633.467L636.929 63.0267C637.299 61.8367 637.289 60.5867 636.909 59.3967C636.279 57.4267 634.929 56.3967 633.919 55.8767C632.919 55.3667 631.319 54.8867 629.389 55.4767L59.2093 245.507C57.2493 246.207 55.7693 247.887 55.3293 249.927C54.8893 251.947 55.5393 253.517 56.1593 254.477C56.7693 255.427 57.8993 256.637 59.8693 257.087L332.069 312.667C344.089 315.137 354.769 321.057 363.059 329.347H363.049Z" fill="white"/>
-              </svg>
-            </a>`
-              : ''
-          }
-          ${
-            properties.website
-              ? `
-            <a href="${properties.website}" target="_blank" aria-label="${t.aria.website}" title="${t.aria.website}">
-              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                <circle cx="12" cy="12" r="10"></circle>
-                <line x1="2" y1="12" x2="22" y2="12"></line>
-                <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"></path>
-              </svg>
-            </a>`
-              : ''
-          }
-          ${
-            properties.instagram
-              ? `
-            <a href="${properties.instagram}" target="_blank" aria-label="${t.aria.instagram}" title="${t.aria.instagram}">
-              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                <path d="M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zm0-2.163c-3.259 0-3.667.014-4.947.072-4.358.2-6.78 2.618-6.98 6.98-.059 1.281-.073 1.689-.073 4.948 0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98 1.281.058 1.689.072 4.948.072 3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98-1.28-.059-1.69-.073-4.949-.073zm0 5.838c-3.403 0-6.162 2.759-6.162 6.162s2.759 6.163 6.162 6.163 6.162-2.759 6.162-6.163c0-3.403-2.759-6.162-6.162-6.162zm0 10.162c-2.209 0-4-1.79-4-4 0-2.209 1.791-4 4-4s4 1.791 4 4c0 2.21-1.791 4-4 4zm6.406-11.845c-.796 0-1.441.645-1.441 1.44s.645 1.44 1.441 1.44c.795 0 1.439-.645 1.439-1.44s-.644-1.44-1.439-1.44z"/>
-              </svg>
-            </a>`
-              : ''
-          }
-          ${
-            properties.facebook
-              ? `
-            <a href="${properties.facebook}" target="_blank" aria-label="${t.aria.facebook}" title="${t.aria.facebook}">
-              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-                 <path d="M18 2h-3a5 5 0 0 0-5 5v3H7v4h3v8h4v-8h3l1-4h-4V7a1 1 0 0 1 1-1h3z"></path>
-              </svg>
-            </a>`
-              : ''
-          }
-            </div>
-              <div class="info-content">
-                <div class="popup-descriptionv2">${properties.descriptionv2}</div>
-              </div>
-              ${generateOpeningHours(properties)}
-              ${properties.image ? `<button class="impressie-button button-base">${t.buttons.impression}</button>` : ''}
-              <button class="more-info-button button-base">${t.buttons.back}</button>
-            </div>
-          </div>
-        </div>
-      `,
-  };
+
+  const socialLinks = [
+    coordinates && {
+      href: escapeHTML(getNavigationUrl(coordinates[1], coordinates[0])),
+      label: t('popup.aria.navigate'),
+      icon: POPUP_ICONS.navigate,
+    },
+    ...(['website', 'instagram', 'facebook'] as const).map((key) => {
+      const href = escapeHTML(sanitizeUrl(properties[key], WEB_PROTOCOLS));
+      return href && { href, label: t(`popup.aria.${key}`), icon: POPUP_ICONS[key] };
+    }),
+  ];
+
+  return renderPopupTemplate('location', {
+    ...slots,
+    frontActions: [
+      coordinates
+        ? renderPopupTemplate('navigateButton', {
+            lat: coordinates[1],
+            lng: coordinates[0],
+            color,
+            label: t('popup.aria.navigate'),
+            text: t('popup.buttons.navigate'),
+          })
+        : '',
+      renderPopupTemplate('button', {
+        className: 'more-info-button',
+        label: t('popup.buttons.moreInfo'),
+      }),
+    ].join(''),
+    socialLinks: socialLinks
+      .map((link) => (link ? renderPopupTemplate('socialLink', link) : ''))
+      .join(''),
+    details: sanitizeHTML(properties.descriptionv2),
+    openingHours: generateOpeningHours(properties),
+    backActions: [
+      image
+        ? renderPopupTemplate('button', {
+            className: 'impressie-button',
+            label: t('popup.buttons.impression'),
+          })
+        : '',
+      renderPopupTemplate('button', {
+        className: 'more-info-button',
+        label: t('popup.buttons.back'),
+      }),
+    ].join(''),
+  });
 }
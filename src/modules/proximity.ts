@@ -0,0 +1,273 @@
+// Proximity module - geofences around locations with enter/exit events and an in-app nudge
+
+import type { Map } from 'mapbox-gl';
+
+import { calculateDistance } from './boundaryUtils.js';
+import { CONFIG, DO_NOT_DISTURB_STORAGE_KEY, VISITED_STORAGE_KEY } from './config.js';
+import { getLocationKey } from './dataSources.js';
+import { eventBus, Events, type ProximityEvent } from './eventBus.js';
+import { t } from './i18n.js';
+import { createPopup } from './popups.js';
+import { state } from './state.js';
+
+// Locations the user is currently inside the trigger radius of
+const insideLocations = new Set<string>();
+
+let visitedLocations: Set<string> | null = null;
+let doNotDisturb: boolean | null = null;
+
+let nudgeElement: HTMLElement | null = null;
+let nudgeLocationId: string | null = null;
+let nudgeTimer: number | undefined;
+
+/**
+ * Trigger radius of a location in meters
+ */
+export function getTriggerRadius(properties: GeoJSON.GeoJsonProperties): number {
+  const radius = properties?.proximityRadius;
+  return typeof radius === 'number' && radius > 0 ? radius : CONFIG.PROXIMITY.radius;
+}
+
+/**
+ * Locations the user has been near before, kept across visits
+ */
+function getVisitedLocations(): Set<string> {
+  if (!visitedLocations) {
+    visitedLocations = new Set();
+    try {
+      const stored = JSON.parse(localStorage.getItem(VISITED_STORAGE_KEY) || '[]');
+      if (Array.isArray(stored)) {
+        stored.forEach((id) => typeof id === 'string' && visitedLocations!.add(id));
+      }
+    } catch {
+      // Unreadable storage counts as nothing visited yet
+    }
+  }
+  return visitedLocations;
+}
+
+/**
+ * Check if the user has been near a location before
+ */
+export function isVisited(locationId: string): boolean {
+  return getVisitedLocations().has(locationId);
+}
+
+/**
+ * Remember that the user has been near a location
+ */
+export function markVisited(locationId: string): void {
+  const visited = getVisitedLocations();
+  if (visited.has(locationId)) return;
+
+  visited.add(locationId);
+  try {
+    localStorage.setItem(VISITED_STORAGE_KEY, JSON.stringify(Array.from(visited)));
+  } catch {
+    // Still remembered for this visit
+  }
+}
+
+/**
+ * Forget all visited locations, so their nudges show again
+ */
+export function clearVisited(): void {
+  getVisitedLocations().clear();
+  try {
+    localStorage.removeItem(VISITED_STORAGE_KEY);
+  } catch {
+    // Nothing stored to remove
+  }
+}
+
+/**
+ * Check if proximity nudges are muted
+ */
+export function isDoNotDisturb(): boolean {
+  if (doNotDisturb === null) {
+    try {
+      doNotDisturb = localStorage.getItem(DO_NOT_DISTURB_STORAGE_KEY) === 'true';
+    } catch {
+      doNotDisturb = false;
+    }
+  }
+  return doNotDisturb;
+}
+
+/**
+ * Mute or unmute proximity nudges. Enter/exit events keep firing either way.
+ */
+export function setDoNotDisturb(enabled: boolean): void {
+  doNotDisturb = enabled;
+  try {
+    localStorage.setItem(DO_NOT_DISTURB_STORAGE_KEY, String(enabled));
+  } catch {
+    // Only muted for this visit
+  }
+
+  if (enabled) hideNudge();
+  updateMuteButton();
+}
+
+/**
+ * Compare a new user position with the trigger radius of every location and emit
+ * PROXIMITY_ENTER / PROXIMITY_EXIT. A location is only left again once the user is
+ * `CONFIG.PROXIMITY.hysteresis` meters outside its radius.
+ * @param position - User position as [lng, lat]
+ * @param features - Locations to check, defaults to the loaded ones
+ */
+export function updateProximity(
+  position: [number, number],
+  features: GeoJSON.Feature[] = state.mapLocations.features
+): void {
+  const seen = new Set<string>();
+
+  features.forEach((feature) => {
+    if (feature.geometry?.type !== 'Point') return;
+    const locationId = getLocationKey(feature.properties);
+    if (!locationId) return;
+
+    seen.add(locationId);
+    const [lng, lat] = feature.geometry.coordinates;
+    const distance = 1000 * calculateDistance(position[1], position[0], lat, lng);
+    const radius = getTriggerRadius(feature.properties);
+    const event = { locationId, feature: feature as GeoJSON.Feature<GeoJSON.Point>, distance };
+
+    if (!insideLocations.has(locationId) && distance <= radius) {
+      insideLocations.add(locationId);
+      eventBus.emit(Events.PROXIMITY_ENTER, event);
+    } else if (insideLocations.has(locationId) && distance > radius + CONFIG.PROXIMITY.hysteresis) {
+      insideLocations.delete(locationId);
+      eventBus.emit(Events.PROXIMITY_EXIT, event);
+    }
+  });
+
+  // Locations that disappeared from the data can't be left anymore
+  insideLocations.forEach((locationId) => {
+    if (!seen.has(locationId)) insideLocations.delete(locationId);
+  });
+}
+
+/**
+ * Remove the nudge
+ */
+function hideNudge(): void {
+  window.clearTimeout(nudgeTimer);
+  nudgeElement?.remove();
+  nudgeElement = null;
+  nudgeLocationId = null;
+}
+
+/**
+ * Show the nudge for a location the user just walked up to
+ */
+function showNudge({ locationId, feature }: ProximityEvent, map: Map): void {
+  hideNudge();
+
+  const properties = feature.properties || {};
+  const isAR = properties.type === 'ar';
+
+  const nudge = document.createElement('div');
+  nudge.className = 'proximity-nudge';
+  nudge.setAttribute('role', 'status');
+  nudge.setAttribute('aria-live', 'polite');
+  nudge.innerHTML = `
+    <p class="proximity-nudge-message"></p>
+    <div class="proximity-nudge-actions">
+      <button type="button" class="proximity-nudge-open button-base"></button>
+      <button type="button" class="proximity-nudge-dismiss"></button>
+      <button type="button" class="proximity-nudge-mute"></button>
+    </div>
+  `;
+
+  // Names come from the CMS, so they are set as text
+  const name = String(properties.name || '');
+  nudge.querySelector('.proximity-nudge-message')!.textContent = isAR
+    ? t('proximity.messageAR', { name })
+    : t('proximity.message', { name });
+
+  const openButton = nudge.querySelector<HTMLElement>('.proximity-nudge-open')!;
+  openButton.textContent = isAR ? t('proximity.openAR') : t('proximity.open');
+  openButton.style.backgroundColor = String(properties.color || properties.arkleur || '');
+  openButton.addEventListener('click', () => {
+    hideNudge();
+    createPopup(feature, map);
+  });
+
+  const dismissButton = nudge.querySelector<HTMLElement>('.proximity-nudge-dismiss')!;
+  dismissButton.textContent = t('proximity.dismiss');
+  dismissButton.addEventListener('click', hideNudge);
+
+  const muteButton = nudge.querySelector<HTMLElement>('.proximity-nudge-mute')!;
+  muteButton.textContent = t('proximity.mute');
+  muteButton.addEventListener('click', () => setDoNotDisturb(true));
+
+  document.body.appendChild(nudge);
+  nudgeElement = nudge;
+  nudgeLocationId = locationId;
+  nudgeTimer = window.setTimeout(hideNudge, CONFIG.PROXIMITY.nudgeTimeout * 1000);
+}
+
+/**
+ * Show the mute state on the map control
+ */
+function updateMuteButton(): void {
+  const button = document.querySelector<HTMLButtonElement>('.proximity-mute-button');
+  if (!button) return;
+
+  const muted = isDoNotDisturb();
+  button.classList.toggle('is-active', muted);
+  button.setAttribute('aria-pressed', String(muted));
+  button.title = muted ? t('proximity.muteOff') : t('proximity.muteOn');
+  button.setAttribute('aria-label', button.title);
+}
+
+/**
+ * Add the do-not-disturb toggle to the top-right map controls
+ */
+function addMuteControl(): void {
+  const controlContainer = document.querySelector('.mapboxgl-ctrl-top-right');
+  if (!controlContainer) return;
+
+  const container = document.createElement('div');
+  container.className = 'mapboxgl-ctrl mapboxgl-ctrl-group';
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'mapboxgl-ctrl-icon proximity-mute-button';
+  button.innerHTML =
+    '<svg viewBox="0 0 24 24" width="16" height="16" aria-hidden="true"><path fill="currentColor" d="M12 22a2 2 0 0 0 2-2h-4a2 2 0 0 0 2 2Zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4a1.5 1.5 0 0 0-3 0v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2Z"/></svg>';
+  button.addEventListener('click', () => setDoNotDisturb(!isDoNotDisturb()));
+
+  container.appendChild(button);
+  controlContainer.appendChild(container);
+  updateMuteButton();
+}
+
+/**
+ * Setup the proximity engine: follows the user position and nudges once per location
+ */
+export function setupProximity(map: Map): void {
+  if (!CONFIG.PROXIMITY.enabled) return;
+
+  map.once('load', addMuteControl);
+
+  eventBus.on(Events.LOCATION_FOUND, ({ coordinates }) => updateProximity(coordinates));
+
+  eventBus.on(Events.PROXIMITY_ENTER, (event) => {
+    const alreadyVisited = isVisited(event.locationId);
+    markVisited(event.locationId);
+
+    // No nudge for the location that is already open
+    if (alreadyVisited || isDoNotDisturb() || state.selectedLocationId === event.locationId) {
+      return;
+    }
+    showNudge(event, map);
+  });
+
+  eventBus.on(Events.PROXIMITY_EXIT, ({ locationId }) => {
+    if (locationId === nudgeLocationId) hideNudge();
+  });
+
+  eventBus.on(Events.LANGUAGE_CHANGED, updateMuteButton);
+}
@@ -1,23 +1,167 @@
 // Resource management module for optimized loading and caching
 
+import { CONFIG } from './config.js';
+import { eventBus, Events } from './eventBus.js';
+import { LRUCache } from './lruCache.js';
+
 export interface ResourceLoadOptions {
   maxSize?: number;
   quality?: number;
   timeout?: number;
 }
 
+// Minimal shapes of the Three.js objects that are measured and freed here
+interface CachedTexture {
+  isTexture?: boolean;
+  image?: { width?: number; height?: number; naturalWidth?: number; naturalHeight?: number };
+  generateMipmaps?: boolean;
+  dispose(): void;
+}
+
+interface CachedBufferAttribute {
+  array: { byteLength: number };
+}
+
+interface CachedObject3D {
+  geometry?: {
+    attributes?: Record<string, CachedBufferAttribute>;
+    index?: CachedBufferAttribute | null;
+    dispose(): void;
+  };
+  material?: Record<string, unknown> | Array<Record<string, unknown>>;
+}
+
+interface CachedModel {
+  scene?: { traverse(callback: (child: CachedObject3D) => void): void };
+}
+
+type CachedResource =
+  | { type: 'image'; value: HTMLImageElement }
+  | { type: 'texture'; value: CachedTexture }
+  | { type: 'model'; value: CachedModel };
+
+export interface ResourceStats {
+  cachedImages: number;
+  cachedTextures: number;
+  cachedModels: number;
+  // Approximate memory held by the cache, and its budget, in bytes
+  cacheBytes: number;
+  cacheBudget: number;
+  failedResources: number;
+  averageLoadTime: number;
+}
+
+/**
+ * Wait before the next attempt: exponential backoff with jitter, so clients don't retry in lockstep
+ * @param attempt - Number of the failed attempt, starting at 1
+ */
+function getRetryDelay(attempt: number): number {
+  const { baseDelay, maxDelay } = CONFIG.RESOURCE_RETRY;
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Decoded size of an image: 4 bytes per pixel
+ */
+function estimateImageBytes(image: CachedTexture['image']): number {
+  if (!image) return 0;
+  const width = image.naturalWidth || image.width || 0;
+  const height = image.naturalHeight || image.height || 0;
+  return width * height * 4;
+}
+
+/**
+ * GPU size of a texture, with a third extra for mipmaps
+ */
+function estimateTextureBytes(texture: CachedTexture): number {
+  const bytes = estimateImageBytes(texture.image);
+  return texture.generateMipmaps ? Math.round(bytes * (4 / 3)) : bytes;
+}
+
+/**
+ * Textures used by a material
+ */
+function getMaterialTextures(material: Record<string, unknown>): CachedTexture[] {
+  return Object.values(material).filter(
+    (value): value is CachedTexture =>
+      typeof value === 'object' && value !== null && (value as CachedTexture).isTexture === true
+  );
+}
+
+/**
+ * Run a callback for every mesh material in a model
+ */
+function forEachMaterial(
+  child: CachedObject3D,
+  callback: (material: Record<string, unknown>) => void
+): void {
+  if (!child.material) return;
+  (Array.isArray(child.material) ? child.material : [child.material]).forEach(callback);
+}
+
+/**
+ * Geometry buffers plus textures of a GLTF model; shared buffers and textures count once
+ */
+function estimateModelBytes(model: CachedModel): number {
+  const counted = new Set<unknown>();
+  let bytes = 0;
+
+  const add = (item: unknown, size: number) => {
+    if (counted.has(item)) return;
+    counted.add(item);
+    bytes += size;
+  };
+
+  model.scene?.traverse((child) => {
+    const { geometry } = child;
+    if (geometry) {
+      Object.values(geometry.attributes || {}).forEach((attribute) => {
+        add(attribute.array, attribute.array.byteLength);
+      });
+      if (geometry.index) add(geometry.index.array, geometry.index.array.byteLength);
+    }
+    forEachMaterial(child, (material) => {
+      getMaterialTextures(material).forEach((texture) => {
+        add(texture, estimateTextureBytes(texture));
+      });
+    });
+  });
+
+  return bytes;
+}
+
+/**
+ * Free the GPU memory of a model's geometry, materials and textures
+ */
+function disposeModel(model: CachedModel): void {
+  model.scene?.traverse((child) => {
+    child.geometry?.dispose();
+    forEachMaterial(child, (material) => {
+      getMaterialTextures(material).forEach((texture) => texture.dispose());
+      (material as { dispose?: () => void }).dispose?.();
+    });
+  });
+}
+
 /**
  * Centralized resource manager for images, models, and other assets
  */
 export class ResourceManager {
   private static instance: ResourceManager;
-  private imageCache = new WeakMap<string, HTMLImageElement>();
-  private modelCache = new Map<string, any>();
-  private textureCache = new Map<string, any>();
+  // Images, textures and models share one memory budget
+  private cache = new LRUCache<CachedResource>({
+    maxBytes: CONFIG.CACHE.maxBytes,
+    onEvict: (resource) => {
+      if (resource.type === 'texture') resource.value.dispose();
+      if (resource.type === 'model') disposeModel(resource.value);
+    },
+  });
   private loadingPromises = new Map<string, Promise<any>>();
-  private failedResources = new Set<string>();
+  // Failed URLs and the time until which they aren't tried again
+  private failedResources = new Map<string, number>();
 
-  // Performance tracking
+  // Performance tracking; duration of the last load per URL in ms, including retries
   private loadTimes = new Map<string, number>();
   private loadCounts = new Map<string, number>();
 
@@ -30,6 +174,46 @@ export class ResourceManager {
     return ResourceManager.instance;
   }
 
+  /**
+   * Check if a URL failed within `CONFIG.RESOURCE_RETRY.failureExpiry`; older failures are forgotten
+   */
+  private hasRecentlyFailed(url: string): boolean {
+    const retryAfter = this.failedResources.get(url);
+    if (retryAfter === undefined) return false;
+    if (Date.now() < retryAfter) return true;
+
+    this.failedResources.delete(url);
+    return false;
+  }
+
+  /**
+   * Run a load, retrying failures up to `CONFIG.RESOURCE_RETRY.attempts` times in total
+   */
+  private async withRetry<T>(load: () => Promise<T>): Promise<T> {
+    const { attempts } = CONFIG.RESOURCE_RETRY;
+
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await load();
+      } catch (error) {
+        if (attempt >= attempts) throw error;
+        await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt)));
+      }
+    }
+  }
+
+  /**
+   * Forget earlier failures, so the next load tries again right away
+   * @param url - Only this URL, or all failed resources when omitted
+   */
+  clearFailedResources(url?: string): void {
+    if (url) {
+      this.failedResources.delete(url);
+    } else {
+      this.failedResources.clear();
+    }
+  }
+
   /**
    * Load and optimize an image with caching
    */
@@ -38,37 +222,40 @@ export class ResourceManager {
     options: ResourceLoadOptions = {}
   ): Promise<HTMLImageElement> {
     const { maxSize = 512, timeout = 10000 } = options;
+    // The same photo can be loaded at several sizes, e.g. for the popup and the lightbox
+    const key = `image:${url}@${maxSize}`;
 
     // Check failed resources first
-    if (this.failedResources.has(url)) {
+    if (this.hasRecentlyFailed(url)) {
       throw new Error(`Resource previously failed to load: ${url}`);
     }
 
     // Check if already loading
-    if (this.loadingPromises.has(url)) {
-      return this.loadingPromises.get(url)!;
+    if (this.loadingPromises.has(key)) {
+      return this.loadingPromises.get(key)!;
     }
 
     // Check cache
-    if (this.imageCache.has(url)) {
-      return this.imageCache.get(url)!;
+    const cached = this.cache.get(key);
+    if (cached?.type === 'image') {
+      return cached.value;
     }
 
     // Create loading promise
-    const loadPromise = this.loadImageWithOptimization(url, maxSize, timeout);
-    this.loadingPromises.set(url, loadPromise);
+    const startTime = Date.now();
+    const loadPromise = this.withRetry(() => this.loadImageWithOptimization(url, maxSize, timeout));
+    this.loadingPromises.set(key, loadPromise);
 
     try {
       const result = await loadPromise;
-      this.imageCache.set(url, result);
-      this.trackLoadSuccess(url);
+      this.cache.set(key, { type: 'image', value: result }, estimateImageBytes(result));
+      this.trackLoadSuccess(url, startTime);
       return result;
     } catch (error) {
-      this.failedResources.add(url);
-      this.trackLoadError(url);
+      this.trackLoadError(url, error);
       throw error;
     } finally {
-      this.loadingPromises.delete(url);
+      this.loadingPromises.delete(key);
     }
   }
 
@@ -124,19 +311,57 @@ export class ResourceManager {
     // Draw resized image
     ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
 
-    // Create new image from canvas
-    const resizedImg = new Image();
+    // Create new image from canvas; the size is known before the data URL is decoded
+    const resizedImg = new Image(canvas.width, canvas.height);
     resizedImg.src = canvas.toDataURL('image/jpeg', 0.85);
     return resizedImg;
   }
 
+  /**
+   * Load an image as a Three.js texture, cached so planes showing the same image share it
+   * @param createTexture - Builds the texture from the optimized image
+   */
+  async loadTexture<T extends CachedTexture>(
+    url: string,
+    createTexture: (image: HTMLImageElement) => T,
+    options: ResourceLoadOptions = {}
+  ): Promise<T> {
+    const key = `texture:${url}`;
+
+    const cached = this.cache.get(key);
+    if (cached?.type === 'texture') {
+      return cached.value as T;
+    }
+
+    // Separate key, the image itself is loading under its own key
+    if (this.loadingPromises.has(key)) {
+      return this.loadingPromises.get(key)!;
+    }
+
+    const loadPromise = this.loadOptimizedImage(url, options).then(createTexture);
+    this.loadingPromises.set(key, loadPromise);
+
+    try {
+      const texture = await loadPromise;
+      this.cache.set(key, { type: 'texture', value: texture }, estimateTextureBytes(texture));
+      return texture;
+    } finally {
+      this.loadingPromises.delete(key);
+    }
+  }
+
   /**
    * Load 3D model with caching - FIXED for GLTF
    */
   async loadModel(url: string, loader: any): Promise<any> {
+    if (this.hasRecentlyFailed(url)) {
+      throw new Error(`Resource previously failed to load: ${url}`);
+    }
+
     // Check cache first
-    if (this.modelCache.has(url)) {
-      return this.modelCache.get(url)!;
+    const cached = this.cache.get(`model:${url}`);
+    if (cached?.type === 'model') {
+      return cached.value;
     }
 
     // Check if already loading
@@ -145,28 +370,31 @@ export class ResourceManager {
     }
 
     // Create loading promise
-    const loadPromise = new Promise((resolve, reject) => {
-      loader.load(
-        url,
-        (gltf: any) => {
-          // For GLTF, we want the whole gltf object, not just scene
-          resolve(gltf);
-        },
-        undefined, // onProgress
-        (error: any) => reject(error)
-      );
-    });
+    const startTime = Date.now();
+    const loadPromise = this.withRetry(
+      () =>
+        new Promise((resolve, reject) => {
+          loader.load(
+            url,
+            (gltf: any) => {
+              // For GLTF, we want the whole gltf object, not just scene
+              resolve(gltf);
+            },
+            undefined, // onProgress
+            (error: any) => reject(error)
+          );
+        })
+    );
 
     this.loadingPromises.set(url, loadPromise);
 
     try {
-      const model = await loadPromise;
-      this.modelCache.set(url, model);
-      this.trackLoadSuccess(url);
+      const model = (await loadPromise) as CachedModel;
+      this.cache.set(`model:${url}`, { type: 'model', value: model }, estimateModelBytes(model));
+      this.trackLoadSuccess(url, startTime);
       return model; // Return original, don't clone GLTF
     } catch (error) {
-      this.failedResources.add(url);
-      this.trackLoadError(url);
+      this.trackLoadError(url, error);
       throw error;
     } finally {
       this.loadingPromises.delete(url);
@@ -213,14 +441,34 @@ export class ResourceManager {
     }
   }
 
+  /**
+   * Keep the image, texture and model of a URL cached while they are on screen.
+   * Every pin needs a matching unpinResource().
+   */
+  pinResource(url: string): void {
+    ['image', 'texture', 'model'].forEach((type) => this.cache.pin(`${type}:${url}`));
+  }
+
+  /**
+   * Allow a resource to be evicted again
+   */
+  unpinResource(url: string): void {
+    ['image', 'texture', 'model'].forEach((type) => this.cache.unpin(`${type}:${url}`));
+  }
+
+  /**
+   * Change the memory budget of the cache in bytes
+   */
+  setCacheBudget(maxBytes: number): void {
+    this.cache.setMaxBytes(maxBytes);
+  }
+
   /**
    * Clear cache and free memory
    */
   cleanup(): void {
-    // Clear caches
-    this.imageCache = new WeakMap();
-    this.modelCache.clear();
-    this.textureCache.clear();
+    // Clear caches, disposing textures and models
+    this.cache.clear();
     this.loadingPromises.clear();
 
     // Clear tracking
@@ -232,37 +480,41 @@ export class ResourceManager {
   /**
    * Get performance statistics
    */
-  getStats(): {
-    cachedImages: number;
-    cachedModels: number;
-    failedResources: number;
-    averageLoadTime: number;
-  } {
+  getStats(): ResourceStats {
     const totalLoadTime = Array.from(this.loadTimes.values()).reduce((a, b) => a + b, 0);
     const totalLoads = this.loadTimes.size;
+    const keys = this.cache.keys();
+    const count = (type: CachedResource['type']) =>
+      keys.filter((key) => key.startsWith(`${type}:`)).length;
 
     return {
-      cachedImages: this.imageCache ? -1 : 0, // WeakMap size not accessible
-      cachedModels: this.modelCache.size,
-      failedResources: this.failedResources.size,
+      cachedImages: count('image'),
+      cachedTextures: count('texture'),
+      cachedModels: count('model'),
+      cacheBytes: this.cache.bytes,
+      cacheBudget: this.cache.budget,
+      failedResources: Array.from(this.failedResources.keys()).filter((url) =>
+        this.hasRecentlyFailed(url)
+      ).length,
       averageLoadTime: totalLoads > 0 ? totalLoadTime / totalLoads : 0,
     };
   }
 
   /**
-   * Track successful load
+   * Track successful load and how long it took
    */
-  private trackLoadSuccess(url: string): void {
-    const now = Date.now();
-    this.loadTimes.set(url, now);
+  private trackLoadSuccess(url: string, startTime: number): void {
+    this.loadTimes.set(url, Date.now() - startTime);
     this.loadCounts.set(url, (this.loadCounts.get(url) || 0) + 1);
+    eventBus.emit(Events.RESOURCE_LOADED, url);
   }
 
   /**
-   * Track load error
+   * Track load error, after all retries
    */
-  private trackLoadError(url: string): void {
-    // Error tracking could be extended here
+  private trackLoadError(url: string, error: unknown): void {
+    this.failedResources.set(url, Date.now() + CONFIG.RESOURCE_RETRY.failureExpiry);
+    eventBus.emit(Events.RESOURCE_ERROR, { url, error });
   }
 }
 
@@ -0,0 +1,555 @@
+// Routing module - in-app walking routes over a pedestrian network inside the city-centre boundary
+
+import type { GeoJSONSource, Map } from 'mapbox-gl';
+
+import { calculateDistance, isInsideBoundary } from './boundaryUtils.js';
+import { CONFIG } from './config.js';
+import { eventBus, Events } from './eventBus.js';
+import { getLanguage, t } from './i18n.js';
+import { getNavigationUrl, getPreferredProvider } from './navigationProviders.js';
+
+export interface PedestrianGraph {
+  // Node positions as [lng, lat]
+  nodes: Array<[number, number]>;
+  // Per node the neighbouring nodes and the length of the path to them in meters
+  edges: Array<Array<{ node: number; length: number }>>;
+}
+
+export interface WalkingRoute {
+  // Line from the start position to the destination, as [lng, lat]
+  coordinates: Array<[number, number]>;
+  // Length in meters
+  distance: number;
+}
+
+export interface RouteDestination {
+  coordinates: [number, number];
+  name: string;
+  color?: string;
+}
+
+interface SnappedPoint {
+  point: [number, number];
+  from: number;
+  to: number;
+  distance: number;
+}
+
+type RouteStatus = 'locating' | 'routing' | 'noRoute' | 'arrived';
+
+const ROUTE_SOURCE_ID = 'walking-route';
+const ROUTE_LINE_LAYER_ID = 'walking-route-line';
+
+let routingMap: Map | null = null;
+let networkPromise: Promise<PedestrianGraph | null> | null = null;
+let activeDestination: RouteDestination | null = null;
+let activeRoute: WalkingRoute | null = null;
+let routeStatus: RouteStatus = 'locating';
+let panelElement: HTMLElement | null = null;
+let arrivalTimer: number | undefined;
+
+/**
+ * Distance between two [lng, lat] positions in meters
+ */
+function meters(a: [number, number], b: [number, number]): number {
+  return 1000 * calculateDistance(a[1], a[0], b[1], b[0]);
+}
+
+/**
+ * Length of a line in meters
+ */
+function lineLength(coordinates: Array<[number, number]>): number {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i += 1) {
+    length += meters(coordinates[i - 1], coordinates[i]);
+  }
+  return length;
+}
+
+/**
+ * Build a routable graph from the line features of a pedestrian network.
+ * Lines are joined where they share a vertex; segments outside the boundary are left out.
+ */
+export function buildPedestrianGraph(network: GeoJSON.FeatureCollection): PedestrianGraph {
+  const graph: PedestrianGraph = { nodes: [], edges: [] };
+  const nodeIndex: Record<string, number> = {};
+
+  // Vertices closer together than ~10 cm count as the same crossing
+  const getNode = (position: GeoJSON.Position): number => {
+    const key = `${position[0].toFixed(6)},${position[1].toFixed(6)}`;
+    if (nodeIndex[key] === undefined) {
+      nodeIndex[key] = graph.nodes.length;
+      graph.nodes.push([position[0], position[1]]);
+      graph.edges.push([]);
+    }
+    return nodeIndex[key];
+  };
+
+  const addLine = (line: GeoJSON.Position[]) => {
+    for (let i = 1; i < line.length; i += 1) {
+      const a = line[i - 1] as [number, number];
+      const b = line[i] as [number, number];
+      if (!isInsideBoundary(a) || !isInsideBoundary(b)) continue;
+
+      const from = getNode(a);
+      const to = getNode(b);
+      if (from === to) continue;
+
+      const length = meters(graph.nodes[from], graph.nodes[to]);
+      graph.edges[from].push({ node: to, length });
+      graph.edges[to].push({ node: from, length });
+    }
+  };
+
+  network.features.forEach(({ geometry }) => {
+    if (geometry?.type === 'LineString') {
+      addLine(geometry.coordinates);
+    } else if (geometry?.type === 'MultiLineString') {
+      geometry.coordinates.forEach(addLine);
+    }
+  });
+
+  return graph;
+}
+
+/**
+ * Closest point on the segment a-b, using a flat projection that is accurate at city scale
+ */
+function projectOnSegment(
+  point: [number, number],
+  a: [number, number],
+  b: [number, number]
+): { point: [number, number]; distance: number } {
+  const scale = Math.cos((point[1] * Math.PI) / 180);
+  const ax = (a[0] - point[0]) * scale;
+  const ay = a[1] - point[1];
+  const dx = (b[0] - a[0]) * scale;
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const fraction =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+  const projected: [number, number] = [
+    a[0] + (b[0] - a[0]) * fraction,
+    a[1] + (b[1] - a[1]) * fraction,
+  ];
+  return { point: projected, distance: meters(point, projected) };
+}
+
+/**
+ * Find the closest point on the network, or null when it is further than `CONFIG.ROUTING.snapDistance`
+ */
+function snapToGraph(graph: PedestrianGraph, position: [number, number]): SnappedPoint | null {
+  let best: SnappedPoint | null = null;
+
+  for (let from = 0; from < graph.nodes.length; from += 1) {
+    for (const { node: to } of graph.edges[from]) {
+      // Every path is stored in both directions; check it once
+      if (to < from) continue;
+      const projected = projectOnSegment(position, graph.nodes[from], graph.nodes[to]);
+      if (!best || projected.distance < best.distance) {
+        best = { ...projected, from, to };
+      }
+    }
+  }
+
+  return best && best.distance <= CONFIG.ROUTING.snapDistance ? best : null;
+}
+
+/**
+ * Binary min-heap of node indexes ordered by their current distance
+ */
+class NodeQueue {
+  private heap: Array<{ node: number; distance: number }> = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(node: number, distance: number): void {
+    const { heap } = this;
+    heap.push({ node, distance });
+
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent].distance <= heap[index].distance) break;
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { node: number; distance: number } | undefined {
+    const { heap } = this;
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length === 0 || !last) return top;
+
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left].distance < heap[smallest].distance) smallest = left;
+      if (right < heap.length && heap[right].distance < heap[smallest].distance) smallest = right;
+      if (smallest === index) break;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+    return top;
+  }
+}
+
+/**
+ * Compute the shortest walking route between two positions
+ * @param graph - Pedestrian network from buildPedestrianGraph
+ * @param start - Start position as [lng, lat]
+ * @param destination - Destination as [lng, lat]
+ * @returns The route, or null when either end is too far from the network or they aren't connected
+ */
+export function findWalkingRoute(
+  graph: PedestrianGraph,
+  start: [number, number],
+  destination: [number, number]
+): WalkingRoute | null {
+  const from = snapToGraph(graph, start);
+  const to = snapToGraph(graph, destination);
+  if (!from || !to) return null;
+
+  const build = (path: Array<[number, number]>): WalkingRoute => {
+    const coordinates = [start, ...path, destination];
+    return { coordinates, distance: lineLength(coordinates) };
+  };
+
+  // Both ends on the same path: walk straight along it
+  const sameSegment =
+    (from.from === to.from && from.to === to.to) || (from.from === to.to && from.to === to.from);
+  const direct = sameSegment ? build([from.point, to.point]) : null;
+
+  // Dijkstra from the snapped start, which is reached through both ends of its segment
+  const distances = new Array<number>(graph.nodes.length).fill(Infinity);
+  const previous = new Array<number>(graph.nodes.length).fill(-1);
+  const queue = new NodeQueue();
+
+  [from.from, from.to].forEach((node) => {
+    const distance = meters(from.point, graph.nodes[node]);
+    if (distance < distances[node]) {
+      distances[node] = distance;
+      queue.push(node, distance);
+    }
+  });
+
+  const targets = new Set([to.from, to.to]);
+  let reached = 0;
+
+  while (queue.size > 0 && reached < targets.size) {
+    const { node, distance } = queue.pop()!;
+    if (distance > distances[node]) continue;
+    if (targets.has(node)) reached += 1;
+
+    graph.edges[node].forEach(({ node: next, length }) => {
+      const candidate = distance + length;
+      if (candidate < distances[next]) {
+        distances[next] = candidate;
+        previous[next] = node;
+        queue.push(next, candidate);
+      }
+    });
+  }
+
+  // Enter the destination segment from whichever end is closer in total
+  let end = -1;
+  let best = Infinity;
+  [to.from, to.to].forEach((node) => {
+    const total = distances[node] + meters(graph.nodes[node], to.point);
+    if (total < best) {
+      best = total;
+      end = node;
+    }
+  });
+
+  if (end === -1) return direct;
+
+  const path: Array<[number, number]> = [to.point];
+  for (let node = end; node !== -1; node = previous[node]) {
+    path.unshift(graph.nodes[node]);
+  }
+  path.unshift(from.point);
+
+  const route = build(path);
+  return direct && direct.distance <= route.distance ? direct : route;
+}
+
+/**
+ * Part of a route that is still ahead of the user, and how far the user is off the route
+ */
+function getRemainingRoute(
+  route: WalkingRoute,
+  position: [number, number]
+): { route: WalkingRoute; offRoute: number } {
+  let bestIndex = 0;
+  let best = { point: route.coordinates[0], distance: Infinity };
+
+  for (let i = 1; i < route.coordinates.length; i += 1) {
+    const projected = projectOnSegment(position, route.coordinates[i - 1], route.coordinates[i]);
+    if (projected.distance < best.distance) {
+      best = projected;
+      bestIndex = i;
+    }
+  }
+
+  const coordinates = [best.point, ...route.coordinates.slice(bestIndex)];
+  return { route: { coordinates, distance: lineLength(coordinates) }, offRoute: best.distance };
+}
+
+/**
+ * Load the pedestrian network once; resolves to null when none is configured or it can't be loaded
+ */
+export function loadPedestrianNetwork(): Promise<PedestrianGraph | null> {
+  if (!networkPromise) {
+    const url = CONFIG.ROUTING.networkUrl;
+    networkPromise = url
+      ? fetch(url)
+          .then((response) => (response.ok ? response.json() : null))
+          .then((network) =>
+            network?.type === 'FeatureCollection' ? buildPedestrianGraph(network) : null
+          )
+          .catch(() => null)
+      : Promise.resolve(null);
+  }
+  return networkPromise;
+}
+
+/**
+ * Format a distance in meters as "350 m" or "1,2 km"
+ */
+function formatDistance(distance: number): string {
+  if (distance < 1000) return `${Math.round(distance / 10) * 10} m`;
+  return `${(distance / 1000).toFixed(1).replace('.', getLanguage() === 'en' ? '.' : ',')} km`;
+}
+
+/**
+ * Draw the route line, below the markers
+ */
+function drawRoute(route: WalkingRoute | null): void {
+  const map = routingMap;
+  if (!map) return;
+
+  const data: GeoJSON.FeatureCollection = {
+    type: 'FeatureCollection',
+    features: route
+      ? [
+          {
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates: route.coordinates },
+            properties: {},
+          },
+        ]
+      : [],
+  };
+
+  const source = map.getSource(ROUTE_SOURCE_ID) as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  if (!route) return;
+
+  map.addSource(ROUTE_SOURCE_ID, { type: 'geojson', data });
+  map.addLayer({
+    id: 'walking-route-casing',
+    type: 'line',
+    source: ROUTE_SOURCE_ID,
+    layout: { 'line-join': 'round', 'line-cap': 'round' },
+    paint: { 'line-color': '#ffffff', 'line-width': 9, 'line-opacity': 0.9 },
+  });
+  map.addLayer({
+    id: ROUTE_LINE_LAYER_ID,
+    type: 'line',
+    source: ROUTE_SOURCE_ID,
+    layout: { 'line-join': 'round', 'line-cap': 'round' },
+    paint: { 'line-color': activeDestination?.color || '#6B46C1', 'line-width': 5 },
+  });
+}
+
+/**
+ * Create the route panel at the bottom of the map
+ */
+function createPanel(): HTMLElement {
+  const panel = document.createElement('section');
+  panel.className = 'route-panel';
+  panel.setAttribute('aria-labelledby', 'route-panel-title');
+  panel.hidden = true;
+  panel.innerHTML = `
+    <h2 id="route-panel-title" class="route-panel-title"></h2>
+    <p class="route-panel-summary" role="status" aria-live="polite"></p>
+    <div class="route-panel-actions">
+      <a class="route-panel-external" target="_blank" rel="noopener"></a>
+      <button type="button" class="route-panel-stop button-base"></button>
+    </div>
+  `;
+
+  panel.querySelector('.route-panel-stop')?.addEventListener('click', stopWalkingRoute);
+  document.body.appendChild(panel);
+  return panel;
+}
+
+/**
+ * Show the destination, remaining distance and ETA in the active language
+ */
+function updatePanel(): void {
+  if (!panelElement || !activeDestination) return;
+
+  const [lng, lat] = activeDestination.coordinates;
+  const title = panelElement.querySelector('.route-panel-title') as HTMLElement;
+  const summary = panelElement.querySelector('.route-panel-summary') as HTMLElement;
+  const external = panelElement.querySelector('.route-panel-external') as HTMLAnchorElement;
+  const stop = panelElement.querySelector('.route-panel-stop') as HTMLElement;
+
+  // Names come from the CMS, so they are set as text
+  title.textContent = t('routing.title', { name: activeDestination.name });
+  external.textContent = t('routing.externalMaps', { name: getPreferredProvider().name });
+  external.href = getNavigationUrl(lat, lng);
+  stop.textContent = t('routing.stop');
+  stop.style.backgroundColor = activeDestination.color || '';
+
+  if (routeStatus === 'noRoute') {
+    summary.textContent = t('routing.noRoute');
+  } else if (routeStatus === 'arrived') {
+    summary.textContent = t('routing.arrived', { name: activeDestination.name });
+  } else if (activeRoute) {
+    const seconds = activeRoute.distance / CONFIG.ROUTING.walkingSpeed;
+    const arrival = new Date(Date.now() + seconds * 1000).toLocaleTimeString(getLanguage(), {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    summary.textContent = t('routing.summary', {
+      distance: formatDistance(activeRoute.distance),
+      minutes: Math.max(1, Math.ceil(seconds / 60)),
+      arrival,
+    });
+  } else {
+    summary.textContent = t('routing.locating');
+  }
+}
+
+/**
+ * Follow the user along the active route, rerouting when they leave it
+ */
+async function updateRoute(position: [number, number]): Promise<WalkingRoute | null> {
+  if (!activeDestination) return null;
+
+  const destination = activeDestination;
+  let route = activeRoute;
+  if (route) {
+    const remaining = getRemainingRoute(route, position);
+    route = remaining.offRoute > CONFIG.ROUTING.rerouteDistance ? null : remaining.route;
+  }
+
+  if (!route) {
+    const graph = await loadPedestrianNetwork();
+    // The route may have been stopped while the network was loading
+    if (destination !== activeDestination) return null;
+    route = graph ? findWalkingRoute(graph, position, destination.coordinates) : null;
+  }
+
+  activeRoute = route;
+  drawRoute(route);
+
+  if (!route) {
+    routeStatus = 'noRoute';
+  } else if (route.distance <= CONFIG.ROUTING.arrivalDistance) {
+    if (routeStatus !== 'arrived') {
+      arrivalTimer = window.setTimeout(stopWalkingRoute, 5000);
+    }
+    routeStatus = 'arrived';
+  } else {
+    routeStatus = 'routing';
+  }
+  updatePanel();
+  return route;
+}
+
+/**
+ * Start a walking route from the user position to a location
+ * @returns false when no pedestrian network is available or the destination lies outside it,
+ *   so the caller can fall back to an external navigation app
+ */
+export async function startWalkingRoute(destination: RouteDestination): Promise<boolean> {
+  if (!routingMap || !isInsideBoundary(destination.coordinates)) return false;
+
+  const graph = await loadPedestrianNetwork();
+  if (!graph) return false;
+
+  window.clearTimeout(arrivalTimer);
+  activeDestination = destination;
+  activeRoute = null;
+  routeStatus = 'locating';
+
+  panelElement ||= createPanel();
+  panelElement.hidden = false;
+  updatePanel();
+
+  if (routingMap.getLayer(ROUTE_LINE_LAYER_ID)) {
+    routingMap.setPaintProperty(ROUTE_LINE_LAYER_ID, 'line-color', destination.color || '#6B46C1');
+  }
+
+  const position = window.geolocationManager?.getUserPosition();
+  if (position) {
+    const route = await updateRoute(position);
+
+    // Show the whole route once
+    if (route) {
+      const bounds = new window.mapboxgl.LngLatBounds();
+      route.coordinates.forEach((coordinate) => bounds.extend(coordinate));
+      routingMap.fitBounds(bounds, { padding: 80, maxZoom: 18 });
+    }
+  } else {
+    // The route is drawn as soon as the position comes in
+    window.geolocationManager?.geolocateControl?.trigger();
+  }
+
+  return true;
+}
+
+/**
+ * Remove the route from the map and hide the panel
+ */
+export function stopWalkingRoute(): void {
+  window.clearTimeout(arrivalTimer);
+  activeDestination = null;
+  activeRoute = null;
+  drawRoute(null);
+  if (panelElement) panelElement.hidden = true;
+}
+
+/**
+ * Check if a walking route is being shown
+ */
+export function isRouting(): boolean {
+  return activeDestination !== null;
+}
+
+/**
+ * Setup in-app walking routes. Does nothing without `CONFIG.ROUTING.networkUrl`.
+ */
+export function setupRouting(map: Map): void {
+  if (!CONFIG.ROUTING.networkUrl) return;
+
+  routingMap = map;
+
+  // Start loading the network in the background, so the first route is quick
+  map.once('load', () => {
+    void loadPedestrianNetwork();
+  });
+
+  eventBus.on(Events.LOCATION_FOUND, ({ coordinates }) => {
+    if (activeDestination) void updateRoute(coordinates);
+  });
+
+  eventBus.on(Events.LANGUAGE_CHANGED, updatePanel);
+
+  // Keep the route visible if the map style is reloaded
+  map.on('style.load', () => drawRoute(activeRoute));
+}
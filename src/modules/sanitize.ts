@@ -0,0 +1,275 @@
+// Sanitize module - escaping and an allowlist sanitizer for CMS values that end up in popup HTML
+
+// Protocols accepted in links and image sources
+export const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Rich-text elements that are kept, with the attributes each may have
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'title', 'target'],
+  b: [],
+  blockquote: [],
+  br: [],
+  div: [],
+  em: [],
+  figcaption: [],
+  figure: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  img: ['src', 'alt', 'width', 'height'],
+  li: [],
+  ol: ['start'],
+  p: [],
+  s: [],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  sup: [],
+  u: [],
+  ul: [],
+};
+
+// Elements without closing tag
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+// Elements that are removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'noscript',
+  'noembed',
+  'noframes',
+  'template',
+  'textarea',
+  'title',
+  'select',
+  'svg',
+  'math',
+  'xmp',
+  'head',
+]);
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Entities that are decoded before URLs are checked, so encoded schemes can't slip through
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+};
+
+const COLOR_PATTERNS = [
+  /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i,
+  /^(?:rgb|hsl)a?\(\s*[\d.]+%?(?:\s*[,/\s]\s*[\d.]+%?){2,3}\s*\)$/i,
+  /^[a-z]{3,20}$/i,
+];
+
+/**
+ * Escape a value for use as text or inside a quoted attribute
+ */
+export function escapeHTML(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Check a URL against a list of protocols. Relative URLs are accepted.
+ * @return The trimmed URL, or an empty string when it is unsafe
+ */
+export function sanitizeUrl(value: unknown, protocols: string[] = SAFE_URL_PROTOCOLS): string {
+  const url = String(value ?? '').trim();
+
+  // Browsers ignore whitespace and control characters inside the scheme
+  // eslint-disable-next-line no-control-regex
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\u0000- ]/g, ''));
+  if (scheme && !protocols.includes(`${scheme[1].toLowerCase()}:`)) {
+    return '';
+  }
+  return url;
+}
+
+/**
+ * Check a CSS colour: hex, rgb(a)/hsl(a) with plain numbers or a colour name
+ * @return The colour, or the fallback when it could break out of a style
+ */
+export function sanitizeColor(value: unknown, fallback: string): string {
+  const color = String(value ?? '').trim();
+  return COLOR_PATTERNS.some((pattern) => pattern.test(color)) ? color : fallback;
+}
+
+/**
+ * Escape text while keeping entities that are already there
+ */
+function escapeText(text: string): string {
+  return text.replace(/&(?!(?:[a-z][a-z0-9]*|#\d+|#x[0-9a-f]+);)|[<>"']/gi, (char) =>
+    char === '&' ? '&amp;' : HTML_ESCAPES[char]
+  );
+}
+
+/**
+ * Rebuild the attributes of an allowed tag, dropping everything that isn't allowlisted
+ */
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = Object.hasOwn(ALLOWED_TAGS, tag) ? ALLOWED_TAGS[tag] : [];
+  const attributes: string[] = [];
+  const pattern = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    const name = match[1].toLowerCase();
+    let value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (!allowed.includes(name)) continue;
+
+    if (name === 'href' || name === 'src') {
+      value = sanitizeUrl(value, name === 'src' ? ['http:', 'https:'] : SAFE_URL_PROTOCOLS);
+      if (!value) continue;
+    } else if (name === 'target') {
+      if (value !== '_blank') continue;
+      attributes.push('rel="noopener noreferrer"');
+    } else if (['width', 'height', 'start'].includes(name) && !/^\d+$/.test(value)) {
+      continue;
+    }
+
+    attributes.push(`${name}="${escapeHTML(value)}"`);
+  }
+
+  return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+/**
+ * Find the end of a tag, skipping `>` inside quoted attribute values
+ * @return Index of the closing `>`, or -1 when the tag is never closed
+ */
+function findTagEnd(html: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < html.length; i += 1) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Clean rich text from the CMS: allowlisted tags and attributes are kept, unknown tags are
+ * unwrapped, scripts and similar elements are removed with their content, and links and images
+ * only keep safe URLs. Works on the string, so it gives the same result in every browser.
+ */
+export function sanitizeHTML(html: unknown): string {
+  const source = String(html ?? '');
+  const open: string[] = [];
+  let output = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const tagStart = source.indexOf('<', index);
+    if (tagStart === -1) {
+      output += escapeText(source.slice(index));
+      break;
+    }
+    output += escapeText(source.slice(index, tagStart));
+
+    // Comments, doctypes and processing instructions
+    if (source.startsWith('<!--', tagStart)) {
+      const end = source.indexOf('-->', tagStart + 4);
+      index = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[tagStart + 1] === '!' || source[tagStart + 1] === '?') {
+      const end = source.indexOf('>', tagStart);
+      index = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const tag = /^<(\/?)([a-z][a-z0-9-]*)/i.exec(source.slice(tagStart));
+    if (!tag) {
+      // A lone "<" is text
+      output += '&lt;';
+      index = tagStart + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(source, tagStart + tag[0].length);
+    if (tagEnd === -1) {
+      // Unfinished tag at the end; drop it
+      break;
+    }
+
+    const isClosing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+    index = tagEnd + 1;
+
+    if (DROPPED_TAGS.has(name)) {
+      if (!isClosing) {
+        const closing = new RegExp(`</${name}[\\s/>]`, 'i').exec(source.slice(index));
+        const end = closing ? source.indexOf('>', index + closing.index) : -1;
+        index = end === -1 ? source.length : end + 1;
+      }
+      continue;
+    }
+
+    // Own keys only: `in` would also match "constructor" from Object.prototype
+    if (!Object.hasOwn(ALLOWED_TAGS, name)) continue;
+
+    if (isClosing) {
+      const position = open.lastIndexOf(name);
+      if (position === -1) continue;
+      // Also close tags that were left open inside this one
+      output += open
+        .splice(position)
+        .reverse()
+        .map((openTag) => `</${openTag}>`)
+        .join('');
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(name, source.slice(tagStart + tag[0].length, tagEnd));
+    output += `<${name}${attributes}>`;
+    if (!VOID_TAGS.has(name)) open.push(name);
+  }
+
+  return (
+    output +
+    open
+      .reverse()
+      .map((openTag) => `</${openTag}>`)
+      .join('')
+  );
+}
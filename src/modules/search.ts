@@ -0,0 +1,327 @@
+// Search module - fuzzy free-text search over the loaded locations with autocomplete
+
+import type { Map } from 'mapbox-gl';
+
+import { eventBus, Events } from './eventBus.js';
+import { t } from './i18n.js';
+import { createPopup } from './popups.js';
+import { escapeHTML, sanitizeColor } from './sanitize.js';
+import { state } from './state.js';
+
+export interface SearchResult {
+  feature: GeoJSON.Feature;
+  score: number;
+}
+
+interface SearchField {
+  tokens: string[];
+  weight: number;
+}
+
+interface SearchEntry {
+  feature: GeoJSON.Feature;
+  fields: SearchField[];
+}
+
+// Field weights: a hit in the name counts more than one in the description
+const SEARCHABLE_FIELDS: Array<{ keys: string[]; weight: number }> = [
+  { keys: ['name'], weight: 3 },
+  { keys: ['category'], weight: 2 },
+  { keys: ['locatie'], weight: 1.5 },
+  { keys: ['description', 'descriptionv2'], weight: 1 },
+];
+
+const MAX_RESULTS = 8;
+
+let searchIndex: SearchEntry[] = [];
+let indexedFeatures: GeoJSON.Feature[] | null = null;
+
+/**
+ * Lowercase, strip HTML and diacritics ("Café" -> "cafe") and collapse punctuation
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i += 1) {
+    for (let j = 1; j < cols; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[rows - 1][cols - 1];
+}
+
+/**
+ * Typos allowed for a query token of this length
+ */
+function allowedEdits(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Score how well a query token matches a word (0 = no match, 1 = exact)
+ */
+function matchToken(queryToken: string, word: string): number {
+  if (word === queryToken) return 1;
+  if (word.startsWith(queryToken)) return 0.9;
+  if (queryToken.length >= 3 && word.includes(queryToken)) return 0.7;
+
+  const maxEdits = allowedEdits(queryToken.length);
+  if (maxEdits === 0) return 0;
+
+  // Compare with the start of longer words too, so typos work while typing
+  const distance = Math.min(
+    editDistance(queryToken, word),
+    word.length > queryToken.length
+      ? editDistance(queryToken, word.slice(0, queryToken.length))
+      : Infinity
+  );
+
+  return distance <= maxEdits ? 0.6 - distance * 0.15 : 0;
+}
+
+/**
+ * Build the search index from the loaded features
+ */
+export function buildSearchIndex(features: GeoJSON.Feature[]): void {
+  searchIndex = features.map((feature) => {
+    const properties = feature.properties || {};
+
+    return {
+      feature,
+      fields: SEARCHABLE_FIELDS.map(({ keys, weight }) => ({
+        weight,
+        tokens: tokenize(
+          keys
+            .map((key) => properties[key])
+            .filter((value) => typeof value === 'string')
+            .join(' ')
+        ),
+      })),
+    };
+  });
+  indexedFeatures = features;
+}
+
+/**
+ * Search the loaded locations
+ * @param query - Free text, may contain typos and diacritics
+ * @param limit - Maximum number of results
+ */
+export function searchLocations(query: string, limit: number = MAX_RESULTS): SearchResult[] {
+  // Rebuild when the data was replaced since the last search
+  if (indexedFeatures !== state.mapLocations.features) {
+    buildSearchIndex(state.mapLocations.features);
+  }
+
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  searchIndex.forEach(({ feature, fields }) => {
+    let score = 0;
+
+    // Every query token has to match somewhere
+    const allMatched = queryTokens.every((queryToken) => {
+      let best = 0;
+      fields.forEach(({ tokens, weight }) => {
+        tokens.forEach((word) => {
+          best = Math.max(best, matchToken(queryToken, word) * weight);
+        });
+      });
+      score += best;
+      return best > 0;
+    });
+
+    if (allMatched) {
+      results.push({ feature, score });
+    }
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        String(a.feature.properties?.name).localeCompare(String(b.feature.properties?.name))
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Create the search control in the top-left map corner
+ */
+function createSearchControl(): HTMLInputElement | null {
+  const controlContainer = document.querySelector('.mapboxgl-ctrl-top-left');
+  if (!controlContainer) return null;
+
+  const container = document.createElement('div');
+  container.className = 'mapboxgl-ctrl map-search';
+
+  const input = document.createElement('input');
+  input.type = 'search';
+  input.className = 'map-search-input';
+  container.appendChild(input);
+
+  controlContainer.appendChild(container);
+  return input;
+}
+
+/**
+ * Setup the search box with autocomplete.
+ * Uses a `.map-search-input` element from the page when present, otherwise adds a map control.
+ */
+export function setupSearch(map: Map): void {
+  map.once('load', () => {
+    const input =
+      document.querySelector<HTMLInputElement>('.map-search-input') || createSearchControl();
+    if (!input) return;
+
+    const list = document.createElement('ul');
+    list.id = 'map-search-results';
+    list.className = 'map-search-results';
+    list.setAttribute('role', 'listbox');
+    list.hidden = true;
+    input.insertAdjacentElement('afterend', list);
+
+    // A placeholder set in Webflow is kept as is
+    const hasOwnPlaceholder = input.placeholder !== '';
+    const applyTexts = () => {
+      if (!hasOwnPlaceholder) input.placeholder = t('search.placeholder');
+      input.setAttribute('aria-label', t('search.label'));
+    };
+
+    applyTexts();
+    input.autocomplete = 'off';
+    input.setAttribute('role', 'combobox');
+    input.setAttribute('aria-autocomplete', 'list');
+    input.setAttribute('aria-controls', list.id);
+    input.setAttribute('aria-expanded', 'false');
+
+    let results: SearchResult[] = [];
+    let activeIndex = -1;
+
+    const close = () => {
+      list.hidden = true;
+      activeIndex = -1;
+      input.setAttribute('aria-expanded', 'false');
+      input.removeAttribute('aria-activedescendant');
+    };
+
+    const highlight = (index: number) => {
+      activeIndex = index;
+      list.querySelectorAll<HTMLElement>('.map-search-result').forEach((item, itemIndex) => {
+        const isActive = itemIndex === index;
+        item.classList.toggle('is--active', isActive);
+        item.setAttribute('aria-selected', String(isActive));
+        if (isActive) {
+          input.setAttribute('aria-activedescendant', item.id);
+          item.scrollIntoView({ block: 'nearest' });
+        }
+      });
+    };
+
+    const select = (index: number) => {
+      const result = results[index];
+      if (!result) return;
+
+      input.value = '';
+      close();
+      input.blur();
+      createPopup(result.feature, map);
+    };
+
+    const render = () => {
+      results = searchLocations(input.value);
+      activeIndex = -1;
+
+      if (input.value.trim() === '') {
+        close();
+        return;
+      }
+
+      list.innerHTML =
+        results.length === 0
+          ? `<li class="map-search-empty" role="option" aria-disabled="true">${t('search.noResults')}</li>`
+          : results
+              .map(({ feature }, index) => {
+                const properties = feature.properties || {};
+                const color = properties.type === 'ar' ? properties.arkleur : properties.color;
+                return `
+                <li id="map-search-result-${index}" class="map-search-result" role="option" aria-selected="false" data-index="${index}">
+                  <span class="map-search-dot" style="background-color: ${sanitizeColor(color, '')}"></span>
+                  <span class="map-search-name">${escapeHTML(String(properties.name || ''))}</span>
+                  ${properties.category ? `<span class="map-search-category">${escapeHTML(String(properties.category))}</span>` : ''}
+                </li>`;
+              })
+              .join('');
+
+      list.hidden = false;
+      input.setAttribute('aria-expanded', 'true');
+    };
+
+    input.addEventListener('input', render);
+    input.addEventListener('focus', () => {
+      if (input.value.trim() !== '') render();
+    });
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'ArrowDown' && results.length > 0) {
+        e.preventDefault();
+        highlight((activeIndex + 1) % results.length);
+      } else if (e.key === 'ArrowUp' && results.length > 0) {
+        e.preventDefault();
+        highlight((activeIndex - 1 + results.length) % results.length);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        select(activeIndex >= 0 ? activeIndex : 0);
+      } else if (e.key === 'Escape') {
+        close();
+      }
+    });
+
+    // mousedown fires before the input loses focus
+    list.addEventListener('mousedown', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('.map-search-result');
+      if (!item) return;
+      e.preventDefault();
+      select(Number(item.dataset.index));
+    });
+
+    input.addEventListener('blur', close);
+
+    eventBus.on(Events.LANGUAGE_CHANGED, () => {
+      applyTexts();
+      if (!list.hidden) render();
+    });
+  });
+}
@@ -2,6 +2,7 @@
 
 // Re-export from the new state manager for backward compatibility
 export { stateManager, setActivePopup, setActiveFilters } from './stateManager.js';
+export type { TimeFilter } from './stateManager.js';
 
 // Import the new state manager
 import { stateManager } from './stateManager.js';
@@ -10,10 +11,12 @@ import { stateManager } from './stateManager.js';
 export const state = {
   get map() { return stateManager.getState().map; },
   get activePopup() { return stateManager.getState().activePopup; },
+  get selectedLocationId() { return stateManager.getState().selectedLocationId; },
   get markersAdded() { return stateManager.getState().markersAdded; },
   get modelsAdded() { return stateManager.getState().modelsAdded; },
   get mapLocations() { return stateManager.getState().mapLocations; },
   get activeFilters() { return stateManager.getState().activeFilters; },
+  get timeFilter() { return stateManager.getState().timeFilter; },
   
   // Allow direct setting for compatibility
   set map(value: any) { stateManager.setMap(value); },
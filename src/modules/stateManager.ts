@@ -3,6 +3,17 @@
 import type { Map, Popup } from 'mapbox-gl';
 import type { FeatureCollection } from 'geojson';
 import { eventBus, Events } from './eventBus.js';
+import type { WeekdayKey } from './openingHours.js';
+
+/**
+ * Time-based filter: show everything, only what is open now,
+ * or what is open on a chosen day and time (minutes since midnight)
+ */
+export interface TimeFilter {
+  mode: 'all' | 'now' | 'at';
+  day?: WeekdayKey;
+  time?: number;
+}
 
 interface AppState {
   // Map state
@@ -11,6 +22,8 @@ interface AppState {
   
   // Popup state
   activePopup: Popup | null;
+  // Key of the location shown in the popup (location ID or AR slug)
+  selectedLocationId: string | null;
   
   // Marker state
   markersAdded: boolean;
@@ -19,6 +32,7 @@ interface AppState {
   
   // Filter state
   activeFilters: Set<string>;
+  timeFilter: TimeFilter;
 }
 
 /**
@@ -34,6 +48,7 @@ class StateManager {
       map: null,
       mapLoaded: false,
       activePopup: null,
+      selectedLocationId: null,
       markersAdded: false,
       modelsAdded: false,
       mapLocations: {
@@ -41,6 +56,7 @@ class StateManager {
         features: [],
       },
       activeFilters: new Set(),
+      timeFilter: { mode: 'all' },
     };
   }
 
@@ -97,7 +113,7 @@ class StateManager {
    */
   private emitStateChangeEvents(previous: AppState, current: AppState): void {
     // Map events
-    if (!previous.mapLoaded && current.mapLoaded) {
+    if (!previous.mapLoaded && current.mapLoaded && current.map) {
       eventBus.emit(Events.MAP_LOADED, current.map);
     }
 
@@ -110,10 +126,19 @@ class StateManager {
       }
     }
 
+    // Selection events
+    if (previous.selectedLocationId !== current.selectedLocationId) {
+      eventBus.emit(Events.SELECTION_CHANGED, current.selectedLocationId);
+    }
+
     // Filter events
     if (previous.activeFilters !== current.activeFilters) {
       eventBus.emit(Events.FILTER_CHANGED, Array.from(current.activeFilters));
     }
+
+    if (previous.timeFilter !== current.timeFilter) {
+      eventBus.emit(Events.TIME_FILTER_CHANGED, current.timeFilter);
+    }
   }
 
   // Public state update methods
@@ -129,6 +154,10 @@ class StateManager {
     this.setState({ activePopup: popup });
   }
 
+  setSelectedLocation(locationId: string | null): void {
+    this.setState({ selectedLocationId: locationId });
+  }
+
   setMarkersAdded(added: boolean): void {
     this.setState({ markersAdded: added });
   }
@@ -161,6 +190,10 @@ class StateManager {
     this.setState({ activeFilters: new Set() });
   }
 
+  setTimeFilter(filter: TimeFilter): void {
+    this.setState({ timeFilter: { ...filter } });
+  }
+
   /**
    * Reset state to initial values
    */
@@ -169,6 +202,7 @@ class StateManager {
       map: null,
       mapLoaded: false,
       activePopup: null,
+      selectedLocationId: null,
       markersAdded: false,
       modelsAdded: false,
       mapLocations: {
@@ -176,6 +210,7 @@ class StateManager {
         features: [],
       },
       activeFilters: new Set(),
+      timeFilter: { mode: 'all' },
     };
     
     // Notify subscribers of reset
@@ -1,7 +1,17 @@
 // THREE.js layer module for 3D models and image planes
 
-import type { Map } from 'mapbox-gl';
+import type { Map, PointLike } from 'mapbox-gl';
+import { CONFIG } from './config.js';
+import { getSceneObjects } from './dataLoader.js';
+import {
+  getLocationKey,
+  type ImagePlaneConfig,
+  type ModelConfig,
+  type SceneObjectConfig,
+} from './dataSources.js';
+import { eventBus, Events } from './eventBus.js';
 import { resourceManager } from './resourceManager.js';
+import { state } from './state.js';
 
 // Global declarations for THREE.js
 declare global {
@@ -15,25 +25,6 @@ declare global {
 const THREE = window.THREE;
 const mapboxgl = window.mapboxgl;
 
-interface ModelConfig {
-  id: string;
-  origin: [number, number]; // [lat, lng]
-  altitude: number;
-  rotate: [number, number, number];
-  url: string;
-  scale: number;
-}
-
-interface ImagePlaneConfig {
-  id: string;
-  origin: [number, number];
-  altitude: number;
-  rotate: [number, number, number];
-  imageUrl: string;
-  width: number;
-  height: number;
-}
-
 interface Transform {
   translateX: number;
   translateY: number;
@@ -42,63 +33,87 @@ interface Transform {
   scale: number;
 }
 
-// 3D model configurations
-const modelConfigs: ModelConfig[] = [
-  {
-    id: 'schunck',
-    origin: [50.88778235149691, 5.979389928151281], // [lat, lng]
-    altitude: 0,
-    rotate: [Math.PI / 2, 0.45, 0],
-    url: 'https://cdn.jsdelivr.net/gh/Artwalters/3dmodels_heerlen@main/schunckv5.glb',
-    scale: 1.3,
-  },
-  {
-    id: 'theater',
-    origin: [50.886541206107225, 5.972454838314243],
-    altitude: 0,
-    rotate: [Math.PI / 2, 2.05, 0],
-    url: 'https://cdn.jsdelivr.net/gh/Artwalters/3dmodels_heerlen@main/theaterheerlenv4.glb',
-    scale: 0.6,
-  },
-];
-
-// Image plane configuration
-const imagePlaneConfig: ImagePlaneConfig = {
-  id: 'image1',
-  origin: [50.88801513786042, 5.980644311376565],
-  altitude: 6.5,
-  rotate: [Math.PI / 2, 0.35, 0],
-  imageUrl:
-    'https://daks2k3a4ib2z.cloudfront.net/671769e099775386585f574d/67adf2bff5be8a200ec2fa55_osgameos_mural-p-130x130q80.png',
-  width: 13,
-  height: 13,
-};
+// Object in the scene for a model or image-plane definition
+interface SceneEntry {
+  config: SceneObjectConfig;
+  object?: THREE.Object3D;
+}
 
 /**
- * Create image plane for THREE.js
- * @param config - Image plane configuration
- * @return Promise that resolves to the image plane mesh
+ * Position, rotation and scale of a model or image plane in mercator units
  */
-function createImagePlane(config: ImagePlaneConfig): Promise<THREE.Mesh> {
-  // Convert coordinates
+function getTransform(config: SceneObjectConfig): Transform {
   const mercatorCoord = mapboxgl.MercatorCoordinate.fromLngLat(
     [config.origin[1], config.origin[0]],
     config.altitude
   );
 
+  return {
+    translateX: mercatorCoord.x,
+    translateY: mercatorCoord.y,
+    translateZ: mercatorCoord.z ?? 0,
+    rotate: config.rotate,
+    // Image planes are sized in mercator units already
+    scale:
+      config.type === 'model' ? mercatorCoord.meterInMercatorCoordinateUnits() * config.scale : 1,
+  };
+}
+
+/**
+ * URL of the model or image an object is made from
+ */
+function getResourceUrl(config: SceneObjectConfig): string {
+  return config.type === 'model' ? config.url : config.imageUrl;
+}
+
+/**
+ * Whether a changed definition needs a new object, rather than only a new position
+ */
+function needsRebuild(current: SceneObjectConfig, next: SceneObjectConfig): boolean {
+  if (current.type !== next.type || getResourceUrl(current) !== getResourceUrl(next)) return true;
+  return (
+    current.type === 'imagePlane' &&
+    next.type === 'imagePlane' &&
+    (current.width !== next.width || current.height !== next.height)
+  );
+}
+
+/**
+ * Load a model; every placement gets its own copy, so one file can be placed more than once
+ */
+function createModel(config: ModelConfig, loader: unknown) {
+  return resourceManager.loadModel(config.url, loader).then((gltf: any) => gltf.scene.clone());
+}
+
+/**
+ * Create image plane for THREE.js
+ * @param config - Image plane configuration
+ * @return Promise that resolves to the image plane mesh
+ */
+function createImagePlane(config: ImagePlaneConfig): Promise<THREE.Mesh> {
   // Calculate scale
-  const meterScale = mercatorCoord.meterInMercatorCoordinateUnits();
+  const meterScale = mapboxgl.MercatorCoordinate.fromLngLat(
+    [config.origin[1], config.origin[0]],
+    config.altitude
+  ).meterInMercatorCoordinateUnits();
   const geoWidth = config.width * meterScale;
   const geoHeight = config.height * meterScale;
 
-  return resourceManager.loadOptimizedImage(config.imageUrl, { maxSize: 1024 })
-    .then((image) => {
-      // Create texture from optimized image
-      const texture = new THREE.Texture(image);
-      texture.needsUpdate = true;
-      texture.generateMipmaps = false;
-      texture.minFilter = THREE.LinearFilter;
-      texture.magFilter = THREE.LinearFilter;
+  return resourceManager
+    .loadTexture(
+      config.imageUrl,
+      (image) => {
+        // Create texture from optimized image
+        const texture = new THREE.Texture(image);
+        texture.needsUpdate = true;
+        texture.generateMipmaps = false;
+        texture.minFilter = THREE.LinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        return texture;
+      },
+      { maxSize: 1024 }
+    )
+    .then((texture) => {
 
       // Create material
       const material = new THREE.MeshBasicMaterial({
@@ -109,21 +124,27 @@ function createImagePlane(config: ImagePlaneConfig): Promise<THREE.Mesh> {
 
       // Create geometry
       const geometry = new THREE.PlaneGeometry(geoWidth, geoHeight);
-      const plane = new THREE.Mesh(geometry, material);
-
-      // Store transform data
-      plane.userData.transform = {
-        translateX: mercatorCoord.x,
-        translateY: mercatorCoord.y,
-        translateZ: mercatorCoord.z,
-        rotate: config.rotate,
-        scale: 1,
-      } as Transform;
-
-      return plane;
+      return new THREE.Mesh(geometry, material);
     });
 }
 
+/**
+ * Free what belongs to this object only; models and textures stay in the resource cache
+ */
+function disposeSceneObject(config: SceneObjectConfig, object: THREE.Object3D): void {
+  if (config.type === 'imagePlane' && object instanceof THREE.Mesh) {
+    object.geometry.dispose();
+    [object.material].flat().forEach((material) => material.dispose());
+  }
+}
+
+/**
+ * URLs of the 3D models and image planes, e.g. for precaching
+ */
+export function getThreeJSResourceUrls(): string[] {
+  return getSceneObjects().map(getResourceUrl);
+}
+
 interface CustomLayer {
   id: string;
   type: 'custom';
@@ -132,8 +153,71 @@ interface CustomLayer {
   scene?: THREE.Scene;
   camera?: THREE.Camera;
   renderer?: THREE.WebGLRenderer;
+  loader?: unknown;
+  // Models and image planes in the scene, by ID
+  entries: globalThis.Map<string, SceneEntry>;
+  highlighted: SceneEntry | null;
   onAdd: (map: Map, gl: WebGLRenderingContext) => void;
+  onRemove: () => void;
   render: (gl: WebGLRenderingContext, matrix: number[]) => void;
+  setSceneObjects: (configs: SceneObjectConfig[]) => void;
+  pick: (point: PointLike) => SceneEntry | null;
+  setHighlight: (entry: SceneEntry | null) => void;
+}
+
+// The layer on the current style
+let activeLayer: CustomLayer | null = null;
+
+// The parts of a mesh and its materials that the hover highlight touches
+interface HighlightMaterial {
+  clone(): HighlightMaterial;
+  dispose(): void;
+  emissive?: { set(color: string): void };
+  emissiveIntensity?: number;
+  color?: { lerp(color: unknown, alpha: number): void };
+}
+
+interface HighlightMesh {
+  isMesh?: boolean;
+  material: HighlightMaterial | HighlightMaterial[];
+  userData: { baseMaterial?: HighlightMaterial | HighlightMaterial[] };
+}
+
+/**
+ * Show or hide the hover highlight of an object by swapping in tinted copies of its materials
+ */
+function setObjectHighlight(
+  object: { traverse(callback: (child: HighlightMesh) => void): void },
+  highlight: boolean
+): void {
+  object.traverse((child) => {
+    if (!child.isMesh) return;
+
+    if (highlight && !child.userData.baseMaterial) {
+      const tint = (material: HighlightMaterial) => {
+        const copy = material.clone();
+        // Lit model materials glow; unlit image planes are tinted
+        if (copy.emissive) {
+          copy.emissive.set(CONFIG.SCENE_PICKING.highlightColor);
+          copy.emissiveIntensity = CONFIG.SCENE_PICKING.highlightIntensity;
+        } else {
+          copy.color?.lerp(
+            new THREE.Color(CONFIG.SCENE_PICKING.highlightColor),
+            CONFIG.SCENE_PICKING.highlightIntensity
+          );
+        }
+        return copy;
+      };
+      child.userData.baseMaterial = child.material;
+      child.material = Array.isArray(child.material)
+        ? child.material.map(tint)
+        : tint(child.material);
+    } else if (!highlight && child.userData.baseMaterial) {
+      [child.material].flat().forEach((material) => material.dispose());
+      child.material = child.userData.baseMaterial;
+      delete child.userData.baseMaterial;
+    }
+  });
 }
 
 /**
@@ -145,6 +229,8 @@ export function createThreeJSLayer(): CustomLayer {
     id: '3d-models',
     type: 'custom',
     renderingMode: '3d',
+    entries: new globalThis.Map(),
+    highlighted: null,
 
     onAdd: function (map: Map, gl: WebGLRenderingContext) {
       this.map = map;
@@ -178,47 +264,128 @@ export function createThreeJSLayer(): CustomLayer {
       });
       this.renderer.autoClear = false;
 
-      // Load 3D models
-      const loader = new (THREE as any).GLTFLoader();
-      modelConfigs.forEach((config) => {
-        // Convert coordinates
-        const mercCoord = mapboxgl.MercatorCoordinate.fromLngLat(
-          [config.origin[1], config.origin[0]],
-          config.altitude
-        );
-
-        // Load model using resource manager
-        resourceManager.loadModel(config.url, loader)
-          .then((gltf: any) => {
-            const scene3D = gltf.scene;
-
-            // Store transform data
-            scene3D.userData.transform = {
-              translateX: mercCoord.x,
-              translateY: mercCoord.y,
-              translateZ: mercCoord.z,
-              rotate: config.rotate,
-              scale: mercCoord.meterInMercatorCoordinateUnits() * config.scale,
-            } as Transform;
-
-            this.scene!.add(scene3D);
+      // Load 3D models and image planes
+      this.loader = new (THREE as any).GLTFLoader();
+      this.setSceneObjects(getSceneObjects());
+    },
+
+    onRemove: function () {
+      // The style changed; the next layer loads the objects again
+      this.setSceneObjects([]);
+    },
+
+    /**
+     * Add, move or remove objects so the scene matches the definitions
+     */
+    setSceneObjects: function (configs: SceneObjectConfig[]) {
+      const nextIds = new Set(configs.map((config) => config.id));
+
+      const removeEntry = (id: string, entry: SceneEntry) => {
+        this.entries.delete(id);
+        if (this.highlighted === entry) this.setHighlight(null);
+        if (!entry.object) return;
+        this.scene?.remove(entry.object);
+        disposeSceneObject(entry.config, entry.object);
+        resourceManager.unpinResource(getResourceUrl(entry.config));
+      };
+
+      this.entries.forEach((entry, id) => {
+        if (!nextIds.has(id)) removeEntry(id, entry);
+      });
+
+      configs.forEach((config) => {
+        const current = this.entries.get(config.id);
+        if (current && !needsRebuild(current.config, config)) {
+          // Same model or image, only placed differently
+          current.config = config;
+          if (current.object) current.object.userData.transform = getTransform(config);
+          return;
+        }
+        if (current) removeEntry(config.id, current);
+
+        const entry: SceneEntry = { config };
+        this.entries.set(config.id, entry);
+
+        const load =
+          config.type === 'model' ? createModel(config, this.loader) : createImagePlane(config);
+        load
+          .then((object) => {
+            // Removed or replaced while loading
+            if (this.entries.get(config.id) !== entry) {
+              disposeSceneObject(config, object);
+              return;
+            }
+
+            object.userData.transform = getTransform(entry.config);
+            entry.object = object;
+            this.scene!.add(object);
+
+            // Keep the model or texture cached while it is in the scene
+            resourceManager.pinResource(getResourceUrl(config));
+            this.map?.triggerRepaint();
           })
-          .catch((err: any) => {
-            // Error loading model - handled by resource manager
+          .catch(() => {
+            // Error loading the object - handled by resource manager
           });
       });
+    },
+
+    /**
+     * Find the object under a point on the map. Only objects linked to a location can be picked.
+     */
+    pick: function (point: PointLike) {
+      if (!this.map || !this.scene || !this.camera) return null;
+      if (this.map.getLayoutProperty('3d-models', 'visibility') === 'none') return null;
+
+      const candidates = Array.from(this.entries.values()).filter(
+        (entry) => entry.object && entry.config.locationId
+      );
+      if (candidates.length === 0) return null;
+
+      // Screen point to normalized device coordinates
+      const { x, y } = window.mapboxgl.Point.convert(point);
+      const canvas = this.map.getCanvas();
+      const ndcX = (x / canvas.clientWidth) * 2 - 1;
+      const ndcY = 1 - (y / canvas.clientHeight) * 2;
+
+      // Unproject the near and far plane with the inverse of Mapbox's projection matrix
+      const inverse = this.camera.projectionMatrixInverse;
+      const near = new THREE.Vector3(ndcX, ndcY, -1).applyMatrix4(inverse);
+      const far = new THREE.Vector3(ndcX, ndcY, 1).applyMatrix4(inverse);
+
+      const raycaster = new THREE.Raycaster();
+      raycaster.set(near, far.sub(near).normalize());
+      this.scene.updateMatrixWorld();
+
+      const [hit] = raycaster.intersectObjects(
+        candidates.map((entry) => entry.object),
+        true
+      );
+      if (!hit) return null;
+
+      // The hit is a mesh somewhere inside the model
+      return (
+        candidates.find((entry) => {
+          let { object } = hit;
+          while (object && object !== entry.object) object = object.parent;
+          return Boolean(object);
+        }) || null
+      );
+    },
 
-      // Load image plane
-      createImagePlane(imagePlaneConfig)
-        .then((plane) => {
-          this.scene!.add(plane);
-        })
-        .catch((err) => {/* Error loading image plane */});
+    setHighlight: function (entry: SceneEntry | null) {
+      if (entry === this.highlighted) return;
+      if (this.highlighted?.object) setObjectHighlight(this.highlighted.object, false);
+      if (entry?.object) setObjectHighlight(entry.object, true);
+      this.highlighted = entry;
+      this.map?.triggerRepaint();
     },
 
     render: function (gl: WebGLRenderingContext, matrix: number[]) {
-      // Get Mapbox matrix
+      // Mapbox's view-projection matrix is the camera; objects are placed in mercator units
       const mapMatrix = new THREE.Matrix4().fromArray(matrix);
+      this.camera!.projectionMatrix = mapMatrix;
+      this.camera!.projectionMatrixInverse = mapMatrix.clone().invert();
 
       // Apply transforms to each object
       this.scene!.traverse((child) => {
@@ -245,7 +412,7 @@ export function createThreeJSLayer(): CustomLayer {
             .multiply(rotZ);
 
           // Apply transformation
-          child.matrix = new THREE.Matrix4().copy(mapMatrix).multiply(modelMatrix);
+          child.matrix = modelMatrix;
           child.matrixAutoUpdate = false;
         }
       });
@@ -264,7 +431,51 @@ export function createThreeJSLayer(): CustomLayer {
 export function setupThreeJSLayer(map: Map): void {
   // Add THREE.js layer when map style is loaded
   map.on('style.load', () => {
-    const customLayer = createThreeJSLayer();
-    map.addLayer(customLayer);
+    activeLayer = createThreeJSLayer();
+    map.addLayer(activeLayer);
+  });
+
+  // Follow the data source when models or image planes are added, moved or removed
+  eventBus.on(Events.SCENE_OBJECTS_CHANGED, (configs) => {
+    if (activeLayer?.scene) activeLayer.setSceneObjects(configs);
   });
+
+  // Highlight linked objects under the mouse, at most once per frame
+  let hoverFrame = 0;
+  map.on('mousemove', (event) => {
+    cancelAnimationFrame(hoverFrame);
+    hoverFrame = requestAnimationFrame(() => {
+      if (!activeLayer) return;
+      const wasHighlighted = Boolean(activeLayer.highlighted);
+      const entry = activeLayer.pick(event.point);
+      activeLayer.setHighlight(entry);
+
+      // Leave the cursor to the marker layers unless the highlight changed
+      if (entry) {
+        map.getCanvas().style.cursor = 'pointer';
+      } else if (wasHighlighted) {
+        map.getCanvas().style.cursor = '';
+      }
+    });
+  });
+
+  map.on('mouseout', () => {
+    cancelAnimationFrame(hoverFrame);
+    activeLayer?.setHighlight(null);
+  });
+}
+
+/**
+ * Location linked to the 3D model or image plane at a point on the map
+ * @return The location feature, or null when no linked object is there
+ */
+export function getSceneLocationAt(point: PointLike): GeoJSON.Feature | null {
+  const locationId = activeLayer?.pick(point)?.config.locationId;
+  if (!locationId) return null;
+
+  return (
+    state.mapLocations.features.find(
+      (feature: GeoJSON.Feature) => getLocationKey(feature.properties) === locationId
+    ) || null
+  );
 }
\ No newline at end of file
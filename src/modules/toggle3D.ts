@@ -2,6 +2,9 @@
 
 import type { Map } from 'mapbox-gl';
 
+import { eventBus, Events } from './eventBus.js';
+import { t } from './i18n.js';
+
 // Global declaration for the map variable
 declare global {
   interface Window {
@@ -65,7 +68,8 @@ function updateToggleButtonState(): void {
   
   toggleButton.classList.toggle('is-active', is3DEnabled);
   toggleButton.setAttribute('aria-pressed', is3DEnabled.toString());
-  toggleButton.title = is3DEnabled ? '3D uit' : '3D aan';
+  toggleButton.title = is3DEnabled ? t('toggle3D.disable') : t('toggle3D.enable');
+  toggleButton.setAttribute('aria-label', t('toggle3D.label'));
   
   // Simple 3D icon
   toggleButton.innerHTML = is3DEnabled
@@ -101,7 +105,7 @@ function add3DToggleControl(map: Map): void {
   const button = document.createElement('button');
   button.className = 'mapboxgl-ctrl-icon toggle-3d-button';
   button.type = 'button';
-  button.setAttribute('aria-label', '3D aan/uit');
+  button.setAttribute('aria-label', t('toggle3D.label'));
   
   // Set initial state
   updateToggleButtonState();
@@ -128,6 +132,9 @@ export function initialize3DSettings(map: Map): void {
   
   // Load settings
   loadSettings();
+
+  // Update the button texts when the language is switched
+  eventBus.on(Events.LANGUAGE_CHANGED, updateToggleButtonState);
   
   // Add control when map is ready
   map.once('load', () => {
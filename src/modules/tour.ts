@@ -2,6 +2,8 @@
 
 import type { Map } from 'mapbox-gl';
 import { CONFIG } from './config.js';
+import { eventBus, Events } from './eventBus.js';
+import { t } from './i18n.js';
 
 // Global declarations for external libraries
 declare global {
@@ -16,99 +18,6 @@ declare global {
   }
 }
 
-// Language detection function
-function detectLanguage(): 'nl' | 'en' | 'de' {
-  const path = window.location.pathname;
-  if (path.includes('/en/')) return 'en';
-  if (path.includes('/de/')) return 'de';
-  return 'nl'; // Default to Dutch
-}
-
-// Translations object
-const translations = {
-  nl: {
-    welcomeMessage: 'Welkom in <strong>Heerlen</strong> deze kaart heeft veel unieke functies die ik je graag uitleg',
-    startTour: 'Start tour',
-    skipTour: 'Skip tour',
-    helpButtonTitle: 'Start rondleiding',
-    helpButtonAriaLabel: 'Start kaart rondleiding',
-    tourSteps: {
-      welcome: 'Ontdek <strong>Heerlen</strong> met deze interactieve kaart. We leiden je even rond!.',
-      mapControls: 'Gebruik deze <strong>knoppen</strong> om in/uit te zoomen en de kaart te draaien.',
-      filters: 'gebruik <strong>filters</strong> om per categorie te zoeken en te ontdekken!',
-      geolocation: 'Klik hier om je <strong>locatie</strong> aan te zetten en direct te zien waar jij je bevindt op de kaart.',
-      tryMarker: 'klik op een van de <strong>gekleurde</strong> rondjes.',
-      markerInstruction: 'Klik op een marker om door te gaan',
-      markerHint: 'Klik op "Skip" als je geen marker kunt vinden',
-      popupInfo: 'Bekijk <strong>informatie</strong> over deze plek en druk op de <strong>like-knop</strong> om deze locatie op te slaan.',
-      likeHeart: 'Klik op het <strong>hartje</strong> om al je opgeslagen favoriete locaties te bekijken.',
-      finish: 'Je bent nu klaar om <strong>Heerlen te verkennen</strong>! Klik op markers om locaties te ontdekken. Je kunt deze rondleiding opnieuw starten via het <strong>?</strong> icoon.'
-    },
-    buttons: {
-      start: 'Start',
-      skip: 'Skip',
-      back: '←',
-      next: '→',
-      ready: 'Klaar'
-    },
-    progressBarClose: 'Sluit rondleiding'
-  },
-  en: {
-    welcomeMessage: 'Welcome to <strong>Heerlen</strong>! This map has many unique features that I\'d like to show you',
-    startTour: 'Start tour',
-    skipTour: 'Skip tour',
-    helpButtonTitle: 'Start tour',
-    helpButtonAriaLabel: 'Start map tour',
-    tourSteps: {
-      welcome: 'Discover <strong>Heerlen</strong> with this interactive map. Let me show you around!',
-      mapControls: 'Use these <strong>buttons</strong> to zoom in/out and rotate the map.',
-      filters: 'Use <strong>filters</strong> to search and discover by category!',
-      geolocation: 'Click here to enable your <strong>location</strong> and see where you are on the map.',
-      tryMarker: 'Click on one of the <strong>colored</strong> circles.',
-      markerInstruction: 'Click on a marker to continue',
-      markerHint: 'Click "Skip" if you can\'t find a marker',
-      popupInfo: 'View <strong>information</strong> about this place and click the <strong>like button</strong> to save this location.',
-      likeHeart: 'Click on the <strong>heart</strong> to view all your saved favorite locations.',
-      finish: 'You\'re now ready to <strong>explore Heerlen</strong>! Click on markers to discover locations. You can restart this tour anytime via the <strong>?</strong> icon.'
-    },
-    buttons: {
-      start: 'Start',
-      skip: 'Skip',
-      back: '←',
-      next: '→',
-      ready: 'Done'
-    },
-    progressBarClose: 'Close tour'
-  },
-  de: {
-    welcomeMessage: 'Willkommen in <strong>Heerlen</strong>! Diese Karte hat viele einzigartige Funktionen, die ich Ihnen gerne zeigen möchte',
-    startTour: 'Tour starten',
-    skipTour: 'Tour überspringen',
-    helpButtonTitle: 'Tour starten',
-    helpButtonAriaLabel: 'Kartentour starten',
-    tourSteps: {
-      welcome: 'Entdecken Sie <strong>Heerlen</strong> mit dieser interaktiven Karte. Lassen Sie mich Ihnen alles zeigen!',
-      mapControls: 'Verwenden Sie diese <strong>Tasten</strong> zum Zoomen und Drehen der Karte.',
-      filters: 'Verwenden Sie <strong>Filter</strong>, um nach Kategorien zu suchen und zu entdecken!',
-      geolocation: 'Klicken Sie hier, um Ihren <strong>Standort</strong> zu aktivieren und zu sehen, wo Sie sich auf der Karte befinden.',
-      tryMarker: 'Klicken Sie auf einen der <strong>farbigen</strong> Kreise.',
-      markerInstruction: 'Klicken Sie auf einen Marker, um fortzufahren',
-      markerHint: 'Klicken Sie auf "Überspringen", wenn Sie keinen Marker finden können',
-      popupInfo: 'Sehen Sie sich <strong>Informationen</strong> über diesen Ort an und klicken Sie auf die <strong>Like-Schaltfläche</strong>, um diesen Ort zu speichern.',
-      likeHeart: 'Klicken Sie auf das <strong>Herz</strong>, um alle Ihre gespeicherten Lieblingsorte anzuzeigen.',
-      finish: 'Sie sind jetzt bereit, <strong>Heerlen zu erkunden</strong>! Klicken Sie auf Marker, um Orte zu entdecken. Sie können diese Tour jederzeit über das <strong>?</strong> Symbol neu starten.'
-    },
-    buttons: {
-      start: 'Start',
-      skip: 'Überspringen',
-      back: '←',
-      next: '→',
-      ready: 'Fertig'
-    },
-    progressBarClose: 'Tour schließen'
-  }
-};
-
 // Tour cleanup tracking
 let tourIntervals: Set<number> = new Set();
 let tourTimeouts: Set<number> = new Set();
@@ -189,6 +98,9 @@ function setupTourSystem(map: Map): void {
   // Create persistent help button regardless of first visit
   addHelpButton(map);
 
+  // Rebuild the tour texts when the language is switched
+  eventBus.on(Events.LANGUAGE_CHANGED, () => relocalizeTour(map));
+
   // Show tour on first visit or if manually triggered
   if (!walkthroughShown || window.location.hash === '#tutorial') {
     // Show a welcome message before starting tour
@@ -199,22 +111,44 @@ function setupTourSystem(map: Map): void {
   }
 }
 
+/**
+ * Show the help button, welcome message and a running tour in the new language.
+ * A running tour is rebuilt and continues at the same step.
+ * @param map - The mapbox map instance
+ */
+function relocalizeTour(map: Map): void {
+  addHelpButton(map);
+
+  const welcomeOverlay = document.querySelector('.welcome-overlay');
+  if (welcomeOverlay) {
+    welcomeOverlay.querySelector('.welcome-card p')!.innerHTML = t('tour.welcomeMessage');
+    welcomeOverlay.querySelector('.welcome-start-btn')!.textContent = t('tour.startTour');
+    welcomeOverlay.querySelector('.welcome-skip-btn')!.textContent = t('tour.skipTour');
+  }
+
+  if (window.activeTour && window.activeTour.isActive()) {
+    const currentStep = window.activeTour.getCurrentStep();
+    window.activeTour.cancel();
+    startTour(map);
+    if (currentStep) {
+      window.activeTour.show(currentStep.id);
+    }
+  }
+}
+
 /**
  * Add welcome message overlay with animation
  * @param callback - Callback function to execute after welcome
  */
 function showWelcomeMessage(callback: () => void): void {
-  const lang = detectLanguage();
-  const t = translations[lang];
-  
   const overlay = document.createElement('div');
   overlay.className = 'welcome-overlay';
   overlay.innerHTML = `
     <div class="welcome-card">
-      <p>${t.welcomeMessage}</p>
+      <p>${t('tour.welcomeMessage')}</p>
       <div class="welcome-buttons">
-        <button class="welcome-start-btn">${t.startTour}</button>
-        <button class="welcome-skip-btn">${t.skipTour}</button>
+        <button class="welcome-start-btn">${t('tour.startTour')}</button>
+        <button class="welcome-skip-btn">${t('tour.skipTour')}</button>
       </div>
     </div>
   `;
@@ -252,9 +186,6 @@ function showWelcomeMessage(callback: () => void): void {
  * @param map - The mapbox map instance
  */
 function addHelpButton(map: Map): void {
-  const lang = detectLanguage();
-  const t = translations[lang];
-
   // Remove existing help button if any
   const existingContainer = document.querySelector('.help-button-container');
   if (existingContainer) {
@@ -264,8 +195,8 @@ function addHelpButton(map: Map): void {
   const helpButton = document.createElement('button');
   helpButton.className = 'help-button';
   helpButton.innerHTML = '?';
-  helpButton.title = t.helpButtonTitle;
-  helpButton.setAttribute('aria-label', t.helpButtonAriaLabel);
+  helpButton.title = t('tour.helpButtonTitle');
+  helpButton.setAttribute('aria-label', t('tour.helpButtonAriaLabel'));
 
   helpButton.addEventListener('click', () => {
     if (window.activeTour && window.activeTour.isActive()) {
@@ -297,8 +228,6 @@ function addHelpButton(map: Map): void {
  * @param map - The mapbox map instance
  */
 export function startTour(map: Map): void {
-  const lang = detectLanguage();
-  const t = translations[lang];
   // Create tour with enhanced options
   const tour = new window.Shepherd.Tour({
     useModalOverlay: false,
@@ -434,10 +363,10 @@ export function startTour(map: Map): void {
   // Step 1: Welcome (with overlay) - no title
   tour.addStep({
     id: 'welcome',
-    text: t.tourSteps.welcome,
+    text: t('tour.steps.welcome'),
     buttons: [
       {
-        text: t.buttons.start,
+        text: t('tour.buttons.start'),
         action: tour.next,
         classes: 'shepherd-button-primary',
       },
@@ -456,17 +385,17 @@ export function startTour(map: Map): void {
     {
       id: 'map-controls',
       attachTo: safelyGetElement('.mapboxgl-ctrl-top-right', '.mapboxgl-ctrl-group'),
-      text: t.tourSteps.mapControls,
+      text: t('tour.steps.mapControls'),
     },
     {
       id: 'filters',
       attachTo: safelyGetElement('.map-filter-wrap-2', '.filter-btn'),
-      text: t.tourSteps.filters,
+      text: t('tour.steps.filters'),
     },
     {
       id: 'geolocation',
       attachTo: safelyGetElement('.mapboxgl-ctrl-geolocate', '.mapboxgl-ctrl-bottom-right'),
-      text: t.tourSteps.geolocation,
+      text: t('tour.steps.geolocation'),
     },
   ];
 
@@ -478,12 +407,12 @@ export function startTour(map: Map): void {
         ...stepConfig,
         buttons: [
           {
-            text: t.buttons.back,
+            text: t('tour.buttons.back'),
             action: tour.back,
             classes: 'shepherd-button-secondary',
           },
           {
-            text: t.buttons.next,
+            text: t('tour.buttons.next'),
             action: tour.next,
             classes: 'shepherd-button-primary',
           },
@@ -512,7 +441,7 @@ export function startTour(map: Map): void {
     id: 'try-marker',
     text: `
       <div class="tour-marker-instruction">
-        <p>${t.tourSteps.tryMarker}</p>
+        <p>${t('tour.steps.tryMarker')}</p>
         <div class="marker-animation">
           <span class="pulse-dot"></span>
           <span class="instruction-arrow">↓</span>
@@ -521,12 +450,12 @@ export function startTour(map: Map): void {
     `,
     buttons: [
       {
-        text: t.buttons.back,
+        text: t('tour.buttons.back'),
         action: tour.back,
         classes: 'shepherd-button-secondary',
       },
       {
-        text: t.buttons.skip,
+        text: t('tour.buttons.skip'),
         action: () => {
           window.tourWaitingForMarkerClick = false;
           tour.show('popup-info');
@@ -541,7 +470,7 @@ export function startTour(map: Map): void {
         // Show floating message to encourage clicking a marker
         const message = document.createElement('div');
         message.className = 'tour-instruction-message';
-        message.textContent = t.tourSteps.markerInstruction;
+        message.textContent = t('tour.steps.markerInstruction');
         document.body.appendChild(message);
 
         // Set a timeout to remove the message after animation completes
@@ -590,7 +519,7 @@ export function startTour(map: Map): void {
             // If user hasn't clicked after 15 seconds, show hint message
             const hintMessage = document.createElement('div');
             hintMessage.className = 'tour-instruction-message';
-            hintMessage.textContent = t.tourSteps.markerHint;
+            hintMessage.textContent = t('tour.steps.markerHint');
             document.body.appendChild(hintMessage);
 
             setTimeout(() => {
@@ -628,15 +557,15 @@ export function startTour(map: Map): void {
       const popup = document.querySelector('.mapboxgl-popup-content');
       return popup ? { element: popup, on: 'top' } : null;
     },
-    text: t.tourSteps.popupInfo,
+    text: t('tour.steps.popupInfo'),
     buttons: [
       {
-        text: t.buttons.back,
+        text: t('tour.buttons.back'),
         action: tour.back,
         classes: 'shepherd-button-secondary',
       },
       {
-        text: t.buttons.next,
+        text: t('tour.buttons.next'),
         action: tour.next,
         classes: 'shepherd-button-primary',
       },
@@ -694,15 +623,15 @@ export function startTour(map: Map): void {
     tour.addStep({
       id: 'like-heart-svg',
       attachTo: heartAttachment,
-      text: t.tourSteps.likeHeart,
+      text: t('tour.steps.likeHeart'),
       buttons: [
         {
-          text: t.buttons.back,
+          text: t('tour.buttons.back'),
           action: tour.back,
           classes: 'shepherd-button-secondary',
         },
         {
-          text: t.buttons.next,
+          text: t('tour.buttons.next'),
           action: tour.next,
           classes: 'shepherd-button-primary',
         },
@@ -729,10 +658,10 @@ export function startTour(map: Map): void {
   // Final step - minimalist style
   tour.addStep({
     id: 'finish',
-    text: t.tourSteps.finish,
+    text: t('tour.steps.finish'),
     buttons: [
       {
-        text: t.buttons.ready,
+        text: t('tour.buttons.ready'),
         action: tour.complete,
         classes: 'shepherd-button-primary',
       },
@@ -807,9 +736,6 @@ export function startTour(map: Map): void {
  * @param tour - The tour instance
  */
 function addProgressBar(tour: any): void {
-  const lang = detectLanguage();
-  const t = translations[lang];
-  
   // Remove existing progress bar if any
   const existingBar = document.querySelector('.shepherd-progress-bar');
   if (existingBar) {
@@ -829,8 +755,8 @@ function addProgressBar(tour: any): void {
   const closeButton = document.createElement('button');
   closeButton.className = 'progress-bar-close-btn'; // Use your existing CSS class
   closeButton.innerHTML = '×'; // The 'x' symbol (HTML entity)
-  closeButton.setAttribute('aria-label', t.progressBarClose); // For accessibility
-  closeButton.title = t.progressBarClose; // Tooltip
+  closeButton.setAttribute('aria-label', t('tour.progressBarClose')); // For accessibility
+  closeButton.title = t('tour.progressBarClose'); // Tooltip
 
   // Add click event listener to cancel the tour
   closeButton.addEventListener('click', () => {
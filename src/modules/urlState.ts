@@ -0,0 +1,196 @@
+// URL state module - keeps the selected location, filters and camera in the address bar
+// Format: ?loc=<id>&filters=a,b&view=lng,lat,zoom,pitch,bearing
+
+import type { Map } from 'mapbox-gl';
+
+import { getLocationKey } from './dataSources.js';
+import { eventBus, Events } from './eventBus.js';
+import { setFilters } from './filters.js';
+import { closeActivePopup, createPopup, isPopupOpening } from './popups.js';
+import { state, stateManager } from './state.js';
+
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+  pitch: number;
+  bearing: number;
+}
+
+export interface UrlState {
+  loc: string | null;
+  filters: string[] | null;
+  view: MapView | null;
+}
+
+const PARAM_LOCATION = 'loc';
+const PARAM_FILTERS = 'filters';
+const PARAM_VIEW = 'view';
+
+/**
+ * Parse the map state from a query string
+ */
+export function parseUrlState(search: string = window.location.search): UrlState {
+  const params = new URLSearchParams(search);
+
+  const filtersParam = params.get(PARAM_FILTERS);
+  const filters =
+    filtersParam === null ? null : filtersParam.split(',').filter((filter) => filter !== '');
+
+  let view: MapView | null = null;
+  const viewParam = params.get(PARAM_VIEW);
+  if (viewParam) {
+    const [lng, lat, zoom, pitch = 0, bearing = 0] = viewParam.split(',').map(Number);
+    const valid =
+      [lng, lat, zoom, pitch, bearing].every(Number.isFinite) &&
+      Math.abs(lng) <= 180 &&
+      Math.abs(lat) <= 90;
+    if (valid) {
+      view = { center: [lng, lat], zoom, pitch, bearing };
+    }
+  }
+
+  return { loc: params.get(PARAM_LOCATION) || null, filters, view };
+}
+
+/**
+ * Build the query string for the current map state, keeping unrelated parameters
+ */
+function buildUrl(map: Map): string {
+  const params = new URLSearchParams(window.location.search);
+
+  const { selectedLocationId } = state;
+  if (selectedLocationId) {
+    params.set(PARAM_LOCATION, selectedLocationId);
+  } else {
+    params.delete(PARAM_LOCATION);
+  }
+
+  const filters = Array.from(state.activeFilters);
+  if (filters.length > 0) {
+    params.set(PARAM_FILTERS, filters.join(','));
+  } else {
+    params.delete(PARAM_FILTERS);
+  }
+
+  const { lng, lat } = map.getCenter();
+  params.set(
+    PARAM_VIEW,
+    [
+      lng.toFixed(6),
+      lat.toFixed(6),
+      map.getZoom().toFixed(2),
+      map.getPitch().toFixed(1),
+      map.getBearing().toFixed(1),
+    ].join(',')
+  );
+
+  const query = params.toString().replace(/%2C/g, ',');
+  return `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+}
+
+/**
+ * Find a loaded feature by its location key
+ */
+function findLocation(key: string): GeoJSON.Feature | undefined {
+  return state.mapLocations.features.find(
+    (feature: GeoJSON.Feature) => getLocationKey(feature.properties) === key
+  );
+}
+
+/**
+ * Open the popup for a location key once the data is available
+ * @return Resolves when the popup is open, or when the location does not exist
+ */
+function openLocation(key: string, map: Map): Promise<void> {
+  const open = async () => {
+    const feature = findLocation(key);
+    if (feature) {
+      await createPopup(feature, map);
+    }
+  };
+
+  if (state.mapLocations.features.length > 0) {
+    return open();
+  }
+  return new Promise((resolve) => {
+    eventBus.once(Events.DATA_LOADED, () => open().then(resolve, resolve));
+  });
+}
+
+/**
+ * Apply a URL state to the map: camera, filters and selected location
+ */
+async function applyUrlState(urlState: UrlState, map: Map): Promise<void> {
+  if (urlState.view) {
+    map.jumpTo(urlState.view);
+  }
+
+  if (urlState.filters) {
+    setFilters(urlState.filters);
+  }
+
+  if (urlState.loc) {
+    if (urlState.loc !== state.selectedLocationId) {
+      await openLocation(urlState.loc, map);
+    }
+  } else if (state.activePopup) {
+    closeActivePopup();
+  }
+}
+
+/**
+ * Restore the map from the URL and keep the URL in sync with the map.
+ * Selecting a location adds a history entry; camera and filter changes replace it.
+ */
+export function setupUrlStateSync(map: Map): void {
+  // Read before other modules start changing state (stored filters, initial camera)
+  const initialState = parseUrlState();
+
+  // The URL is only written once the initial state has been restored
+  let syncing = false;
+
+  const replaceUrl = () => {
+    if (!syncing) return;
+    window.history.replaceState(window.history.state, '', buildUrl(map));
+  };
+
+  map.once('load', () => {
+    applyUrlState(initialState, map)
+      .catch(() => {
+        // Restoring is best effort - a stale link should not break the map
+      })
+      .finally(() => {
+        syncing = true;
+        replaceUrl();
+      });
+  });
+
+  // Popups are swapped by closing the old one first (new selection, back from the
+  // image view), so only clear the selection when no other popup is on its way
+  eventBus.on(Events.POPUP_CLOSED, () => {
+    window.setTimeout(() => {
+      if (!state.activePopup && !isPopupOpening()) {
+        stateManager.setSelectedLocation(null);
+      }
+    }, 0);
+  });
+
+  eventBus.on(Events.SELECTION_CHANGED, (locationId: string | null) => {
+    // Already in the URL when the selection came from back/forward
+    if (!syncing || parseUrlState().loc === locationId) return;
+    window.history.pushState(null, '', buildUrl(map));
+  });
+
+  eventBus.on(Events.FILTER_CHANGED, replaceUrl);
+  map.on('moveend', replaceUrl);
+
+  window.addEventListener('popstate', () => {
+    if (!syncing) return;
+    const urlState = parseUrlState();
+
+    // Without filters in the URL the entry had none active
+    applyUrlState({ ...urlState, filters: urlState.filters || [] }, map).catch(() => {
+      // The entry's popup could not be opened; the rest of the state is applied
+    });
+  });
+}
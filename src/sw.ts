@@ -0,0 +1,204 @@
+/**
+ * Service worker - keeps the map usable on a poor or missing connection.
+ * Built to dist/sw.js; it has to be served from the site's own origin to control the page.
+ */
+
+// Messages from the page
+export interface PrecacheRequest {
+  type: 'PRECACHE';
+  urls: string[];
+}
+
+// Messages to the page: whether responses currently come from the network or the cache
+export type ServiceWorkerNotice =
+  | { type: 'SOURCE'; fromCache: boolean }
+  | { type: 'PRECACHED'; cached: number; total: number };
+
+// The DOM typings don't describe the worker scope; only the parts used here
+interface WorkerEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface WorkerFetchEvent extends WorkerEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface WorkerMessageEvent extends WorkerEvent {
+  data: unknown;
+  ports: MessagePort[];
+}
+
+interface WorkerScope {
+  skipWaiting(): Promise<void>;
+  clients: {
+    claim(): Promise<void>;
+    matchAll(): Promise<Array<{ postMessage(message: ServiceWorkerNotice): void }>>;
+  };
+  addEventListener(type: 'install' | 'activate', listener: (event: WorkerEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: WorkerFetchEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: WorkerMessageEvent) => void): void;
+}
+
+const worker = self as unknown as WorkerScope;
+
+// Bump to drop all caches of earlier versions
+const CACHE_VERSION = 'v1';
+const PRECACHE = `heerlen-precache-${CACHE_VERSION}`;
+const RUNTIME = `heerlen-runtime-${CACHE_VERSION}`;
+const RUNTIME_MAX_ENTRIES = 400;
+const PRECACHE_BATCH_SIZE = 6;
+
+let servingFromCache = false;
+
+/**
+ * Mapbox adds access tokens and session parameters to its URLs; leave them out of the cache key
+ */
+function getCacheKey(url: string): string {
+  const parsed = new URL(url);
+  if (/(^|\.)mapbox\.com$/.test(parsed.hostname)) {
+    parsed.search = '';
+  }
+  return parsed.href;
+}
+
+/**
+ * Images, models, fonts and map tiles don't change under the same URL
+ */
+function isImmutable(request: Request): boolean {
+  return (
+    request.destination === 'image' ||
+    request.destination === 'font' ||
+    /\.(glb|gltf|pbf|mvt|png|jpe?g|webp|avif|svg)(\?|$)/i.test(request.url) ||
+    /\/v4\/[^/]+\/\d+\/\d+\/\d+/.test(request.url)
+  );
+}
+
+/**
+ * Tell the pages when responses switch between network and cache
+ */
+async function reportSource(fromCache: boolean): Promise<void> {
+  if (fromCache === servingFromCache) return;
+  servingFromCache = fromCache;
+
+  const clients = await worker.clients.matchAll();
+  clients.forEach((client) => client.postMessage({ type: 'SOURCE', fromCache }));
+}
+
+async function putInRuntimeCache(url: string, response: Response): Promise<void> {
+  const cache = await caches.open(RUNTIME);
+  await cache.put(getCacheKey(url), response);
+
+  // Oldest entries first
+  const keys = await cache.keys();
+  await Promise.all(
+    keys.slice(0, Math.max(0, keys.length - RUNTIME_MAX_ENTRIES)).map((key) => cache.delete(key))
+  );
+}
+
+/**
+ * Try the network, fall back to the cache when it fails
+ */
+async function networkFirst(request: Request): Promise<Response> {
+  try {
+    const response = await fetch(request);
+    if (response.ok) void putInRuntimeCache(request.url, response.clone());
+    void reportSource(false);
+    return response;
+  } catch (error) {
+    const cached = await caches.match(getCacheKey(request.url));
+    if (!cached) throw error;
+    void reportSource(true);
+    return cached;
+  }
+}
+
+/**
+ * Use the cached copy when there is one, otherwise fetch and keep it
+ */
+async function cacheFirst(request: Request): Promise<Response> {
+  const cached = await caches.match(getCacheKey(request.url));
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) void putInRuntimeCache(request.url, response.clone());
+  return response;
+}
+
+/**
+ * Download everything the page needs offline; URLs that are already cached are skipped
+ */
+async function precache(urls: string[]): Promise<number> {
+  const cache = await caches.open(PRECACHE);
+  let cached = 0;
+
+  for (let i = 0; i < urls.length; i += PRECACHE_BATCH_SIZE) {
+    await Promise.all(
+      urls.slice(i, i + PRECACHE_BATCH_SIZE).map(async (url) => {
+        const key = getCacheKey(url);
+        if (await cache.match(key)) {
+          cached += 1;
+          return;
+        }
+        try {
+          const response = await fetch(url);
+          if (response.ok) {
+            await cache.put(key, response);
+            cached += 1;
+          }
+        } catch {
+          // Offline or not allowed cross-origin; the runtime cache may still pick it up later
+        }
+      })
+    );
+  }
+
+  return cached;
+}
+
+worker.addEventListener('install', (event) => {
+  event.waitUntil(worker.skipWaiting());
+});
+
+worker.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith('heerlen-') && ![PRECACHE, RUNTIME].includes(name))
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => worker.clients.claim())
+  );
+});
+
+worker.addEventListener('fetch', (event) => {
+  const { request } = event;
+
+  // Streams (live reload) and partial content can't be cached
+  if (
+    request.method !== 'GET' ||
+    !request.url.startsWith('http') ||
+    request.headers.has('range') ||
+    request.headers.get('accept') === 'text/event-stream'
+  ) {
+    return;
+  }
+
+  event.respondWith(isImmutable(request) ? cacheFirst(request) : networkFirst(request));
+});
+
+worker.addEventListener('message', (event) => {
+  const message = event.data as PrecacheRequest | null;
+  if (message?.type !== 'PRECACHE' || !Array.isArray(message.urls)) return;
+
+  event.waitUntil(
+    precache(message.urls).then((cached) => {
+      const notice: ServiceWorkerNotice = { type: 'PRECACHED', cached, total: message.urls.length };
+      event.ports[0]?.postMessage(notice);
+    })
+  );
+});
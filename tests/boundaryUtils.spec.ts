@@ -0,0 +1,86 @@
+import { expect, test } from '@playwright/test';
+
+import {
+  calculateDistance,
+  isInsideBoundary,
+  isPointInArea,
+} from '../src/modules/boundaryUtils.js';
+import { CONFIG } from '../src/modules/config.js';
+
+const square = (x: number, y: number, size: number): GeoJSON.Position[] => [
+  [x, y],
+  [x + size, y],
+  [x + size, y + size],
+  [x, y + size],
+  [x, y],
+];
+
+/**
+ * Point-in-polygon checks and distances for the service area
+ */
+test.describe('isPointInArea', () => {
+  const polygon: GeoJSON.Polygon = { type: 'Polygon', coordinates: [square(0, 0, 10)] };
+
+  test('tells points inside a polygon from points outside it', () => {
+    expect(isPointInArea([5, 5], polygon)).toBe(true);
+    expect(isPointInArea([15, 5], polygon)).toBe(false);
+    expect(isPointInArea([5, -1], polygon)).toBe(false);
+  });
+
+  test('handles concave rings', () => {
+    // A "U" shape: the notch in the middle is outside
+    const u: GeoJSON.Polygon = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [9, 0],
+          [9, 9],
+          [6, 9],
+          [6, 3],
+          [3, 3],
+          [3, 9],
+          [0, 9],
+          [0, 0],
+        ],
+      ],
+    };
+    expect(isPointInArea([1.5, 6], u)).toBe(true);
+    expect(isPointInArea([4.5, 6], u)).toBe(false);
+    expect(isPointInArea([4.5, 1.5], u)).toBe(true);
+  });
+
+  test('leaves out the holes of a polygon', () => {
+    const withHole: GeoJSON.Polygon = {
+      type: 'Polygon',
+      coordinates: [square(0, 0, 10), square(4, 4, 2)],
+    };
+    expect(isPointInArea([5, 5], withHole)).toBe(false);
+    expect(isPointInArea([2, 2], withHole)).toBe(true);
+  });
+
+  test('checks every polygon of a MultiPolygon', () => {
+    const islands: GeoJSON.MultiPolygon = {
+      type: 'MultiPolygon',
+      coordinates: [[square(0, 0, 2)], [square(10, 10, 2)]],
+    };
+    expect(isPointInArea([1, 1], islands)).toBe(true);
+    expect(isPointInArea([11, 11], islands)).toBe(true);
+    expect(isPointInArea([5, 5], islands)).toBe(false);
+  });
+});
+
+test.describe('isInsideBoundary', () => {
+  test('contains the centre of Heerlen, not Maastricht', () => {
+    expect(isInsideBoundary(CONFIG.MAP.boundary.center)).toBe(true);
+    expect(isInsideBoundary([5.6909, 50.8514])).toBe(false);
+  });
+});
+
+test.describe('calculateDistance', () => {
+  test('returns kilometers along the earth surface', () => {
+    // Heerlen to Maastricht is about 20 km as the crow flies
+    expect(calculateDistance(50.8877, 5.9771, 50.8514, 5.6909)).toBeCloseTo(20.4, 0);
+    expect(calculateDistance(50.88, 5.97, 50.88, 5.97)).toBe(0);
+  });
+});
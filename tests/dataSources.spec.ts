@@ -0,0 +1,112 @@
+import { expect, test } from '@playwright/test';
+
+import {
+  getLocationKey,
+  type LocationDataSource,
+  parseLocationResponse,
+} from '../src/modules/dataSources.js';
+
+/**
+ * Parsing of the JSON/GeoJSON data source, and the fallback to the Webflow lists
+ */
+test.describe('parseLocationResponse', () => {
+  test('reads a GeoJSON FeatureCollection with locations, AR items and 3D objects', () => {
+    const { features, sceneObjects, issues } = parseLocationResponse({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [5.9792, 50.8884] },
+          properties: { id: 'schunck', name: 'Glaspaleis Schunck', category: 'CULTUUR' },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [5.98, 50.887] },
+          properties: { type: 'ar', slug: 'mural', name: 'Mural', link_ar_mobile: 'https://a.nl' },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [5.981, 50.889] },
+          properties: { type: 'model', id: 'theater', url: 'https://a.nl/theater.glb' },
+        },
+      ],
+    });
+
+    expect(features).toHaveLength(2);
+    expect(features[0].geometry.coordinates).toEqual([5.9792, 50.8884]);
+    expect(features[0].properties).toMatchObject({ id: 'schunck', name: 'Glaspaleis Schunck' });
+    expect(features[1].properties).toMatchObject({ type: 'ar', slug: 'mural', arrayID: 1 });
+    expect(sceneObjects).toHaveLength(1);
+    expect(issues).toEqual([]);
+  });
+
+  test('reads flat CMS records from { locations, ar }', () => {
+    const { features, sceneObjects } = parseLocationResponse({
+      locations: [{ locationID: 'a', name: 'A', locationLat: '50.88', locationLong: '5.97' }],
+      ar: [
+        { slug_ar: 'b', name_ar: 'B', latitude_ar: 50.89, longitude_ar: 5.98, link_ar_mobile: 'x' },
+      ],
+    });
+
+    expect(features.map((feature) => feature.geometry.coordinates)).toEqual([
+      [5.97, 50.88],
+      [5.98, 50.89],
+    ]);
+    expect(features[0].properties).toMatchObject({ id: 'a', category: 'Overig' });
+    expect(features[1].properties).toMatchObject({ type: 'ar', slug: 'b' });
+    // Without model lists the default 3D objects stay in place
+    expect(sceneObjects).toBeUndefined();
+  });
+
+  test('reads a plain array of location records', () => {
+    const { features } = parseLocationResponse([
+      { id: 'a', name: 'A', lat: 50.88, lng: 5.97 },
+      { id: 'b', name: 'B', lat: 50.89, lng: 5.98 },
+    ]);
+
+    expect(features.map((feature) => getLocationKey(feature.properties))).toEqual(['a', 'b']);
+  });
+
+  test('skips invalid coordinates and duplicate IDs and reports them', () => {
+    const { features, issues } = parseLocationResponse([
+      { id: 'a', lat: 50.88, lng: 5.97 },
+      { id: 'a', lat: 50.89, lng: 5.98 },
+      { id: 'c', lat: 'north', lng: 5.98 },
+    ]);
+
+    expect(features).toHaveLength(1);
+    expect(issues?.map((issue) => issue.code)).toEqual(['duplicate-id', 'invalid-coordinates']);
+  });
+
+  test('rejects other formats', () => {
+    expect(() => parseLocationResponse('locations')).toThrow('Unsupported location data format');
+  });
+});
+
+test.describe('loadLocationData', () => {
+  test('falls back to the Webflow DOM when the data source fails', async () => {
+    // The loader registers a DOMContentLoaded handler when it is imported
+    Object.assign(globalThis, {
+      window: globalThis,
+      document: { addEventListener: () => {}, getElementById: () => null },
+    });
+    const { domDataSource, getDataQualityReport, loadLocationData } = await import(
+      '../src/modules/dataLoader.js'
+    );
+
+    const domFeatures = parseLocationResponse([{ id: 'dom', lat: 50.88, lng: 5.97 }]).features;
+    domDataSource.load = async () => ({ features: domFeatures });
+
+    const failingSource: LocationDataSource = {
+      name: 'json',
+      load: () => Promise.reject(new Error('Failed to load location data (500)')),
+    };
+
+    const data = await loadLocationData(failingSource);
+
+    expect(data.features.map((feature: GeoJSON.Feature) => feature.properties?.id)).toEqual([
+      'dom',
+    ]);
+    expect(getDataQualityReport()?.source).toBe('dom');
+  });
+});
@@ -0,0 +1,71 @@
+import { expect, test } from '@playwright/test';
+
+import { exportFavorites, setFavorites } from '../src/modules/favorites.js';
+import { state } from '../src/modules/state.js';
+
+const location = (id: string, name: string, coordinates: [number, number], category = '') => ({
+  type: 'Feature' as const,
+  geometry: { type: 'Point' as const, coordinates },
+  properties: { id, name, category },
+});
+
+/**
+ * Export of the saved favourites to GPX, KML and GeoJSON
+ */
+test.describe('exportFavorites', () => {
+  test.beforeAll(() => {
+    // The file title is translated; the language comes from the page path
+    Object.assign(globalThis, { window: { location: { pathname: '/' } } });
+  });
+
+  test.beforeEach(() => {
+    state.mapLocations = {
+      type: 'FeatureCollection',
+      features: [
+        location('schunck', 'Glaspaleis Schunck', [5.9794, 50.8878], 'CULTUUR'),
+        location('kroon', 'Café <de> Kroon & Co', [5.98, 50.887]),
+        location('theater', 'Theater Heerlen', [5.9725, 50.8865], 'CULTUUR'),
+      ],
+    };
+    // Saved order, with a favourite that is no longer in the data
+    setFavorites(['kroon', 'removed', 'schunck']);
+  });
+
+  test('writes GeoJSON points in saved order, without unknown favourites', () => {
+    const collection = JSON.parse(exportFavorites('geojson'));
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features).toEqual([
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [5.98, 50.887] },
+        properties: { id: 'kroon', name: 'Café <de> Kroon & Co', category: '' },
+      },
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [5.9794, 50.8878] },
+        properties: { id: 'schunck', name: 'Glaspaleis Schunck', category: 'CULTUUR' },
+      },
+    ]);
+  });
+
+  test('writes GPX waypoints as lat/lon with escaped names', () => {
+    const gpx = exportFavorites('gpx');
+
+    expect(gpx).toContain('<metadata><name>Mijn favorieten in Heerlen</name></metadata>');
+    expect(gpx).toContain('<wpt lat="50.887" lon="5.98">');
+    expect(gpx).toContain('<name>Café &lt;de&gt; Kroon &amp; Co</name>');
+    expect(gpx).toContain('<type>CULTUUR</type>');
+    expect(gpx.match(/<wpt /g)).toHaveLength(2);
+    expect(gpx.indexOf('Kroon')).toBeLessThan(gpx.indexOf('Schunck'));
+  });
+
+  test('writes KML placemarks with lng,lat coordinates', () => {
+    const kml = exportFavorites('kml');
+
+    expect(kml).toContain('<coordinates>5.9794,50.8878</coordinates>');
+    expect(kml).toContain('<description>CULTUUR</description>');
+    expect(kml.match(/<Placemark>/g)).toHaveLength(2);
+    expect(kml).not.toContain('Theater Heerlen');
+  });
+});
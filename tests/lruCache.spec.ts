@@ -0,0 +1,86 @@
+import { expect, test } from '@playwright/test';
+
+import { LRUCache } from '../src/modules/lruCache.js';
+
+const createCache = (maxBytes: number) => {
+  const evicted: string[] = [];
+  const cache = new LRUCache<string>({ maxBytes, onEvict: (_value, key) => evicted.push(key) });
+  return { cache, evicted };
+};
+
+/**
+ * Memory budget of the shared image, texture and model cache
+ */
+test.describe('LRUCache', () => {
+  test('evicts the least recently used entries above the budget', () => {
+    const { cache, evicted } = createCache(30);
+    cache.set('a', 'A', 10);
+    cache.set('b', 'B', 10);
+    cache.set('c', 'C', 10);
+
+    // Reading "a" makes "b" the least recently used
+    cache.get('a');
+    cache.set('d', 'D', 10);
+
+    expect(evicted).toEqual(['b']);
+    expect(cache.keys()).toEqual(['c', 'a', 'd']);
+    expect(cache.bytes).toBe(30);
+  });
+
+  test('counts replaced entries once and frees the old value', () => {
+    const { cache, evicted } = createCache(100);
+    cache.set('a', 'A', 10);
+    cache.set('a', 'A2', 25);
+
+    expect(cache.size).toBe(1);
+    expect(cache.bytes).toBe(25);
+    expect(evicted).toEqual(['a']);
+  });
+
+  test('evicts right away when the budget shrinks', () => {
+    const { cache, evicted } = createCache(100);
+    cache.set('a', 'A', 40);
+    cache.set('b', 'B', 40);
+    cache.setMaxBytes(50);
+
+    expect(evicted).toEqual(['a']);
+    expect(cache.budget).toBe(50);
+    expect(cache.bytes).toBe(40);
+  });
+
+  test('keeps pinned entries until they are unpinned as many times', () => {
+    const { cache, evicted } = createCache(20);
+    cache.set('model', 'M', 15);
+    cache.pin('model');
+    cache.pin('model');
+    cache.set('image', 'I', 15);
+
+    // Over budget, but the only unpinned entry is the newest one
+    expect(evicted).toEqual(['image']);
+    expect(cache.has('model')).toBe(true);
+
+    // A pinned entry may even stay above the budget
+    cache.setMaxBytes(10);
+    cache.unpin('model');
+    expect(cache.isPinned('model')).toBe(true);
+    expect(cache.has('model')).toBe(true);
+
+    cache.unpin('model');
+    expect(cache.isPinned('model')).toBe(false);
+    expect(evicted).toEqual(['image', 'model']);
+    expect(cache.bytes).toBe(0);
+  });
+
+  test('clear frees every entry, pinned ones included', () => {
+    const { cache, evicted } = createCache(100);
+    cache.set('a', 'A', 10);
+    cache.set('b', 'B', 10);
+    cache.pin('b');
+    cache.clear();
+
+    expect(evicted).toEqual(['a', 'b']);
+    expect(cache.size).toBe(0);
+    expect(cache.bytes).toBe(0);
+    expect(cache.isPinned('b')).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { expect, test } from '@playwright/test';
+
+import {
+  getOpeningStatus,
+  parseDaySchedule,
+  parseOpeningHours,
+} from '../src/modules/openingHours.js';
+
+// 2024-01-01 was a Monday
+const at = (day: number, hours: number, minutes: number = 0) =>
+  new Date(2024, 0, day, hours, minutes);
+
+/**
+ * Free-text opening hours as editors type them in the CMS, and the open/closed status
+ */
+test.describe('parseDaySchedule', () => {
+  test('reads time ranges in the CMS formats', () => {
+    expect(parseDaySchedule('maandag', '09:00 - 17:30').intervals).toEqual([
+      { open: 540, close: 1050 },
+    ]);
+    expect(parseDaySchedule('maandag', '9.00-17.30').intervals).toEqual([
+      { open: 540, close: 1050 },
+    ]);
+    expect(parseDaySchedule('maandag', '9u tot 17u').intervals).toEqual([
+      { open: 540, close: 1020 },
+    ]);
+    expect(parseDaySchedule('maandag', '10 - 18').intervals).toEqual([{ open: 600, close: 1080 }]);
+  });
+
+  test('reads split shifts in order', () => {
+    expect(parseDaySchedule('dinsdag', '13:00 - 17:30, 09:00 - 12:00').intervals).toEqual([
+      { open: 540, close: 720 },
+      { open: 780, close: 1050 },
+    ]);
+  });
+
+  test('runs ranges that end before they start past midnight', () => {
+    expect(parseDaySchedule('vrijdag', '22:00 - 02:00').intervals).toEqual([
+      { open: 1320, close: 1560 },
+    ]);
+  });
+
+  test('recognizes closed days, whole days and unreadable text', () => {
+    expect(parseDaySchedule('zondag', 'Gesloten')).toMatchObject({ closed: true, intervals: [] });
+    expect(parseDaySchedule('zondag', '24 uur').intervals).toEqual([{ open: 0, close: 1440 }]);
+    expect(parseDaySchedule('zondag', 'Op afspraak')).toMatchObject({
+      unknown: true,
+      closed: false,
+    });
+    expect(parseDaySchedule('zondag', '')).toMatchObject({ unknown: true, raw: '' });
+  });
+
+  test('skips times that are out of range', () => {
+    expect(parseDaySchedule('maandag', '25:00 - 26:00')).toMatchObject({
+      intervals: [],
+      unknown: true,
+    });
+  });
+});
+
+test.describe('getOpeningStatus', () => {
+  const weekdays = parseOpeningHours({
+    maandag: '09:00 - 12:00, 13:00 - 17:30',
+    dinsdag: '09:00 - 17:30',
+    zaterdag: '22:00 - 02:00',
+    zondag: 'Gesloten',
+  });
+
+  test('is open inside an interval and tells when it closes', () => {
+    expect(getOpeningStatus(weekdays, at(1, 10))).toEqual({ state: 'open', closesAt: 720 });
+  });
+
+  test('is closed during the lunch break, opening again later today', () => {
+    expect(getOpeningStatus(weekdays, at(1, 12, 30))).toEqual({
+      state: 'closed',
+      nextOpening: { dayOffset: 0, day: 'maandag', time: 780 },
+    });
+  });
+
+  test('stays open past midnight on an overnight interval', () => {
+    // Sunday 01:00, after Saturday 22:00 - 02:00
+    expect(getOpeningStatus(weekdays, at(7, 1))).toEqual({ state: 'open', closesAt: 120 });
+  });
+
+  test('finds the next opening on a later day', () => {
+    expect(getOpeningStatus(weekdays, at(2, 18))).toEqual({
+      state: 'closed',
+      nextOpening: { dayOffset: 4, day: 'zaterdag', time: 1320 },
+    });
+  });
+
+  test('finds the same weekday next week for a venue open one day a week', () => {
+    const weekly = parseOpeningHours({ woensdag: '10:00 - 16:00' });
+    expect(getOpeningStatus(weekly, at(3, 17))).toEqual({
+      state: 'closed',
+      nextOpening: { dayOffset: 7, day: 'woensdag', time: 600 },
+    });
+  });
+
+  test('is unknown without opening hours', () => {
+    expect(getOpeningStatus(parseOpeningHours({}), at(1, 10))).toEqual({ state: 'unknown' });
+  });
+});
@@ -0,0 +1,71 @@
+import { expect, test } from '@playwright/test';
+
+import { CONFIG } from '../src/modules/config.js';
+import { eventBus, Events } from '../src/modules/eventBus.js';
+import { getTriggerRadius, updateProximity } from '../src/modules/proximity.js';
+
+// Roughly 1 meter of latitude
+const METER = 1 / 111195;
+
+const schunck: GeoJSON.Feature<GeoJSON.Point> = {
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [5.9794, 50.8878] },
+  properties: { id: 'schunck', name: 'Glaspaleis Schunck' },
+};
+
+// Position the given number of meters north of the location
+const north = (meters: number): [number, number] => [5.9794, 50.8878 + meters * METER];
+
+/**
+ * Geofence enter and exit events while the user walks past a location
+ */
+test.describe('updateProximity', () => {
+  const events: string[] = [];
+  const onEnter = () => events.push('enter');
+  const onExit = () => events.push('exit');
+
+  test.beforeEach(() => {
+    events.length = 0;
+    eventBus.on(Events.PROXIMITY_ENTER, onEnter);
+    eventBus.on(Events.PROXIMITY_EXIT, onExit);
+  });
+
+  test.afterEach(() => {
+    // Walk away, so the next test starts outside every radius
+    updateProximity(north(1000), [schunck]);
+    eventBus.off(Events.PROXIMITY_ENTER, onEnter);
+    eventBus.off(Events.PROXIMITY_EXIT, onExit);
+  });
+
+  test('enters within the trigger radius, once', () => {
+    const { radius } = CONFIG.PROXIMITY;
+
+    updateProximity(north(radius + 5), [schunck]);
+    expect(events).toEqual([]);
+
+    updateProximity(north(radius - 5), [schunck]);
+    updateProximity(north(radius - 10), [schunck]);
+    expect(events).toEqual(['enter']);
+  });
+
+  test('only exits once the user is past the hysteresis margin', () => {
+    const { radius, hysteresis } = CONFIG.PROXIMITY;
+
+    updateProximity(north(radius - 5), [schunck]);
+    // GPS jitter just outside the radius doesn't count as leaving
+    updateProximity(north(radius + hysteresis / 2), [schunck]);
+    updateProximity(north(radius - 2), [schunck]);
+    expect(events).toEqual(['enter']);
+
+    updateProximity(north(radius + hysteresis + 5), [schunck]);
+    expect(events).toEqual(['enter', 'exit']);
+  });
+
+  test('uses the radius of the location when it has one', () => {
+    const wide = { ...schunck, properties: { ...schunck.properties, proximityRadius: 100 } };
+    expect(getTriggerRadius(wide.properties)).toBe(100);
+
+    updateProximity(north(80), [wide]);
+    expect(events).toEqual(['enter']);
+  });
+});
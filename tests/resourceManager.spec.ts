@@ -0,0 +1,84 @@
+import { expect, test } from '@playwright/test';
+
+import { CONFIG } from '../src/modules/config.js';
+import { resourceManager } from '../src/modules/resourceManager.js';
+
+// GLTF loader stand-in that fails the given number of times before it loads
+const createLoader = (failures: number) => {
+  const loader = {
+    calls: 0,
+    load(
+      _url: string,
+      onLoad: (gltf: object) => void,
+      _onProgress: unknown,
+      onError: (e: Error) => void
+    ) {
+      loader.calls += 1;
+      if (loader.calls <= failures) {
+        onError(new Error('Network error'));
+      } else {
+        onLoad({});
+      }
+    },
+  };
+  return loader;
+};
+
+/**
+ * Retries with backoff and the skip list of failed URLs
+ */
+test.describe('ResourceManager retries', () => {
+  const { baseDelay, maxDelay } = CONFIG.RESOURCE_RETRY;
+
+  test.beforeAll(() => {
+    // Keep the backoff short
+    CONFIG.RESOURCE_RETRY.baseDelay = 20;
+    CONFIG.RESOURCE_RETRY.maxDelay = 80;
+  });
+
+  test.afterAll(() => {
+    CONFIG.RESOURCE_RETRY.baseDelay = baseDelay;
+    CONFIG.RESOURCE_RETRY.maxDelay = maxDelay;
+  });
+
+  test.afterEach(() => {
+    resourceManager.cleanup();
+  });
+
+  test('retries a failed load until it succeeds', async () => {
+    const loader = createLoader(CONFIG.RESOURCE_RETRY.attempts - 1);
+
+    await expect(resourceManager.loadModel('https://cdn.example/a.glb', loader)).resolves.toEqual(
+      {}
+    );
+    expect(loader.calls).toBe(CONFIG.RESOURCE_RETRY.attempts);
+    expect(resourceManager.getStats().failedResources).toBe(0);
+  });
+
+  test('waits longer before every next attempt', async () => {
+    const loader = createLoader(CONFIG.RESOURCE_RETRY.attempts - 1);
+    const started = Date.now();
+
+    await resourceManager.loadModel('https://cdn.example/b.glb', loader);
+
+    // Half of each delay is fixed, the other half is jitter: at least 10 + 20 ms for three attempts,
+    // with some room for timer rounding
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+  });
+
+  test('gives up after the last attempt and skips the URL for a while', async () => {
+    const url = 'https://cdn.example/c.glb';
+    const loader = createLoader(Infinity);
+
+    await expect(resourceManager.loadModel(url, loader)).rejects.toThrow('Network error');
+    expect(loader.calls).toBe(CONFIG.RESOURCE_RETRY.attempts);
+    expect(resourceManager.getStats().failedResources).toBe(1);
+
+    await expect(resourceManager.loadModel(url, loader)).rejects.toThrow('previously failed');
+    expect(loader.calls).toBe(CONFIG.RESOURCE_RETRY.attempts);
+
+    // Cleared failures are tried again right away
+    resourceManager.clearFailedResources(url);
+    await expect(resourceManager.loadModel(url, createLoader(0))).resolves.toEqual({});
+  });
+});
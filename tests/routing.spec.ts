@@ -0,0 +1,76 @@
+import { expect, test } from '@playwright/test';
+
+import { buildPedestrianGraph, findWalkingRoute } from '../src/modules/routing.js';
+
+const line = (...coordinates: Array<[number, number]>): GeoJSON.Feature<GeoJSON.LineString> => ({
+  type: 'Feature',
+  geometry: { type: 'LineString', coordinates },
+  properties: {},
+});
+
+// A block in the city centre: a short way round through the east and a detour through the west
+const southWest: [number, number] = [5.976, 50.887];
+const southEast: [number, number] = [5.978, 50.887];
+const northEast: [number, number] = [5.978, 50.888];
+const detour: [number, number] = [5.975, 50.8885];
+
+const network: GeoJSON.FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [line(southWest, southEast, northEast), line(southWest, detour, northEast)],
+};
+
+/**
+ * Graph building and shortest walking routes over a pedestrian network
+ */
+test.describe('buildPedestrianGraph', () => {
+  test('joins lines where they share a vertex', () => {
+    const graph = buildPedestrianGraph(network);
+
+    expect(graph.nodes).toHaveLength(4);
+    expect(graph.edges[0].map(({ node }) => node).sort()).toEqual([1, 3]);
+    expect(graph.edges[0][0].length).toBeCloseTo(140, -1);
+  });
+
+  test('leaves out segments outside the boundary', () => {
+    const graph = buildPedestrianGraph({
+      type: 'FeatureCollection',
+      features: [line(southWest, southEast), line([5.6909, 50.8514], [5.692, 50.8514])],
+    });
+
+    expect(graph.nodes).toEqual([southWest, southEast]);
+  });
+});
+
+test.describe('findWalkingRoute', () => {
+  const graph = buildPedestrianGraph(network);
+
+  test('takes the shortest way through the network', () => {
+    const route = findWalkingRoute(graph, [5.976, 50.8869], [5.978, 50.8881]);
+
+    expect(route?.coordinates).toContainEqual(southEast);
+    expect(route?.coordinates).not.toContainEqual(detour);
+    expect(route?.coordinates[0]).toEqual([5.976, 50.8869]);
+    expect(route?.coordinates.at(-1)).toEqual([5.978, 50.8881]);
+    expect(route?.distance).toBeCloseTo(273, -1);
+  });
+
+  test('walks straight along a path when both ends are on it', () => {
+    const route = findWalkingRoute(graph, [5.9765, 50.887], [5.9775, 50.887]);
+
+    expect(route?.coordinates).toHaveLength(4);
+    expect(route?.distance).toBeCloseTo(70, -1);
+  });
+
+  test('returns null when the network is out of reach', () => {
+    expect(findWalkingRoute(graph, southWest, [5.99, 50.887])).toBeNull();
+  });
+
+  test('returns null when the ends are not connected', () => {
+    const islands = buildPedestrianGraph({
+      type: 'FeatureCollection',
+      features: [line(southWest, southEast), line([5.976, 50.889], [5.978, 50.889])],
+    });
+
+    expect(findWalkingRoute(islands, southWest, [5.978, 50.889])).toBeNull();
+  });
+});
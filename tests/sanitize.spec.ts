@@ -0,0 +1,132 @@
+import { expect, test } from '@playwright/test';
+
+import { escapeHTML, sanitizeColor, sanitizeHTML, sanitizeUrl } from '../src/modules/sanitize.js';
+
+/**
+ * Hostile CMS values for the popup rendering layer
+ */
+test.describe('escapeHTML', () => {
+  test('escapes markup and quotes', () => {
+    expect(escapeHTML(`<img src=x onerror="alert(1)">'`)).toBe(
+      '&lt;img src=x onerror=&quot;alert(1)&quot;&gt;&#39;'
+    );
+  });
+
+  test('turns empty values into an empty string', () => {
+    expect(escapeHTML(null)).toBe('');
+    expect(escapeHTML(undefined)).toBe('');
+  });
+});
+
+test.describe('sanitizeUrl', () => {
+  test('keeps web, mail and relative URLs', () => {
+    expect(sanitizeUrl('https://heerlen.nl/?a=1&b=2')).toBe('https://heerlen.nl/?a=1&b=2');
+    expect(sanitizeUrl('mailto:info@heerlen.nl')).toBe('mailto:info@heerlen.nl');
+    expect(sanitizeUrl('/images/mural.png')).toBe('/images/mural.png');
+  });
+
+  test('rejects script and data URLs, also when obfuscated', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBe('');
+    expect(sanitizeUrl('  JaVaScRiPt:alert(1)')).toBe('');
+    expect(sanitizeUrl('java\tscript:alert(1)')).toBe('');
+    expect(sanitizeUrl('java\u0000script:alert(1)')).toBe('');
+    expect(sanitizeUrl('data:text/html;base64,PHNjcmlwdD4=')).toBe('');
+    expect(sanitizeUrl('vbscript:msgbox(1)')).toBe('');
+  });
+
+  test('only accepts the given protocols', () => {
+    expect(sanitizeUrl('snapchat://unlock/?uuid=1', ['http:', 'https:', 'snapchat:'])).toBe(
+      'snapchat://unlock/?uuid=1'
+    );
+    expect(sanitizeUrl('mailto:info@heerlen.nl', ['http:', 'https:'])).toBe('');
+  });
+});
+
+test.describe('sanitizeColor', () => {
+  test('keeps valid colours', () => {
+    expect(sanitizeColor('#6B46C1', '#000')).toBe('#6B46C1');
+    expect(sanitizeColor('rgba(255, 0, 0, 0.5)', '#000')).toBe('rgba(255, 0, 0, 0.5)');
+    expect(sanitizeColor('hsl(120 50% 50%)', '#000')).toBe('hsl(120 50% 50%)');
+    expect(sanitizeColor('rebeccapurple', '#000')).toBe('rebeccapurple');
+  });
+
+  test('falls back for values that break out of a style', () => {
+    expect(sanitizeColor('red; background: url(https://evil.example/x)', '#000')).toBe('#000');
+    expect(sanitizeColor('red}</style><script>alert(1)</script>', '#000')).toBe('#000');
+    expect(sanitizeColor('" onmouseover="alert(1)', '#000')).toBe('#000');
+    expect(sanitizeColor('expression(alert(1))', '#000')).toBe('#000');
+    expect(sanitizeColor(undefined, '#000')).toBe('#000');
+  });
+});
+
+test.describe('sanitizeHTML', () => {
+  test('keeps allowlisted rich text', () => {
+    const html = '<p>Open <strong>daily</strong><br>and <em>free</em></p><ul><li>Tip</li></ul>';
+    expect(sanitizeHTML(html)).toBe(html);
+  });
+
+  test('removes scripts, styles and frames with their content', () => {
+    expect(sanitizeHTML('<p>Hi</p><script>alert(1)</script>')).toBe('<p>Hi</p>');
+    expect(sanitizeHTML('<style>body{display:none}</style>Text')).toBe('Text');
+    expect(sanitizeHTML('<iframe src="https://evil.example"></iframe>')).toBe('');
+    expect(sanitizeHTML('<svg><script>alert(1)</script></svg>ok')).toBe('ok');
+    expect(sanitizeHTML('<SCRIPT >alert(1)</SCRIPT >after')).toBe('after');
+  });
+
+  test('drops event handlers and unknown attributes', () => {
+    expect(sanitizeHTML('<p onclick="alert(1)" style="color:red" class="x">Hi</p>')).toBe(
+      '<p>Hi</p>'
+    );
+    expect(sanitizeHTML('<img src="https://cdn.example/a.png" onerror="alert(1)" alt="A">')).toBe(
+      '<img src="https://cdn.example/a.png" alt="A">'
+    );
+  });
+
+  test('unwraps unknown tags but keeps their text', () => {
+    expect(sanitizeHTML('<blink>Hello</blink> <form><button>Go</button></form>')).toBe('Hello Go');
+  });
+
+  test('removes unsafe link and image URLs, including entity-encoded ones', () => {
+    expect(sanitizeHTML('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHTML('<a href="&#106;avascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHTML('<a href="javascript&colon;alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHTML('<a href="jav&#x09;ascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHTML('<img src="data:image/svg+xml,<svg onload=alert(1)>">')).toBe('<img>');
+  });
+
+  test('adds rel to links that open a new tab', () => {
+    expect(sanitizeHTML('<a href="https://heerlen.nl" target="_blank">Site</a>')).toBe(
+      '<a href="https://heerlen.nl" rel="noopener noreferrer" target="_blank">Site</a>'
+    );
+    expect(sanitizeHTML('<a href="https://heerlen.nl" target="_top">Site</a>')).toBe(
+      '<a href="https://heerlen.nl">Site</a>'
+    );
+  });
+
+  test('cannot be broken out of with quotes or malformed markup', () => {
+    expect(sanitizeHTML('<a href="https://a.nl/" title=\'x" onclick="alert(1)\'>x</a>')).toBe(
+      '<a href="https://a.nl/" title="x&quot; onclick=&quot;alert(1)">x</a>'
+    );
+    expect(sanitizeHTML('<p title="a>b">text</p>')).toBe('<p>text</p>');
+    expect(sanitizeHTML('1 < 2 && "3" > 2')).toBe('1 &lt; 2 &amp;&amp; &quot;3&quot; &gt; 2');
+    expect(sanitizeHTML('<p>open <strong>bold')).toBe('<p>open <strong>bold</strong></p>');
+    expect(sanitizeHTML('</p>stray</div>')).toBe('stray');
+    expect(sanitizeHTML('<img src=x onerror=alert(1)')).toBe('');
+  });
+
+  test('removes comments and keeps existing entities', () => {
+    expect(sanitizeHTML('a<!-- <script>alert(1)</script> -->b')).toBe('ab');
+    expect(sanitizeHTML('Caf&eacute; &amp; bar')).toBe('Caf&eacute; &amp; bar');
+  });
+
+  test('does not take tag names from the object prototype', () => {
+    expect(sanitizeHTML('<constructor>x</constructor>')).toBe('x');
+    expect(sanitizeHTML('<constructor class="a">x</constructor>')).toBe('x');
+    expect(sanitizeHTML('<toString title="a">x</toString>')).toBe('x');
+    expect(sanitizeHTML('<__proto__>x</__proto__>')).toBe('&lt;__proto__&gt;x&lt;/__proto__&gt;');
+  });
+
+  test('closes tags left open inside a closed parent', () => {
+    expect(sanitizeHTML('<ul><li>one<li>two</ul>')).toBe('<ul><li>one<li>two</li></li></ul>');
+  });
+});
@@ -0,0 +1,78 @@
+import { expect, test } from '@playwright/test';
+
+import { normalizeSearchText, searchLocations } from '../src/modules/search.js';
+import { state } from '../src/modules/state.js';
+
+const location = (name: string, category: string, description: string = '') => ({
+  type: 'Feature' as const,
+  geometry: { type: 'Point' as const, coordinates: [5.98, 50.89] },
+  properties: { name, category, description },
+});
+
+const searchNames = (query: string) =>
+  searchLocations(query).map((result) => result.feature.properties?.name);
+
+/**
+ * Fuzzy search over the names, categories and descriptions of the loaded locations
+ */
+test.beforeEach(() => {
+  state.mapLocations = {
+    type: 'FeatureCollection',
+    features: [
+      location('Glaspaleis Schunck', 'CULTUUR', '<p>Bibliotheek en museum</p>'),
+      location('Café de Kroon', 'ETEN'),
+      location('Theater Heerlen', 'CULTUUR', 'Voorstellingen en concerten'),
+      location('Bakkerij Bart', 'ETEN'),
+    ],
+  };
+});
+
+test.describe('normalizeSearchText', () => {
+  test('strips markup, diacritics, case and punctuation', () => {
+    expect(normalizeSearchText('<b>Café</b>  Crème-Brûlée!')).toBe('cafe creme brulee');
+  });
+});
+
+test.describe('searchLocations', () => {
+  test('finds exact words and prefixes', () => {
+    expect(searchNames('schunck')).toEqual(['Glaspaleis Schunck']);
+    expect(searchNames('glasp')).toEqual(['Glaspaleis Schunck']);
+  });
+
+  test('ignores diacritics in the query and the data', () => {
+    expect(searchNames('café')).toEqual(['Café de Kroon']);
+    expect(searchNames('cafe')).toEqual(['Café de Kroon']);
+  });
+
+  test('allows typos by edit distance, depending on the word length', () => {
+    // One substitution in a word of up to six letters
+    expect(searchNames('kraon')).toEqual(['Café de Kroon']);
+    // A swapped pair of letters counts as one edit
+    expect(searchNames('thaeter')).toEqual(['Theater Heerlen']);
+    // Two edits in longer words
+    expect(searchNames('glaspalijs')).toEqual(['Glaspaleis Schunck']);
+    // Short words have to match exactly
+    expect(searchNames('bsk')).toEqual([]);
+  });
+
+  test('allows typos while the word is still being typed', () => {
+    expect(searchNames('theatr')).toEqual(['Theater Heerlen']);
+  });
+
+  test('needs every query word to match', () => {
+    expect(searchNames('theater heerlen')).toEqual(['Theater Heerlen']);
+    expect(searchNames('theater kroon')).toEqual([]);
+  });
+
+  test('ranks name hits above category and description hits', () => {
+    state.mapLocations = {
+      type: 'FeatureCollection',
+      features: [location('Stadsmuseum', 'CULTUUR'), location('Bibliotheek', 'museum')],
+    };
+    expect(searchNames('museum')).toEqual(['Stadsmuseum', 'Bibliotheek']);
+  });
+
+  test('returns nothing for an empty query', () => {
+    expect(searchLocations('  ')).toEqual([]);
+  });
+});